@@ -8,7 +8,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import MathStepsPanel from "@/components/math-steps-panel"
 import { DiagnosticAISystem } from "@/lib/diagnostic-ai-system"
+import type { MathExplanation } from "@/lib/math-expression"
 import { Brain, AlertTriangle, CheckCircle, Clock, Wifi, WifiOff, Activity, Loader2 } from "lucide-react"
 
 interface LoadingStep {
@@ -35,6 +37,9 @@ interface ChatMessage {
   timestamp: number
   confidence?: number
   responseTime?: number
+  metadata?: {
+    explanation?: MathExplanation
+  }
 }
 
 export default function DiagnosticChatWindow() {
@@ -321,6 +326,7 @@ export default function DiagnosticChatWindow() {
         timestamp: Date.now(),
         confidence: response.confidence,
         responseTime: responseTime,
+        metadata: response.metadata,
       }
 
       setMessages((prev) => [...prev, aiMessage])
@@ -497,6 +503,8 @@ export default function DiagnosticChatWindow() {
                   >
                     <div className="text-sm mb-2">{message.content}</div>
 
+                    {message.metadata?.explanation && <MathStepsPanel explanation={message.metadata.explanation} />}
+
                     <div className="flex items-center justify-between text-xs opacity-70 mt-2">
                       <span>{new Date(message.timestamp).toLocaleTimeString()}</span>
 
@@ -0,0 +1,73 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { formatMathNumber } from "@/lib/math-expression"
+import { plotToCsv, type PlotData } from "@/lib/function-plotter"
+import { Download } from "lucide-react"
+
+interface FunctionPlotProps {
+  plot: PlotData
+}
+
+const COLORS = ["hsl(var(--chart-1))", "hsl(var(--chart-2))", "hsl(var(--chart-3))", "hsl(var(--chart-4))", "hsl(var(--chart-5))"]
+
+const formatTick = (value: number) => formatMathNumber(value, "decimal", 3)
+
+export default function FunctionPlot({ plot }: FunctionPlotProps) {
+  const config: ChartConfig = Object.fromEntries(
+    plot.series.map((series, idx) => [series.key, { label: `y = ${series.label}`, color: COLORS[idx % COLORS.length] }]),
+  )
+
+  const downloadCsv = () => {
+    const blob = new Blob([plotToCsv(plot)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `plot-${new Date().toISOString().split("T")[0]}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="mb-2 rounded border bg-gray-50 p-2">
+      <ChartContainer config={config} className="w-full min-w-[280px]">
+        <LineChart data={plot.points} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={[plot.xMin, plot.xMax]}
+            tickFormatter={formatTick}
+            tickLine={false}
+          />
+          <YAxis type="number" domain={["auto", "auto"]} tickFormatter={formatTick} tickLine={false} width={40} />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, payload) => `x = ${formatTick(payload[0]?.payload.x)}`} />}
+          />
+          {plot.series.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          {plot.series.map((series) => (
+            <Line
+              key={series.key}
+              dataKey={series.key}
+              type="linear"
+              stroke={`var(--color-${series.key})`}
+              strokeWidth={2}
+              dot={false}
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={downloadCsv}>
+          <Download className="w-3 h-3 mr-1" />
+          CSV
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import { useState } from "react"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { formatMathNumber, type MathExplanation } from "@/lib/math-expression"
+import { ChevronDown, ChevronRight, ListOrdered } from "lucide-react"
+
+interface MathStepsPanelProps {
+  explanation: MathExplanation
+}
+
+export default function MathStepsPanel({ explanation }: MathStepsPanelProps) {
+  const [open, setOpen] = useState(false)
+  const [showTree, setShowTree] = useState(false)
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-2 rounded border bg-gray-50 text-xs">
+      <CollapsibleTrigger className="flex w-full items-center gap-1 px-2 py-1 text-gray-600 hover:text-gray-900">
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <ListOrdered className="w-3 h-3" />
+        <span>
+          {explanation.steps.length} step{explanation.steps.length === 1 ? "" : "s"}
+        </span>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="space-y-2 px-2 pb-2">
+        <ol className="space-y-1">
+          {explanation.steps.map((step) => (
+            <li key={step.order} className="flex gap-2 font-mono">
+              <span className="text-gray-400">{step.order}.</span>
+              <span>
+                {step.operation} = <strong>{formatMathNumber(step.result, "decimal", 12)}</strong>
+              </span>
+              {step.expression !== formatMathNumber(step.result, "decimal", 12) && (
+                <span className="text-gray-500">→ {step.expression}</span>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        <button type="button" className="text-gray-500 underline" onClick={() => setShowTree((prev) => !prev)}>
+          {showTree ? "Hide parse tree" : "Show parse tree"}
+        </button>
+        {showTree && (
+          <pre className="overflow-x-auto rounded bg-white p-2 font-mono leading-tight">
+            {explanation.tree.join("\n")}
+          </pre>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
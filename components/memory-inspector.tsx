@@ -0,0 +1,256 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Slider } from "@/components/ui/slider"
+import type { ReliableAISystem } from "@/lib/reliable-ai-system"
+import { MemoryError, type MemoryEdit, type MemoryEntry } from "@/lib/memory-store"
+import { Check, Pencil, Pin, PinOff, Search, Trash2, X } from "lucide-react"
+
+interface MemoryInspectorProps {
+  aiSystem: ReliableAISystem
+  // Bumped by the chat window whenever a message may have changed memory
+  version: number
+  onChange?: () => void
+  // Scrolls the chat to the message an entry was read from
+  onShowSource?: (messageId: string) => void
+}
+
+export default function MemoryInspector({ aiSystem, version, onChange, onShowSource }: MemoryInspectorProps) {
+  const [entries, setEntries] = useState<MemoryEntry[]>([])
+  const [query, setQuery] = useState("")
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [editingKey, setEditingKey] = useState<string | null>(null)
+  const [draft, setDraft] = useState("")
+  const [editError, setEditError] = useState<string | null>(null)
+
+  const reload = () => {
+    const current = aiSystem.getMemoryEntries()
+    setEntries(current)
+    setSelected((prev) => new Set(current.filter((entry) => prev.has(entry.key)).map((entry) => entry.key)))
+  }
+
+  useEffect(() => {
+    reload()
+  }, [aiSystem, version])
+
+  // Pinned first, then newest
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    return entries
+      .filter(
+        (entry) =>
+          needle === "" ||
+          [entry.value, entry.slot ?? "fact", entry.source ?? ""].some((text) => text.toLowerCase().includes(needle)),
+      )
+      .sort((a, b) => Number(b.pinned ?? false) - Number(a.pinned ?? false) || b.timestamp - a.timestamp)
+  }, [entries, query])
+
+  const update = (key: string, changes: MemoryEdit) => {
+    aiSystem.updateMemoryEntry(key, changes)
+    reload()
+    onChange?.()
+  }
+
+  const remove = (keys: string[]) => {
+    aiSystem.deleteMemoryEntries(keys)
+    reload()
+    onChange?.()
+  }
+
+  const startEditing = (entry: MemoryEntry) => {
+    setEditingKey(entry.key)
+    setDraft(entry.value)
+    setEditError(null)
+  }
+
+  // A refused edit stays open with the reason underneath
+  const saveEdit = () => {
+    try {
+      if (editingKey && draft.trim() !== "") {
+        update(editingKey, { value: draft })
+      }
+      setEditingKey(null)
+    } catch (error) {
+      if (!(error instanceof MemoryError)) throw error
+      setEditError(error.message)
+    }
+  }
+
+  const toggleSelected = (key: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(key)
+      else next.delete(key)
+      return next
+    })
+  }
+
+  const allVisibleSelected = visible.length > 0 && visible.every((entry) => selected.has(entry.key))
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-2 top-2.5 w-4 h-4 text-gray-400" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search memories..."
+          className="pl-8"
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <label className="flex items-center gap-2">
+          <Checkbox
+            checked={allVisibleSelected}
+            onCheckedChange={(checked) =>
+              setSelected(checked === true ? new Set(visible.map((entry) => entry.key)) : new Set())
+            }
+            disabled={visible.length === 0}
+          />
+          {visible.length} of {entries.length}
+        </label>
+        <Button
+          variant="destructive"
+          size="sm"
+          className="h-7"
+          disabled={selected.size === 0}
+          onClick={() => remove(Array.from(selected))}
+        >
+          <Trash2 className="w-3 h-3 mr-1" />
+          Delete {selected.size > 0 ? selected.size : ""}
+        </Button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="text-sm text-gray-500 text-center py-4">
+          {entries.length === 0 ? "Nothing remembered yet. Try \"My name is ...\" or \"I like ...\"." : "No matches."}
+        </div>
+      ) : (
+        <ul className="space-y-2 max-h-[32rem] overflow-y-auto pr-1">
+          {visible.map((entry) => (
+            <li key={entry.key} className="rounded border p-2 text-xs space-y-2">
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  checked={selected.has(entry.key)}
+                  onCheckedChange={(checked) => toggleSelected(entry.key, checked === true)}
+                  className="mt-0.5"
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-1">
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                      {entry.slot ?? "fact"}
+                    </Badge>
+                    {entry.pinned && <Pin className="w-3 h-3 text-blue-600" />}
+                  </div>
+
+                  {editingKey === entry.key ? (
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={draft}
+                          onChange={(e) => setDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") saveEdit()
+                            if (e.key === "Escape") setEditingKey(null)
+                          }}
+                          className="h-7 text-xs"
+                          autoFocus
+                        />
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={saveEdit}>
+                          <Check className="w-3 h-3" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditingKey(null)}>
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </div>
+                      {editError && <div className="text-red-600">{editError}</div>}
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      className="text-sm font-medium text-left break-words hover:underline"
+                      onClick={() => startEditing(entry)}
+                    >
+                      {entry.value}
+                    </button>
+                  )}
+
+                  <div className="text-gray-500">
+                    {new Date(entry.timestamp).toLocaleString()}
+                    {entry.confidence !== undefined && (
+                      <span title={entry.pattern}> · {Math.round(entry.confidence * 100)}% sure</span>
+                    )}
+                  </div>
+                  {entry.source &&
+                    (entry.sourceMessageId && onShowSource ? (
+                      <button
+                        type="button"
+                        className="block w-full text-left text-gray-500 italic truncate hover:underline"
+                        title="Show the message this came from"
+                        onClick={() => onShowSource(entry.sourceMessageId!)}
+                      >
+                        "{entry.source}"
+                      </button>
+                    ) : (
+                      <div className="text-gray-500 italic truncate">"{entry.source}"</div>
+                    ))}
+                </div>
+
+                <div className="flex flex-col gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Edit"
+                    onClick={() => startEditing(entry)}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title={entry.pinned ? "Unpin" : "Pin so it's never forgotten"}
+                    onClick={() => update(entry.key, { pinned: !entry.pinned })}
+                  >
+                    {entry.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-red-600"
+                    title="Delete"
+                    onClick={() => remove([entry.key])}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="text-gray-500 w-16">Importance</span>
+                <Slider
+                  value={[entry.importance]}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  onValueChange={([importance]) =>
+                    setEntries((prev) => prev.map((item) => (item.key === entry.key ? { ...item, importance } : item)))
+                  }
+                  onValueCommit={([importance]) => update(entry.key, { importance })}
+                  className="flex-1"
+                />
+                <span className="w-8 text-right">{Math.round(entry.importance * 100)}%</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
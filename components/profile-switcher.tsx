@@ -0,0 +1,166 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ReliableAISystem } from "@/lib/reliable-ai-system"
+import type { UserProfile } from "@/lib/profile-manager"
+import { Check, Download, Pencil, Trash2, UserPlus, Users, X } from "lucide-react"
+
+interface ProfileSwitcherProps {
+  aiSystem: ReliableAISystem
+  // The active profile's id; changes when a profile is picked here or named in chat
+  activeId: string
+  onProfileChange: () => void
+}
+
+export default function ProfileSwitcher({ aiSystem, activeId, onProfileChange }: ProfileSwitcherProps) {
+  const [profiles, setProfiles] = useState<UserProfile[]>([])
+  const [mode, setMode] = useState<"create" | "rename" | "delete" | null>(null)
+  const [name, setName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setProfiles(aiSystem.getProfiles())
+  }, [aiSystem, activeId])
+
+  const active = profiles.find((profile) => profile.id === activeId)
+
+  // Profile errors are written to finish a sentence: "there's already a profile called Sam"
+  const run = (action: () => void) => {
+    try {
+      action()
+      setMode(null)
+      setError(null)
+      setProfiles(aiSystem.getProfiles())
+      onProfileChange()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      setError(message.charAt(0).toUpperCase() + message.slice(1))
+    }
+  }
+
+  const startEditing = (nextMode: "create" | "rename") => {
+    setMode(nextMode)
+    setName(nextMode === "rename" ? (active?.name ?? "") : "")
+    setError(null)
+  }
+
+  const saveName = () =>
+    run(() => {
+      if (mode === "create") {
+        aiSystem.switchProfile(aiSystem.createProfile(name).id)
+      } else if (active) {
+        aiSystem.renameProfile(active.id, name)
+      }
+    })
+
+  const exportProfile = () => {
+    const data = aiSystem.exportProfile(activeId)
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `ai-profile-${data.profile.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Users className="w-4 h-4 text-gray-500" />
+        <Select value={activeId} onValueChange={(id) => run(() => aiSystem.switchProfile(id))}>
+          <SelectTrigger className="h-8 flex-1">
+            <SelectValue placeholder="Choose a profile" />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 flex-1"
+          title="New profile"
+          onClick={() => startEditing("create")}
+        >
+          <UserPlus className="w-3 h-3" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 flex-1"
+          title="Rename"
+          onClick={() => startEditing("rename")}
+        >
+          <Pencil className="w-3 h-3" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 flex-1" title="Export" onClick={exportProfile}>
+          <Download className="w-3 h-3" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 flex-1 text-red-600"
+          title="Delete"
+          disabled={profiles.length < 2}
+          onClick={() => setMode("delete")}
+        >
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {(mode === "create" || mode === "rename") && (
+        <div className="flex items-center gap-1">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveName()
+              if (e.key === "Escape") setMode(null)
+            }}
+            placeholder={mode === "create" ? "New profile name" : "Profile name"}
+            className="h-8 text-sm"
+            autoFocus
+          />
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={saveName}>
+            <Check className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setMode(null)}>
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+
+      {mode === "delete" && active && (
+        <div className="rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700 space-y-2">
+          <p>Delete {active.name} and everything the assistant remembers about them?</p>
+          <div className="flex gap-1">
+            <Button
+              variant="destructive"
+              size="sm"
+              className="h-7"
+              onClick={() => run(() => aiSystem.deleteProfile(active.id))}
+            >
+              Delete
+            </Button>
+            <Button variant="outline" size="sm" className="h-7" onClick={() => setMode(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  )
+}
@@ -10,7 +10,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Progress } from "@/components/ui/progress"
 import { Switch } from "@/components/ui/switch"
 import { Separator } from "@/components/ui/separator"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import MathStepsPanel from "@/components/math-steps-panel"
+import FunctionPlot from "@/components/function-plot"
+import MemoryInspector from "@/components/memory-inspector"
+import ProfileSwitcher from "@/components/profile-switcher"
 import { ReliableAISystem } from "@/lib/reliable-ai-system"
+import type { MathExplanation } from "@/lib/math-expression"
+import type { PlotData } from "@/lib/function-plotter"
+import type { MemoryCitation } from "@/lib/memory-store"
 import { VocabularySeeder } from "@/lib/vocabulary-seeder-safe"
 import {
   Brain,
@@ -38,6 +46,17 @@ interface ChatMessage {
   confidence?: number
   suggestions?: string[]
   feedback?: "positive" | "negative" | null
+  table?: ResultTable
+  metadata?: {
+    explanation?: MathExplanation
+    plot?: PlotData
+    sources?: MemoryCitation[]
+  }
+}
+
+interface ResultTable {
+  headers: string[]
+  rows: string[][]
 }
 
 interface AIStats {
@@ -63,6 +82,7 @@ export default function ReliableChatWindow() {
   const [input, setInput] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [showMetrics, setShowMetrics] = useState(false)
+  const [showSteps, setShowSteps] = useState(false)
   const [stats, setStats] = useState<AIStats>({
     totalMessages: 0,
     vocabularySize: 0,
@@ -76,6 +96,8 @@ export default function ReliableChatWindow() {
   const [error, setError] = useState<string | null>(null)
   const [suggestions, setSuggestions] = useState<Suggestion[]>([])
   const [isSeeding, setIsSeeding] = useState(false)
+  const [highlightedId, setHighlightedId] = useState<string | null>(null)
+  const [activeProfileId, setActiveProfileId] = useState("")
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -101,6 +123,7 @@ export default function ReliableChatWindow() {
       // Load previous conversations
       const history = aiSystem.getConversationHistory()
       setMessages(history)
+      setActiveProfileId(aiSystem.getActiveProfile().id)
 
       // Update stats
       updateStats()
@@ -119,6 +142,13 @@ export default function ReliableChatWindow() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }
 
+  // Memory citations jump back to the message a memory came from and flash it
+  const showSourceMessage = (messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" })
+    setHighlightedId(messageId)
+    setTimeout(() => setHighlightedId((current) => (current === messageId ? null : current)), 2000)
+  }
+
   const updateStats = () => {
     const newStats = aiSystem.getStats()
     const seedProgress = vocabularySeeder.getProgress()
@@ -129,6 +159,13 @@ export default function ReliableChatWindow() {
     })
   }
 
+  // Everything on screen belongs to the active profile
+  const handleProfileChange = () => {
+    setMessages(aiSystem.getConversationHistory())
+    setActiveProfileId(aiSystem.getActiveProfile().id)
+    updateStats()
+  }
+
   const updateSuggestions = () => {
     const contextSuggestions = aiSystem.generateSuggestions(messages)
     setSuggestions(contextSuggestions)
@@ -157,7 +194,7 @@ export default function ReliableChatWindow() {
       setMessages((prev) => [...prev, userMessage])
 
       // Get AI response
-      const response = await aiSystem.processMessage(userInput)
+      const response = await aiSystem.processMessage(userInput, userMessage.id)
       const responseTime = Date.now() - startTime
 
       // Generate suggestions for this response
@@ -170,11 +207,21 @@ export default function ReliableChatWindow() {
         content: response.content,
         timestamp: Date.now(),
         confidence: response.confidence,
+        table: response.table,
+        metadata: response.metadata,
         suggestions: responseSuggestions,
         feedback: null,
       }
 
-      setMessages((prev) => [...prev, aiMessage])
+      // Naming a profile in chat ("it's Alice") switches to that profile's conversation
+      if (aiSystem.getActiveProfile().id !== activeProfileId) {
+        handleProfileChange()
+      } else {
+        setMessages((prev) => [...prev, aiMessage])
+      }
+
+      // "show steps" / "hide steps" can also be typed in chat
+      setShowSteps(aiSystem.isShowingMathSteps())
 
       // Update stats with response time
       aiSystem.updateResponseTime(responseTime)
@@ -535,9 +582,21 @@ export default function ReliableChatWindow() {
                   </div>
                 </div>
 
-                <div className="flex items-center gap-2">
-                  <span className="text-sm">Metrics</span>
-                  <Switch checked={showMetrics} onCheckedChange={setShowMetrics} />
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">Steps</span>
+                    <Switch
+                      checked={showSteps}
+                      onCheckedChange={(checked) => {
+                        aiSystem.setShowMathSteps(checked)
+                        setShowSteps(checked)
+                      }}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">Metrics</span>
+                    <Switch checked={showMetrics} onCheckedChange={setShowMetrics} />
+                  </div>
                 </div>
               </div>
             </div>
@@ -598,17 +657,75 @@ export default function ReliableChatWindow() {
               )}
 
               {messages.map((message) => (
-                <div key={message.id} className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}>
+                <div
+                  key={message.id}
+                  id={`message-${message.id}`}
+                  className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
+                >
                   <div
-                    className={`max-w-[80%] rounded-lg p-4 ${
+                    className={`max-w-[80%] rounded-lg p-4 transition-shadow ${
                       message.role === "user" ? "bg-blue-500 text-white" : "bg-white border shadow-sm"
-                    }`}
+                    } ${highlightedId === message.id ? "ring-4 ring-yellow-400" : ""}`}
                   >
                     <div className="text-sm mb-2">{message.content}</div>
 
+                    {message.metadata?.explanation && <MathStepsPanel explanation={message.metadata.explanation} />}
+
+                    {message.metadata?.plot && <FunctionPlot plot={message.metadata.plot} />}
+
+                    {message.table && (
+                      <div className="mb-2 rounded border bg-gray-50">
+                        <Table className="text-xs">
+                          {message.table.headers.length > 0 && (
+                            <TableHeader>
+                              <TableRow>
+                                {message.table.headers.map((header, idx) => (
+                                  <TableHead key={idx} className="h-8 px-2">
+                                    {header}
+                                  </TableHead>
+                                ))}
+                              </TableRow>
+                            </TableHeader>
+                          )}
+                          <TableBody>
+                            {message.table.rows.map((row, rowIdx) => (
+                              <TableRow key={rowIdx}>
+                                {row.map((cell, cellIdx) => (
+                                  <TableCell key={cellIdx} className="px-2 py-1 font-mono">
+                                    {cell}
+                                  </TableCell>
+                                ))}
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    )}
+
                     {/* AI Response Features */}
                     {message.role === "assistant" && (
                       <div className="space-y-3 mt-3">
+                        {/* Where remembered facts came from */}
+                        {message.metadata?.sources && message.metadata.sources.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+                            <MessageCircle className="w-3 h-3" />
+                            <span>From:</span>
+                            {message.metadata.sources.map((source) => (
+                              <Button
+                                key={source.messageId}
+                                variant="ghost"
+                                size="sm"
+                                className="text-xs h-6 px-2 italic max-w-[16rem] truncate"
+                                title={source.text}
+                                disabled={!messages.some((msg) => msg.id === source.messageId)}
+                                onClick={() => showSourceMessage(source.messageId)}
+                              >
+                                "{source.text}"
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+
                         {/* Suggestions */}
                         {message.suggestions && message.suggestions.length > 0 && (
                           <div className="space-y-2">
@@ -745,6 +862,12 @@ export default function ReliableChatWindow() {
 
       {/* Sidebar */}
       <div className="w-80 p-4">
+        <Card className="mb-4">
+          <CardContent className="pt-4">
+            <ProfileSwitcher aiSystem={aiSystem} activeId={activeProfileId} onProfileChange={handleProfileChange} />
+          </CardContent>
+        </Card>
+
         <Tabs defaultValue="stats" className="space-y-4">
           <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="stats">Stats</TabsTrigger>
@@ -812,47 +935,14 @@ export default function ReliableChatWindow() {
                   Memory System
                 </CardTitle>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="text-sm text-gray-600">
-                  <p className="mb-2">The AI remembers:</p>
-                  <ul className="space-y-1 text-xs">
-                    <li>• Previous conversations</li>
-                    <li>• Topics you've discussed</li>
-                    <li>• Your preferences</li>
-                    <li>• Mathematical calculations</li>
-                    <li>• Context from earlier messages</li>
-                  </ul>
-                </div>
-
-                <div className="border-t pt-4">
-                  <div className="text-sm font-medium mb-2">Try These</div>
-                  <div className="space-y-2 text-xs">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="w-full text-left justify-start"
-                      onClick={() => setInput("Remember that I work as a developer")}
-                    >
-                      "Remember that I work as a developer"
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="w-full text-left justify-start"
-                      onClick={() => setInput("What did we talk about earlier?")}
-                    >
-                      "What did we talk about earlier?"
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="w-full text-left justify-start"
-                      onClick={() => setInput("Calculate the square root of 144")}
-                    >
-                      "Calculate the square root of 144"
-                    </Button>
-                  </div>
-                </div>
+              <CardContent>
+                <MemoryInspector
+                  key={activeProfileId}
+                  aiSystem={aiSystem}
+                  version={messages.length}
+                  onChange={updateStats}
+                  onShowSource={showSourceMessage}
+                />
               </CardContent>
             </Card>
           </TabsContent>
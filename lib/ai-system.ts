@@ -1,6 +1,7 @@
 import { NeuralEngine, type ModelWeights } from "./neural-engine"
 import { KnowledgeManager } from "./knowledge-manager"
 import { SimpleTokenizer } from "./tokenizer"
+import { scopedKey } from "./profile-manager"
 
 export interface ChatMessage {
   id: string
@@ -217,7 +218,7 @@ export class AISystem {
 
   private saveConversationHistory(): void {
     try {
-      localStorage.setItem("ai-conversation", JSON.stringify(this.conversationHistory))
+      localStorage.setItem(scopedKey("ai-conversation"), JSON.stringify(this.conversationHistory))
     } catch (error) {
       console.warn("Failed to save conversation:", error)
     }
@@ -225,7 +226,7 @@ export class AISystem {
 
   private loadConversationHistory(): void {
     try {
-      const stored = localStorage.getItem("ai-conversation")
+      const stored = localStorage.getItem(scopedKey("ai-conversation"))
       if (stored) {
         this.conversationHistory = JSON.parse(stored)
       }
@@ -0,0 +1,136 @@
+export interface Bm25Match {
+  id: string
+  score: number
+}
+
+export interface SerializedBm25Index {
+  // term -> [document id, term frequency]
+  postings: [string, [string, number][]][]
+  lengths: [string, number][]
+}
+
+// Standard BM25 tuning: term frequency saturation and document length normalization
+const K1 = 1.2
+const B = 0.75
+
+const STOP_WORDS = new Set([
+  "a", "about", "above", "after", "again", "all", "am", "an", "and", "any", "are", "as", "at", "be", "because",
+  "been", "before", "being", "below", "between", "both", "but", "by", "can", "could", "did", "do", "does", "doing",
+  "down", "during", "each", "few", "for", "from", "further", "had", "has", "have", "having", "he", "her", "here",
+  "hers", "him", "his", "how", "i", "if", "in", "into", "is", "it", "its", "just", "me", "more", "most", "my", "no",
+  "nor", "not", "now", "of", "off", "on", "once", "only", "or", "other", "our", "out", "over", "own", "same", "she",
+  "should", "so", "some", "such", "than", "that", "the", "their", "them", "then", "there", "these", "they", "this",
+  "those", "through", "to", "too", "under", "until", "up", "very", "was", "we", "were", "what", "when", "where",
+  "which", "while", "who", "whom", "why", "will", "with", "would", "you", "your",
+])
+
+const SUFFIXES = ["ations", "ation", "ness", "ment", "ingly", "edly", "ing", "ed", "ly"]
+
+// Light suffix stripping so "learning", "learned" and "learns" share a term
+function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word
+
+  let stemmed = word.replace(/sses$/, "ss").replace(/ies$/, "y").replace(/([^su])s$/, "$1")
+  for (const suffix of SUFFIXES) {
+    const rest = stemmed.slice(0, -suffix.length)
+    if (stemmed.endsWith(suffix) && rest.length >= 3 && /[aeiouy]/.test(rest)) {
+      stemmed = rest
+      break
+    }
+  }
+
+  // "runn" -> "run", "hope" -> "hop" so the stem matches with or without the suffix
+  if (/([^aeiouslz])\1$/.test(stemmed)) stemmed = stemmed.slice(0, -1)
+  if (stemmed.length > 3 && stemmed.endsWith("e")) stemmed = stemmed.slice(0, -1)
+  return stemmed
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/'/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word !== "" && !STOP_WORDS.has(word))
+    .map(stem)
+}
+
+export class Bm25Index {
+  private postings: Map<string, Map<string, number>> = new Map()
+  private lengths: Map<string, number> = new Map()
+  private totalLength = 0
+
+  public get size(): number {
+    return this.lengths.size
+  }
+
+  public add(id: string, text: string): void {
+    if (this.lengths.has(id)) this.remove(id)
+
+    const terms = tokenize(text)
+    terms.forEach((term) => {
+      const documents = this.postings.get(term) ?? new Map<string, number>()
+      documents.set(id, (documents.get(id) ?? 0) + 1)
+      this.postings.set(term, documents)
+    })
+    this.lengths.set(id, terms.length)
+    this.totalLength += terms.length
+  }
+
+  public remove(id: string): void {
+    const length = this.lengths.get(id)
+    if (length === undefined) return
+
+    for (const [term, documents] of this.postings) {
+      if (documents.delete(id) && documents.size === 0) this.postings.delete(term)
+    }
+    this.lengths.delete(id)
+    this.totalLength -= length
+  }
+
+  public search(query: string): Bm25Match[] {
+    const count = this.lengths.size
+    if (count === 0) return []
+
+    const averageLength = this.totalLength / count || 1
+    const scores = new Map<string, number>()
+
+    new Set(tokenize(query)).forEach((term) => {
+      const documents = this.postings.get(term)
+      if (!documents) return
+
+      const idf = Math.log(1 + (count - documents.size + 0.5) / (documents.size + 0.5))
+      for (const [id, frequency] of documents) {
+        const norm = 1 - B + (B * (this.lengths.get(id) ?? 0)) / averageLength
+        const score = (idf * frequency * (K1 + 1)) / (frequency + K1 * norm)
+        scores.set(id, (scores.get(id) ?? 0) + score)
+      }
+    })
+
+    return Array.from(scores, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score)
+  }
+
+  public serialize(): SerializedBm25Index {
+    return {
+      postings: Array.from(this.postings, ([term, documents]) => [term, Array.from(documents.entries())]),
+      lengths: Array.from(this.lengths.entries()),
+    }
+  }
+
+  // Returns false when the stored data isn't a usable index, so the caller can rebuild it
+  public load(data: unknown): boolean {
+    if (!data || typeof data !== "object") return false
+    const stored = data as Partial<SerializedBm25Index>
+    if (!Array.isArray(stored.postings) || !Array.isArray(stored.lengths)) return false
+
+    this.postings = new Map(stored.postings.map(([term, documents]) => [term, new Map(documents)]))
+    this.lengths = new Map(stored.lengths)
+    this.totalLength = stored.lengths.reduce((sum, [, length]) => sum + length, 0)
+    return true
+  }
+
+  public clear(): void {
+    this.postings = new Map()
+    this.lengths = new Map()
+    this.totalLength = 0
+  }
+}
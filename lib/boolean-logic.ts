@@ -0,0 +1,455 @@
+export type LogicOperator = "and" | "or" | "xor" | "nand" | "nor" | "implies" | "iff"
+
+export type LogicNode =
+  | { type: "variable"; name: string }
+  | { type: "constant"; value: boolean }
+  | { type: "not"; operand: LogicNode }
+  | { type: "binary"; operator: LogicOperator; left: LogicNode; right: LogicNode }
+
+export interface TruthTable {
+  variables: string[]
+  // One entry per row, inputs in the same order as variables; rows count up from all false
+  inputs: boolean[][]
+  results: boolean[]
+}
+
+export type LogicQuery =
+  | { type: "truth-table"; expression: LogicNode }
+  | { type: "simplify"; expression: LogicNode; form: "dnf" | "cnf" | "both" }
+  | { type: "equivalence"; left: LogicNode; right: LogicNode }
+  | { type: "classify"; expression: LogicNode; property: "tautology" | "contradiction" | "satisfiable" }
+
+export class LogicError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "LogicError"
+  }
+}
+
+const MAX_VARIABLES = 8
+
+// Loosest binding first; implies is right-associative
+const PRECEDENCE: Record<LogicOperator, number> = { iff: 1, implies: 2, or: 3, nor: 3, xor: 4, and: 5, nand: 5 }
+
+const OPERATOR_WORDS: Record<string, LogicOperator | "not"> = {
+  and: "and",
+  "&&": "and",
+  "&": "and",
+  "∧": "and",
+  or: "or",
+  "||": "or",
+  "|": "or",
+  "∨": "or",
+  xor: "xor",
+  "⊕": "xor",
+  nand: "nand",
+  nor: "nor",
+  implies: "implies",
+  then: "implies",
+  "->": "implies",
+  "=>": "implies",
+  "→": "implies",
+  iff: "iff",
+  "<->": "iff",
+  "<=>": "iff",
+  "↔": "iff",
+  not: "not",
+  "!": "not",
+  "~": "not",
+  "¬": "not",
+}
+
+const CONSTANTS: Record<string, boolean> = { true: true, false: false, "1": true, "0": false, "⊤": true, "⊥": false }
+
+type Token = { kind: "operator"; value: LogicOperator | "not" } | { kind: "name"; value: string } | { kind: "paren"; value: "(" | ")" }
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  // "if and only if" is one operator, and "if A then B" reads as "A implies B"
+  const source = text.replace(/\bif\s+and\s+only\s+if\b/gi, " iff ").replace(/^\s*if\s+/i, "")
+  const pattern = /\s*(<->|<=>|->|=>|&&|\|\||[&|!~¬∧∨⊕→↔⊤⊥()]|[A-Za-z_][A-Za-z0-9_']*|[01](?![\d.]))/y
+
+  let index = 0
+  while (index < source.length) {
+    pattern.lastIndex = index
+    const match = pattern.exec(source)
+    if (!match) {
+      if (source.slice(index).trim() === "") break
+      throw new LogicError(`I don't understand '${source.slice(index).trim().split(/\s+/)[0]}' in a logic expression`)
+    }
+    index = pattern.lastIndex
+
+    const word = match[1]
+    const lower = word.toLowerCase()
+    if (word === "(" || word === ")") {
+      tokens.push({ kind: "paren", value: word })
+    } else if (Object.prototype.hasOwnProperty.call(OPERATOR_WORDS, lower)) {
+      tokens.push({ kind: "operator", value: OPERATOR_WORDS[lower] })
+    } else {
+      tokens.push({ kind: "name", value: word })
+    }
+  }
+  return tokens
+}
+
+// Recursive descent over the precedence table above
+class LogicParser {
+  private position = 0
+
+  constructor(private tokens: Token[]) {}
+
+  public parse(): LogicNode {
+    if (this.tokens.length === 0) {
+      throw new LogicError("The logic expression is empty")
+    }
+    const node = this.parseBinary(1)
+    if (this.position < this.tokens.length) {
+      throw new LogicError(`Unexpected '${this.tokens[this.position].value}' in the logic expression`)
+    }
+    return node
+  }
+
+  private parseBinary(minimum: number): LogicNode {
+    let left = this.parseUnary()
+    for (;;) {
+      const token = this.tokens[this.position]
+      if (!token || token.kind !== "operator" || token.value === "not") return left
+      const precedence = PRECEDENCE[token.value]
+      if (precedence < minimum) return left
+      this.position++
+      const right = this.parseBinary(token.value === "implies" ? precedence : precedence + 1)
+      left = { type: "binary", operator: token.value, left, right }
+    }
+  }
+
+  private parseUnary(): LogicNode {
+    const token = this.tokens[this.position]
+    if (!token) {
+      throw new LogicError("The logic expression ends too early")
+    }
+    this.position++
+
+    if (token.kind === "operator" && token.value === "not") {
+      return { type: "not", operand: this.parseUnary() }
+    }
+    if (token.kind === "paren" && token.value === "(") {
+      const inner = this.parseBinary(1)
+      const closing = this.tokens[this.position]
+      if (!closing || closing.kind !== "paren" || closing.value !== ")") {
+        throw new LogicError("A '(' is missing its closing ')'")
+      }
+      this.position++
+      return inner
+    }
+    if (token.kind === "name") {
+      const lower = token.value.toLowerCase()
+      const node: LogicNode = Object.prototype.hasOwnProperty.call(CONSTANTS, lower)
+        ? { type: "constant", value: CONSTANTS[lower] }
+        : { type: "variable", name: token.value.replace(/'+$/, "") }
+      // A trailing prime is negation: A' = not A
+      return token.value.endsWith("'") ? { type: "not", operand: node } : node
+    }
+    throw new LogicError(`Unexpected '${token.value}' in the logic expression`)
+  }
+}
+
+export function parseLogicExpression(text: string): LogicNode {
+  return new LogicParser(tokenize(text)).parse()
+}
+
+// Variables in alphabetical order, the usual column order for a truth table
+export function logicVariables(node: LogicNode): string[] {
+  const names = new Set<string>()
+  const visit = (current: LogicNode): void => {
+    if (current.type === "variable") names.add(current.name)
+    if (current.type === "not") visit(current.operand)
+    if (current.type === "binary") {
+      visit(current.left)
+      visit(current.right)
+    }
+  }
+  visit(node)
+  return Array.from(names).sort((a, b) => a.localeCompare(b))
+}
+
+export function evaluateLogic(node: LogicNode, values: Map<string, boolean>): boolean {
+  switch (node.type) {
+    case "variable": {
+      const value = values.get(node.name)
+      if (value === undefined) throw new LogicError(`No value for '${node.name}'`)
+      return value
+    }
+    case "constant":
+      return node.value
+    case "not":
+      return !evaluateLogic(node.operand, values)
+    case "binary": {
+      const left = evaluateLogic(node.left, values)
+      const right = evaluateLogic(node.right, values)
+      switch (node.operator) {
+        case "and":
+          return left && right
+        case "or":
+          return left || right
+        case "xor":
+          return left !== right
+        case "nand":
+          return !(left && right)
+        case "nor":
+          return !(left || right)
+        case "implies":
+          return !left || right
+        case "iff":
+          return left === right
+      }
+    }
+  }
+}
+
+export function truthTable(node: LogicNode, variables: string[] = logicVariables(node)): TruthTable {
+  if (variables.length > MAX_VARIABLES) {
+    throw new LogicError(`I can tabulate up to ${MAX_VARIABLES} variables, this has ${variables.length}`)
+  }
+
+  const inputs: boolean[][] = []
+  const results: boolean[] = []
+  for (let row = 0; row < 1 << variables.length; row++) {
+    // The first variable is the most significant bit, so rows count up in binary
+    const values = variables.map((_, i) => ((row >> (variables.length - 1 - i)) & 1) === 1)
+    inputs.push(values)
+    results.push(evaluateLogic(node, new Map(variables.map((name, i) => [name, values[i]]))))
+  }
+  return { variables, inputs, results }
+}
+
+// An implicant fixes the bits outside `free`; e.g. bits 100, free 001 covers rows 4 and 5
+interface Implicant {
+  bits: number
+  free: number
+}
+
+// Quine-McCluskey: merge implicants that differ in one bit until nothing merges
+function primeImplicants(rows: number[]): Implicant[] {
+  let current: Implicant[] = rows.map((bits) => ({ bits, free: 0 }))
+  const primes: Implicant[] = []
+
+  while (current.length > 0) {
+    const merged = new Map<string, Implicant>()
+    const used = new Set<number>()
+    for (let i = 0; i < current.length; i++) {
+      for (let j = i + 1; j < current.length; j++) {
+        const a = current[i]
+        const b = current[j]
+        const difference = a.bits ^ b.bits
+        if (a.free === b.free && difference !== 0 && (difference & (difference - 1)) === 0) {
+          const implicant = { bits: a.bits & ~difference, free: a.free | difference }
+          merged.set(`${implicant.bits}/${implicant.free}`, implicant)
+          used.add(i)
+          used.add(j)
+        }
+      }
+    }
+    current.forEach((implicant, i) => {
+      if (!used.has(i)) primes.push(implicant)
+    })
+    current = Array.from(merged.values())
+  }
+  return primes
+}
+
+function covers(implicant: Implicant, row: number): boolean {
+  return (row & ~implicant.free) === implicant.bits
+}
+
+function literalCount(implicant: Implicant, width: number): number {
+  let count = 0
+  for (let bit = 0; bit < width; bit++) {
+    if (!(implicant.free & (1 << bit))) count++
+  }
+  return count
+}
+
+// Fewest implicants covering every row, then fewest literals; exhaustive since tables are small
+function minimumCover(rows: number[], primes: Implicant[], width: number): Implicant[] {
+  const essential = primes.filter((prime) =>
+    rows.some((row) => covers(prime, row) && primes.filter((other) => covers(other, row)).length === 1),
+  )
+  const remaining = rows.filter((row) => !essential.some((prime) => covers(prime, row)))
+  const optional = primes.filter((prime) => !essential.includes(prime))
+  if (remaining.length === 0) return essential
+
+  let best: Implicant[] | null = null
+  const cost = (set: Implicant[]) => set.reduce((total, implicant) => total + literalCount(implicant, width), 0)
+  const search = (start: number, chosen: Implicant[]): void => {
+    if (best && chosen.length > best.length) return
+    if (remaining.every((row) => chosen.some((implicant) => covers(implicant, row)))) {
+      if (!best || chosen.length < best.length || cost(chosen) < cost(best)) best = [...chosen]
+      return
+    }
+    for (let i = start; i < optional.length; i++) {
+      search(i + 1, [...chosen, optional[i]])
+    }
+  }
+
+  if (optional.length <= 16) {
+    search(0, [])
+  } else {
+    // Too many to try every subset: take whichever covers the most uncovered rows each time
+    const chosen: Implicant[] = []
+    let uncovered = remaining
+    while (uncovered.length > 0) {
+      const next = optional.reduce((a, b) =>
+        uncovered.filter((row) => covers(b, row)).length > uncovered.filter((row) => covers(a, row)).length ? b : a,
+      )
+      chosen.push(next)
+      uncovered = uncovered.filter((row) => !covers(next, row))
+    }
+    best = chosen
+  }
+  return [...essential, ...(best ?? [])]
+}
+
+// Each implicant becomes one term of a sum of products (or, negated, one clause of a product of sums)
+function implicantToNode(implicant: Implicant, variables: string[], negate: boolean): LogicNode {
+  const literals: LogicNode[] = []
+  variables.forEach((name, i) => {
+    const bit = 1 << (variables.length - 1 - i)
+    if (implicant.free & bit) return
+    const positive = (implicant.bits & bit) !== 0
+    const variable: LogicNode = { type: "variable", name }
+    literals.push(positive !== negate ? variable : { type: "not", operand: variable })
+  })
+  const operator = negate ? "or" : "and"
+  return literals.reduce((left, right) => ({ type: "binary", operator, left, right }))
+}
+
+// Orders terms by their variables, so "not A" sits with "A"
+function sortKey(node: LogicNode): string {
+  return formatLogic(node).replace(/\bnot /g, "")
+}
+
+function minimalForm(table: TruthTable, form: "dnf" | "cnf"): LogicNode {
+  // CNF is the DNF of the negation, turned inside out by De Morgan
+  const wanted = form === "dnf"
+  const rows = table.results.flatMap((result, row) => (result === wanted ? [row] : []))
+  if (rows.length === 0) return { type: "constant", value: !wanted }
+  if (rows.length === table.results.length) return { type: "constant", value: wanted }
+
+  const width = table.variables.length
+  // Shortest terms first, then alphabetically: "A or (B and C)"
+  const terms = minimumCover(rows, primeImplicants(rows), width)
+    .map((implicant) => ({
+      size: literalCount(implicant, width),
+      node: implicantToNode(implicant, table.variables, !wanted),
+    }))
+    .sort((a, b) => a.size - b.size || sortKey(a.node).localeCompare(sortKey(b.node)))
+  const operator = wanted ? "or" : "and"
+  return terms.map((term) => term.node).reduce((left, right) => ({ type: "binary", operator, left, right }))
+}
+
+export function minimalDnf(node: LogicNode): LogicNode {
+  return minimalForm(truthTable(node), "dnf")
+}
+
+export function minimalCnf(node: LogicNode): LogicNode {
+  return minimalForm(truthTable(node), "cnf")
+}
+
+// Same output for every assignment of the variables either side uses
+export function logicEquivalent(left: LogicNode, right: LogicNode): { equivalent: boolean; table: TruthTable; other: boolean[] } {
+  const variables = Array.from(new Set([...logicVariables(left), ...logicVariables(right)])).sort((a, b) =>
+    a.localeCompare(b),
+  )
+  const table = truthTable(left, variables)
+  const other = truthTable(right, variables).results
+  return { equivalent: table.results.every((result, i) => result === other[i]), table, other }
+}
+
+// Word operators; mixed operators always get brackets, since "A and B or C" is easy to misread
+export function formatLogic(node: LogicNode, parent?: LogicOperator): string {
+  switch (node.type) {
+    case "variable":
+      return node.name
+    case "constant":
+      return node.value ? "true" : "false"
+    case "not":
+      return node.operand.type === "binary" ? `not (${formatLogic(node.operand)})` : `not ${formatLogic(node.operand)}`
+    case "binary": {
+      const text = `${formatLogic(node.left, node.operator)} ${node.operator} ${formatLogic(node.right, node.operator)}`
+      const associative = node.operator === "and" || node.operator === "or" || node.operator === "xor"
+      return parent && (parent !== node.operator || !associative) ? `(${text})` : text
+    }
+  }
+}
+
+const LOGIC_WORDS = /\b(?:and|or|not|xor|nand|nor|implies|iff)\b|&&|\|\||[¬∧∨⊕→↔]|<->|->|=>/i
+
+// Parses the expression part of a query; null when it doesn't look like logic at all
+function tryParse(text: string, required: boolean): LogicNode | null {
+  const expression = text.trim().replace(/^(?:the\s+)?(?:expression|formula|statement)\s+/i, "")
+  try {
+    return parseLogicExpression(expression)
+  } catch (error) {
+    if (error instanceof LogicError && !required) return null
+    throw error
+  }
+}
+
+// "truth table for (A and B) or not C", "simplify A and (A or B)", "is A -> B equivalent to not A or B"
+export function parseLogicQuery(message: string): LogicQuery | null {
+  const text = message.trim().replace(/\s*[?.!]+$/, "")
+
+  const table = text.match(/^(?:(?:make|show|give me|draw|build|write)\s+(?:me\s+)?(?:a|the)\s+)?truth\s+table\s*(?:for|of|:)?\s+(.+)$/i)
+  if (table) {
+    return { type: "truth-table", expression: tryParse(table[1], true)! }
+  }
+
+  const equivalence =
+    text.match(/^(?:is|are)\s+(.+?)\s+(?:logically\s+)?(?:equivalent|equal)\s+to\s+(.+)$/i) ??
+    text.match(/^(?:check\s+(?:if|whether)\s+)?(.+?)\s+(?:is\s+)?(?:logically\s+)?(?:equivalent\s+to|≡)\s+(.+)$/i)
+  if (equivalence && LOGIC_WORDS.test(`${equivalence[1]} ${equivalence[2]}`)) {
+    const left = tryParse(equivalence[1], false)
+    const right = tryParse(equivalence[2], false)
+    if (left && right) return { type: "equivalence", left, right }
+  }
+
+  // "are A and B and (not A) equivalent" can split on several "and"s; take the first split that parses
+  const pair = text.match(/^are\s+(.+)\s+(?:logically\s+)?equivalent$/i)
+  if (pair) {
+    const words = pair[1].split(/\s+and\s+/i)
+    const splits: { left: LogicNode; right: LogicNode }[] = []
+    for (let i = 1; i < words.length; i++) {
+      const left = tryParse(words.slice(0, i).join(" and "), false)
+      const right = tryParse(words.slice(i).join(" and "), false)
+      if (left && right) splits.push({ left, right })
+    }
+    // Prefer a split where both sides mention the same variables
+    const same = (split: { left: LogicNode; right: LogicNode }) =>
+      logicVariables(split.left).join() === logicVariables(split.right).join()
+    const split = splits.find(same) ?? splits[0]
+    if (split) return { type: "equivalence", ...split }
+  }
+
+  const classify = text.match(/^is\s+(.+?)\s+(?:a\s+)?(tautology|contradiction|satisfiable|always true|always false)$/i)
+  if (classify && LOGIC_WORDS.test(classify[1])) {
+    const expression = tryParse(classify[1], false)
+    const word = classify[2].toLowerCase()
+    const property = word === "always true" ? "tautology" : word === "always false" ? "contradiction" : word
+    if (expression) return { type: "classify", expression, property: property as "tautology" | "contradiction" | "satisfiable" }
+  }
+
+  const simplify = text.match(/^(?:simplify|minimi[sz]e|reduce)\s+(.+?)(?:\s+(?:to|into|in)\s+(?:minimal\s+)?(dnf|cnf))?$/i)
+  const formOf = text.match(/^(?:(?:the|minimal)\s+)*(dnf|cnf)\s+(?:of|for)\s+(.+)$/i)
+  const convert =
+    text.match(/^(?:convert\s+)?(.+?)\s+(?:to|into|in)\s+(?:minimal\s+)?(dnf|cnf)$/i) ??
+    (formOf && [formOf[0], formOf[2], formOf[1]])
+  const normal = simplify ?? convert
+  if (normal && (normal[2] || LOGIC_WORDS.test(normal[1]))) {
+    // Naming DNF or CNF makes it clearly a logic question, so report parse problems
+    const expression = tryParse(normal[1], normal[2] !== undefined)
+    const form = normal[2] ? (normal[2].toLowerCase() as "dnf" | "cnf") : "both"
+    if (expression) return { type: "simplify", expression, form }
+  }
+
+  return null
+}
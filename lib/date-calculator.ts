@@ -0,0 +1,590 @@
+import {
+  addBusinessDays,
+  addDays,
+  addHours,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInBusinessDays,
+  differenceInCalendarDays,
+  differenceInHours,
+  differenceInMonths,
+  differenceInYears,
+  format,
+  isValid,
+  nextDay,
+  parse,
+  previousDay,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  type Day,
+} from "date-fns"
+
+export type DateUnit = "days" | "weeks" | "months" | "years" | "business days" | "hours" | "minutes"
+
+export interface ClockTime {
+  hours: number
+  minutes: number
+}
+
+export type DateQuery =
+  // "what day of the week is 2027-03-14", "what's the date in 90 days", "add 90 days to today"
+  | { type: "date"; date: Date; expression: string }
+  // "how many days until December 25", "weeks since March 1", "days between 2024-01-01 and 2024-06-30"
+  | { type: "difference"; from: Date; to: Date; unit: DateUnit; fromText: string; toText: string }
+  // "what time is it in Asia/Tokyo"
+  | { type: "current-time"; timeZone: string | null }
+  // "convert 3pm America/New_York to Europe/Paris"
+  | { type: "convert-time"; time: ClockTime; date: Date; from: string; to: string }
+  // "time difference between Europe/London and Asia/Tokyo"
+  | { type: "zone-difference"; from: string; to: string }
+
+export interface DateDifference {
+  days: number
+  weeks: number
+  months: number
+  years: number
+  hours: number
+  businessDays: number
+  // Whole months then leftover days, e.g. 2 months and 6 days
+  monthsAndDays: [number, number]
+}
+
+// A span of past time a question refers to: "yesterday", "last week", "in the past 3 days"
+export interface TimeWindow {
+  start: Date
+  end: Date
+  // How the window reads in a sentence
+  label: string
+}
+
+export class DateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "DateError"
+  }
+}
+
+// Which way a date without a year points: "until December 25" means the next one
+type Direction = "future" | "past" | "nearest"
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+const MONTH_PATTERN =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?"
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+
+const SMALL_NUMBERS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+}
+const AMOUNT = "(\\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)"
+const SHIFT_UNIT = "(days?|weeks?|fortnights?|months?|years?|(?:business|working)\\s+days?|weekdays?)"
+
+// Fixed-date holidays, as [month index, day]
+const HOLIDAYS: Record<string, [number, number]> = {
+  "new year's day": [0, 1],
+  "new years day": [0, 1],
+  "new year": [0, 1],
+  "new year's": [0, 1],
+  "valentine's day": [1, 14],
+  "valentines day": [1, 14],
+  halloween: [9, 31],
+  "christmas eve": [11, 24],
+  christmas: [11, 25],
+  "christmas day": [11, 25],
+  xmas: [11, 25],
+  "boxing day": [11, 26],
+  "new year's eve": [11, 31],
+  "new years eve": [11, 31],
+}
+
+function parseAmount(text: string): number {
+  const lower = text.toLowerCase()
+  return SMALL_NUMBERS[lower] ?? Number.parseInt(lower, 10)
+}
+
+function normalizeUnit(text: string): DateUnit | "fortnights" {
+  const lower = text.toLowerCase().replace(/\s+/g, " ")
+  if (/^(?:business|working) days?$|^weekdays?$/.test(lower)) return "business days"
+  if (lower.startsWith("fortnight")) return "fortnights"
+  if (lower.startsWith("day")) return "days"
+  if (lower.startsWith("week")) return "weeks"
+  if (lower.startsWith("month")) return "months"
+  if (lower.startsWith("year")) return "years"
+  if (lower.startsWith("hour")) return "hours"
+  return "minutes"
+}
+
+export function shiftDate(date: Date, amount: number, unit: DateUnit | "fortnights"): Date {
+  switch (unit) {
+    case "days":
+      return addDays(date, amount)
+    case "weeks":
+      return addWeeks(date, amount)
+    case "fortnights":
+      return addWeeks(date, amount * 2)
+    case "months":
+      return addMonths(date, amount)
+    case "years":
+      return addYears(date, amount)
+    case "business days":
+      return addBusinessDays(date, amount)
+    default:
+      throw new DateError(`I can only add days, weeks, months or years to a date, not ${unit}`)
+  }
+}
+
+// Builds a calendar date, rejecting ones that don't exist such as February 30
+function calendarDate(year: number, month: number, day: number): Date {
+  const date = new Date(year, month, day)
+  if (date.getMonth() !== month || date.getDate() !== day) {
+    throw new DateError(`${format(new Date(2000, month, 1), "MMMM")} ${day}, ${year} isn't a real date`)
+  }
+  date.setFullYear(year)
+  return date
+}
+
+// Picks the year for a date typed without one, relative to today
+function withinYear(month: number, day: number, today: Date, direction: Direction): Date {
+  const thisYear = calendarDate(today.getFullYear(), month, day)
+  if (direction === "future" && thisYear < today) return calendarDate(today.getFullYear() + 1, month, day)
+  if (direction === "past" && thisYear > today) return calendarDate(today.getFullYear() - 1, month, day)
+  return thisYear
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.toLowerCase().slice(0, 3))
+}
+
+// Reads absolute and relative dates: "2027-03-14", "March 14", "next friday", "christmas", "90 days from today"
+export function parseDateExpression(text: string, now: Date, direction: Direction = "nearest"): Date | null {
+  const today = startOfDay(now)
+  const t = text
+    .trim()
+    .toLowerCase()
+    .replace(/^(?:the|on)\s+/, "")
+    .replace(/(\d)(?:st|nd|rd|th)\b/g, "$1")
+    .replace(/,/g, " ")
+    .replace(/\s+/g, " ")
+  if (t === "") return null
+
+  if (t === "now" || t === "right now") return now
+  if (t === "today") return today
+  if (t === "tomorrow") return addDays(today, 1)
+  if (t === "yesterday") return addDays(today, -1)
+  if (t === "day after tomorrow") return addDays(today, 2)
+  if (t === "day before yesterday") return addDays(today, -2)
+
+  // Shifts: "in 3 weeks", "10 days ago", "90 days from today", "2 months before christmas", "today plus 5 days"
+  let match = t.match(new RegExp(`^in ${AMOUNT} ${SHIFT_UNIT}(?: time)?$`))
+  if (match) return shiftDate(today, parseAmount(match[1]), normalizeUnit(match[2]))
+
+  match = t.match(new RegExp(`^${AMOUNT} ${SHIFT_UNIT} (ago|from now|later|hence)$`))
+  if (match) return shiftDate(today, parseAmount(match[1]) * (match[3] === "ago" ? -1 : 1), normalizeUnit(match[2]))
+
+  match = t.match(new RegExp(`^${AMOUNT} ${SHIFT_UNIT} (after|from|before|prior to) (.+)$`))
+  if (match) {
+    const base = parseDateExpression(match[4], now, direction)
+    const sign = /before|prior/.test(match[3]) ? -1 : 1
+    return base && shiftDate(base, parseAmount(match[1]) * sign, normalizeUnit(match[2]))
+  }
+
+  match = t.match(new RegExp(`^(.+?) (plus|\\+|minus|-) ${AMOUNT} ${SHIFT_UNIT}$`))
+  if (match) {
+    const base = parseDateExpression(match[1], now, direction)
+    const sign = match[2] === "minus" || match[2] === "-" ? -1 : 1
+    return base && shiftDate(base, parseAmount(match[3]) * sign, normalizeUnit(match[4]))
+  }
+
+  // Weekdays: "friday" and "this friday" are the coming one (today counts), "next"/"last" skip today
+  match = t.match(new RegExp(`^(?:(next|last|this|coming|this coming|previous) )?(${WEEKDAYS.join("|")})$`))
+  if (match) {
+    const day = WEEKDAYS.indexOf(match[2]) as Day
+    if (match[1] === "last" || match[1] === "previous") return previousDay(today, day)
+    if (match[1] === "next") return nextDay(today, day)
+    return today.getDay() === day ? today : nextDay(today, day)
+  }
+
+  match = t.match(/^(next|last|previous|this) (week|month|year)$/)
+  if (match) {
+    const step = match[1] === "this" ? 0 : match[1] === "next" ? 1 : -1
+    return shiftDate(today, step, normalizeUnit(match[2]))
+  }
+
+  // Holidays, optionally with a year: "christmas", "halloween 2030"
+  const [, name, year] = t.match(/^(.+?)(?: (\d{4}))?$/)!
+  if (Object.prototype.hasOwnProperty.call(HOLIDAYS, name)) {
+    const holiday = HOLIDAYS[name]
+    return year ? calendarDate(Number(year), holiday[0], holiday[1]) : withinYear(holiday[0], holiday[1], today, direction)
+  }
+
+  // Numeric dates: ISO first, then US month/day order (day/month when the first number can't be a month)
+  for (const pattern of ["yyyy-MM-dd", "yyyy/MM/dd", "yyyy.MM.dd", "M/d/yyyy", "d/M/yyyy", "M-d-yyyy", "d.M.yyyy"]) {
+    const parsed = parse(t, pattern, today)
+    if (isValid(parsed) && parsed.getFullYear() >= 1000) return parsed
+  }
+  if (/^\d{4}[-/.]\d{1,2}[-/.]\d{1,2}$|^\d{1,2}[/.-]\d{1,2}[/.-]\d{4}$/.test(t)) {
+    throw new DateError(`${text.trim()} isn't a real date`)
+  }
+
+  match = t.match(/^(\d{1,2})\/(\d{1,2})$/)
+  if (match) {
+    const [first, second] = [Number(match[1]), Number(match[2])]
+    return first > 12 ? withinYear(second - 1, first, today, direction) : withinYear(first - 1, second, today, direction)
+  }
+
+  // Month names: "March 14 2027", "14 March", "14 of March 2027", "March 2027"
+  match =
+    t.match(new RegExp(`^${MONTH_PATTERN} (\\d{1,2})(?: (\\d{4}))?$`)) ??
+    t.match(new RegExp(`^(\\d{1,2}) (?:of )?${MONTH_PATTERN}(?: (\\d{4}))?$`))
+  if (match) {
+    const [monthName, day] = /^\d/.test(match[1]) ? [match[2], match[1]] : [match[1], match[2]]
+    const month = monthIndex(monthName)
+    return match[3]
+      ? calendarDate(Number(match[3]), month, Number(day))
+      : withinYear(month, Number(day), today, direction)
+  }
+
+  match = t.match(new RegExp(`^${MONTH_PATTERN} (\\d{4})$`))
+  if (match) return calendarDate(Number(match[2]), monthIndex(match[1]), 1)
+
+  return null
+}
+
+// Hours after midnight each part of the day covers; night runs into the next morning
+const PARTS_OF_DAY: Record<string, [number, number]> = {
+  morning: [5, 12],
+  afternoon: [12, 17],
+  evening: [17, 22],
+  night: [18, 30],
+}
+
+function startOfPeriod(date: Date, period: string): Date {
+  if (period === "week") return startOfWeek(date)
+  if (period === "month") return startOfMonth(date)
+  return startOfYear(date)
+}
+
+// Reads a phrase about the past as the window of time it covers, or null if it isn't one
+export function parseTimeWindow(text: string, now: Date): TimeWindow | null {
+  const today = startOfDay(now)
+  const t = text
+    .trim()
+    .toLowerCase()
+    .replace(/[?.!,]+$/, "")
+    .replace(/\s+/g, " ")
+  const wholeDay = (date: Date, label: string): TimeWindow => ({ start: date, end: addDays(date, 1), label })
+
+  if (/^(?:today|earlier today|so far today)$/.test(t)) return { start: today, end: now, label: "today" }
+  if (t === "yesterday") return wholeDay(addDays(today, -1), "yesterday")
+  if (t === "day before yesterday") return wholeDay(addDays(today, -2), "the day before yesterday")
+  if (t === "recently" || t === "lately") return { start: addDays(today, -7), end: now, label: "recently" }
+
+  let match = t.match(/^(this|yesterday|last) (morning|afternoon|evening|night)$/)
+  if (match) {
+    const base = match[1] === "this" ? today : addDays(today, -1)
+    const [from, to] = PARTS_OF_DAY[match[2]]
+    return { start: addHours(base, from), end: addHours(base, to), label: t }
+  }
+
+  match = t.match(/^(this|last|previous) (week|month|year)$/)
+  if (match) {
+    const current = startOfPeriod(today, match[2])
+    if (match[1] === "this") return { start: current, end: now, label: t }
+    const previous = startOfPeriod(shiftDate(today, -1, normalizeUnit(match[2])), match[2])
+    return { start: previous, end: current, label: `last ${match[2]}` }
+  }
+
+  match = t.match(new RegExp(`^(?:(?:in|over|during|within) )?the (?:last|past) (?:${AMOUNT} )?(hours?|days?|weeks?|months?)$`))
+  if (match) {
+    const amount = match[1] ? parseAmount(match[1]) : 1
+    const unit = normalizeUnit(match[2])
+    const start = unit === "hours" ? addHours(now, -amount) : shiftDate(now, -amount, unit)
+    return { start, end: now, label: `in the last ${amount === 1 ? unit.slice(0, -1) : `${amount} ${unit}`}` }
+  }
+
+  match = t.match(new RegExp(`^(a few|a couple of|${AMOUNT}) (hours?|days?|weeks?) ago$`))
+  if (match) {
+    const unit = normalizeUnit(match[3])
+    // "a few days ago" is fuzzy, so it covers two to five of them
+    const [from, to] = /^a (?:few|couple)/.test(match[1]) ? [5, 1] : [parseAmount(match[1]), parseAmount(match[1])]
+    if (unit === "hours") return { start: addHours(now, -from - 1), end: addHours(now, -Math.max(0, to - 1)), label: t }
+    if (unit === "weeks" && from === to) {
+      const week = startOfWeek(shiftDate(today, -from, unit))
+      return { start: week, end: addDays(week, 7), label: t }
+    }
+    const end = shiftDate(today, 1 - to, unit === "weeks" ? unit : "days")
+    return { start: shiftDate(today, -from, unit), end, label: t }
+  }
+
+  // A weekday means the latest one, counting today
+  match = t.match(new RegExp(`^(?:on |last |this past )?(${WEEKDAYS.join("|")})$`))
+  if (match) {
+    const day = WEEKDAYS.indexOf(match[1]) as Day
+    const date = today.getDay() === day && !t.startsWith("last") ? today : previousDay(today, day)
+    return wholeDay(date, `on ${format(date, "EEEE")}`)
+  }
+
+  try {
+    const date = parseDateExpression(t.replace(/^on /, ""), now, "past")
+    if (date && date <= now) return wholeDay(startOfDay(date), `on ${format(date, "MMMM d, yyyy")}`)
+  } catch (error) {
+    if (!(error instanceof DateError)) throw error
+  }
+  return null
+}
+
+export function dateDifference(from: Date, to: Date): DateDifference {
+  const days = differenceInCalendarDays(to, from)
+  const months = differenceInMonths(startOfDay(to), startOfDay(from))
+  return {
+    days,
+    weeks: days / 7,
+    months,
+    years: differenceInYears(startOfDay(to), startOfDay(from)),
+    hours: differenceInHours(to, from),
+    businessDays: differenceInBusinessDays(startOfDay(to), startOfDay(from)),
+    monthsAndDays: [months, differenceInCalendarDays(to, addMonths(startOfDay(from), months))],
+  }
+}
+
+// Accepts IANA names in any case ("asia/tokyo"), plus bare city names ("tokyo", "new york")
+export function resolveTimeZone(name: string): string | null {
+  const candidate = name.trim().replace(/\s+/g, "_")
+  if (!/^[a-z][\w+\-/]*$/i.test(candidate)) return null
+  // Intl.supportedValuesOf is newer than the bundled lib typings
+  const { supportedValuesOf } = Intl as { supportedValuesOf?: (key: "timeZone") => string[] }
+  const zones = supportedValuesOf ? supportedValuesOf("timeZone") : []
+  const lower = candidate.toLowerCase()
+  const listed =
+    zones.find((zone) => zone.toLowerCase() === lower) ??
+    zones.find((zone) => zone.split("/").pop()!.toLowerCase() === lower)
+  if (listed) return listed
+
+  // Links and aliases such as "UTC" or "US/Eastern" aren't listed but Intl still accepts them
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: candidate }).resolvedOptions().timeZone
+  } catch {
+    return null
+  }
+}
+
+// Wall-clock fields of an instant as seen in a time zone
+function zonedParts(instant: Date, timeZone: string): Record<string, number> {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  })
+  const parts: Record<string, number> = {}
+  formatter.formatToParts(instant).forEach((part) => {
+    if (part.type !== "literal") parts[part.type] = Number(part.value)
+  })
+  return parts
+}
+
+// Minutes ahead of UTC in a time zone at the given instant (daylight saving included)
+export function timeZoneOffset(timeZone: string, instant: Date): number {
+  const parts = zonedParts(instant, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000)
+}
+
+// The instant at which a time zone's clock shows the given date and time
+export function zonedTimeToInstant(date: Date, time: ClockTime, timeZone: string): Date {
+  const guess = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), time.hours, time.minutes)
+  const offset = timeZoneOffset(timeZone, new Date(guess))
+  const instant = guess - offset * 60000
+  // Near a daylight saving change the offset at the answer can differ from the first guess
+  const corrected = timeZoneOffset(timeZone, new Date(instant))
+  return new Date(corrected === offset ? instant : guess - corrected * 60000)
+}
+
+// Today's date as seen in a time zone, as a local calendar date
+export function todayInTimeZone(now: Date, timeZone: string): Date {
+  const parts = zonedParts(now, timeZone)
+  return new Date(parts.year, parts.month - 1, parts.day)
+}
+
+export function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+"
+  const hours = Math.floor(Math.abs(minutes) / 60)
+  const rest = Math.abs(minutes) % 60
+  return `UTC${sign}${hours}${rest ? `:${String(rest).padStart(2, "0")}` : ""}`
+}
+
+export function formatZonedTime(instant: Date, timeZone: string | null, withDate = true): string {
+  return new Intl.DateTimeFormat("en-US", {
+    ...(timeZone ? { timeZone } : {}),
+    ...(withDate ? { weekday: "long", month: "long", day: "numeric" } : {}),
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(instant)
+}
+
+function parseClockTime(text: string): ClockTime | null {
+  const lower = text.trim().toLowerCase()
+  if (lower === "noon" || lower === "midday") return { hours: 12, minutes: 0 }
+  if (lower === "midnight") return { hours: 0, minutes: 0 }
+
+  const match = lower.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?$/)
+  if (!match || (!match[2] && !match[3])) return null
+  let hours = Number(match[1])
+  const minutes = match[2] ? Number(match[2]) : 0
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return null
+    hours = (hours % 12) + (match[3].startsWith("p") ? 12 : 0)
+  }
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null
+}
+
+function requireTimeZone(name: string): string {
+  const zone = resolveTimeZone(name)
+  if (!zone) {
+    throw new DateError(`I don't know the time zone '${name.trim()}'. Try an IANA name such as Europe/London`)
+  }
+  return zone
+}
+
+// "in 3 weeks" reads better as "3 weeks from today" at the start of a reply
+function describeExpression(expression: string): string {
+  return expression.replace(/^in\s+(.+)$/i, "$1 from today")
+}
+
+// Reads date questions; returns null when the message isn't about dates or times
+export function parseDateQuery(message: string, now: Date = new Date()): DateQuery | null {
+  const text = message.trim().replace(/\s*[?.!]+$/, "").replace(/\s+/g, " ")
+  const today = startOfDay(now)
+
+  // Current time: "what time is it in Asia/Tokyo", "current time in Europe/London"
+  let match = text.match(
+    /^(?:what(?:'s| is) the (?:current |local )?time|what time is it|(?:the )?(?:current |local )?time)(?: now| right now)?(?: in (.+?))?(?: now| right now)?$/i,
+  )
+  if (match) {
+    if (!match[1] && !/^what/i.test(text)) return null
+    return { type: "current-time", timeZone: match[1] ? requireTimeZone(match[1]) : null }
+  }
+
+  // Time difference between two zones
+  match = text.match(/^(?:what(?:'s| is) the )?time difference between (.+?) and (.+)$/i)
+  if (match) {
+    return { type: "zone-difference", from: requireTimeZone(match[1]), to: requireTimeZone(match[2]) }
+  }
+
+  // Converting a clock time: "convert 3pm America/New_York to Europe/Paris", "9:30 in Asia/Tokyo in Europe/Berlin"
+  match = text.match(
+    /^(?:convert |what(?:'s| is) )?(\d{1,2}(?::\d{2})?\s*(?:am|pm|a\.m\.|p\.m\.)?|noon|midday|midnight)(?: on (.+?))? (?:from |in )?(\S+(?: \S+)?) (?:to|in|into) (\S+(?: \S+)?)(?: time)?$/i,
+  )
+  if (match) {
+    const time = parseClockTime(match[1])
+    const from = resolveTimeZone(match[3])
+    const to = resolveTimeZone(match[4])
+    if (time && (from || to || /\//.test(match[3] + match[4]))) {
+      const fromZone = from ?? requireTimeZone(match[3])
+      const toZone = to ?? requireTimeZone(match[4])
+      const date = match[2] ? parseDateExpression(match[2], now) : todayInTimeZone(now, fromZone)
+      if (!date) throw new DateError(`I couldn't read '${match[2]}' as a date`)
+      return { type: "convert-time", time, date, from: fromZone, to: toZone }
+    }
+  }
+
+  // One date minus another: "2027-03-14 minus 2026-10-19"; bare "10/3 - 1/2" stays a fraction sum
+  match = text.match(/^(.+?) (?:minus|-|−) (.+)$/i)
+  if (match && !match.slice(1).some((side) => /^\d{1,2}\/\d{1,2}$/.test(side.trim()))) {
+    const from = parseDateExpression(match[2], now)
+    const to = from && parseDateExpression(match[1], now)
+    if (from && to) return { type: "difference", from, to, unit: "days", fromText: match[2], toText: match[1] }
+  }
+
+  // Differences: "how many days until december 25", "weeks since 2024-01-01", "how long until christmas"
+  match = text.match(
+    /^(?:(?:how (?:many|much|long)|count(?: the)?|number of)\s*)?(time|minutes?|hours?|days?|weeks?|months?|years?|weekdays|(?:business|working) days)?(?: (?:is it|are there|is there|are left|left|remain|remaining|have passed|has it been|have gone by|has passed|will it be|to go|do i have))* ?(until|till|'?til|before|since|from|between) (.+)$/i,
+  )
+  if (match && (/^(?:how|count|number)/i.test(text) || match[1])) {
+    const unit: DateUnit = !match[1] || /^time$/i.test(match[1]) ? "days" : (normalizeUnit(match[1]) as DateUnit)
+    const connector = match[2].toLowerCase()
+    const rest = match[3]
+
+    const pair =
+      connector === "between"
+        ? rest.match(/^(.+?) and (.+)$/i)
+        : connector === "from"
+          ? rest.match(/^(.+?) (?:to|until|till|and) (.+)$/i)
+          : null
+    if (pair) {
+      const from = parseDateExpression(pair[1], now)
+      const to = parseDateExpression(pair[2], now, from && from > today ? "future" : "nearest")
+      if (!from || !to) return null
+      return { type: "difference", from, to, unit, fromText: pair[1], toText: pair[2] }
+    }
+    if (connector === "between" || connector === "from") return null
+
+    if (connector === "since") {
+      const from = parseDateExpression(rest, now, "past")
+      return from ? { type: "difference", from, to: now, unit, fromText: rest, toText: "now" } : null
+    }
+    const to = parseDateExpression(rest, now, "future")
+    return to ? { type: "difference", from: now, to, unit, fromText: "now", toText: rest } : null
+  }
+
+  // "how long ago was March 3"
+  match = text.match(/^how (?:long|many (days|weeks|months|years)) ago (?:was|is) (.+)$/i)
+  if (match) {
+    const from = parseDateExpression(match[2], now, "past")
+    const unit = match[1] ? (normalizeUnit(match[1]) as DateUnit) : "days"
+    return from ? { type: "difference", from, to: now, unit, fromText: match[2], toText: "now" } : null
+  }
+
+  // Adding and subtracting: "add 90 days to today", "subtract 2 weeks from March 1"
+  match = text.match(new RegExp(`^(add|subtract|take away|take) ${AMOUNT} ${SHIFT_UNIT} (?:to|from) (.+)$`, "i"))
+  if (match) {
+    const base = parseDateExpression(match[4], now)
+    if (!base) return null
+    const sign = /^add/i.test(match[1]) ? 1 : -1
+    const date = shiftDate(base, parseAmount(match[2]) * sign, normalizeUnit(match[3]))
+    const relation = sign > 0 ? (/^(?:today|now)$/i.test(match[4]) ? "from" : "after") : "before"
+    return { type: "date", date, expression: `${match[2]} ${match[3]} ${relation} ${match[4]}` }
+  }
+
+  // Which day: "what day of the week is 2027-03-14", "what day does christmas fall on", "what day is it"
+  match =
+    text.match(
+      /^(?:what|which) day(?: of the week)? (?:is|was|will be|does|did|do|falls?|fell) (.*?)(?: (?:fall|land|falls|lands) on| be| on)?$/i,
+    ) ??
+    text.match(/^what(?:'s| is| was| will be) (?:the )?date(?: (?:is|was|will be|will it be))?(.*)$/i) ??
+    text.match(/^what date (?:is|was|will be|will it be|is it|was it)(.*)$/i) ??
+    text.match(/^what(?:'s| is) (today)'s date$/i)
+  if (match) {
+    const expression = match[1].replace(/^\s*(?:it|today is)\b\s*/i, "").trim() || "today"
+    const date = parseDateExpression(expression, now)
+    return date ? { type: "date", date, expression: describeExpression(expression) } : null
+  }
+
+  // A bare date shift: "90 days from today", "3 weeks after March 1"
+  if (new RegExp(`\\b${SHIFT_UNIT}\\b.*\\b(?:from|after|before|ago|later)\\b|^in ${AMOUNT} ${SHIFT_UNIT}$`, "i").test(text)) {
+    const stripped = text.replace(/^(?:what(?:'s| is| was| will be)|when is|when was)\s+/i, "")
+    const date = parseDateExpression(stripped, now)
+    return date ? { type: "date", date, expression: describeExpression(stripped) } : null
+  }
+
+  return null
+}
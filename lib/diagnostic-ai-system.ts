@@ -1,35 +1,42 @@
+import {
+  MathEvaluationError,
+  MathEvaluator,
+  MathExpressionParser,
+  MathParseError,
+  extractMathExpression,
+  formatParseError,
+  summarizeSteps,
+  type MathExplanation,
+  type MathFunction,
+} from "./math-expression"
+import { MemoryStore, describeMemory, describeMemoryUpdates, type MemoryUpdate } from "./memory-store"
+import { scopedKey } from "./profile-manager"
+
 interface ChatMessage {
   id: string
   role: "user" | "assistant"
   content: string
   timestamp: number
   confidence?: number
+  metadata?: ResponseMetadata
+}
+
+interface ResponseMetadata {
+  explanation?: MathExplanation
 }
 
 interface AIResponse {
   content: string
   confidence: number
-}
-
-interface MemoryEntry {
-  key: string
-  value: string
-  timestamp: number
-  importance: number
-}
-
-interface MathFunction {
-  name: string
-  description: string
-  examples: string[]
-  func: (...args: number[]) => number | string
+  metadata?: ResponseMetadata
 }
 
 export class DiagnosticAISystem {
   private conversationHistory: ChatMessage[] = []
   private vocabulary: Map<string, string> = new Map()
-  private memory: Map<string, MemoryEntry> = new Map()
+  private memory = new MemoryStore()
   private mathFunctions: Map<string, MathFunction> = new Map()
+  private mathParser = new MathExpressionParser()
   private performanceLog: Array<{ operation: string; duration: number; timestamp: number }> = []
 
   constructor() {
@@ -175,7 +182,7 @@ export class DiagnosticAISystem {
     const startTime = performance.now()
 
     try {
-      const stored = localStorage.getItem("diagnostic-ai-conversation")
+      const stored = localStorage.getItem(scopedKey("diagnostic-ai-conversation"))
       if (stored) {
         const parsed = JSON.parse(stored)
         if (Array.isArray(parsed)) {
@@ -200,17 +207,14 @@ export class DiagnosticAISystem {
     const startTime = performance.now()
 
     try {
-      const stored = localStorage.getItem("diagnostic-ai-memory")
+      const stored = localStorage.getItem(scopedKey("diagnostic-ai-memory"))
       if (stored) {
-        const parsed = JSON.parse(stored)
-        if (Array.isArray(parsed)) {
-          this.memory = new Map(parsed)
-          console.log(`🧠 Loaded ${this.memory.size} memory entries`)
-        }
+        this.memory.load(JSON.parse(stored))
+        console.log(`🧠 Loaded ${this.memory.size} memory entries`)
       }
     } catch (error) {
       console.warn("⚠️ Failed to load memory system:", error)
-      this.memory = new Map()
+      this.memory = new MemoryStore()
     }
 
     const duration = performance.now() - startTime
@@ -236,12 +240,12 @@ export class DiagnosticAISystem {
 
     try {
       // Learn from user input
-      this.learnFromMessage(userMessage)
+      const memoryUpdates = this.learnFromMessage(userMessage)
 
       // Check if it's a math question first
       const mathResult = this.processMathQuery(userMessage)
       if (mathResult) {
-        this.saveConversation(userMessage, mathResult.content)
+        this.saveConversation(userMessage, mathResult)
         const duration = performance.now() - startTime
         this.logPerformance("processMessage", duration)
         console.log(`✅ Math response generated in ${duration.toFixed(2)}ms`)
@@ -249,8 +253,8 @@ export class DiagnosticAISystem {
       }
 
       // Generate regular response
-      const response = this.generateResponse(userMessage)
-      this.saveConversation(userMessage, response.content)
+      const response = this.generateResponse(userMessage, memoryUpdates)
+      this.saveConversation(userMessage, response)
 
       const duration = performance.now() - startTime
       this.logPerformance("processMessage", duration)
@@ -272,42 +276,49 @@ export class DiagnosticAISystem {
   private processMathQuery(message: string): AIResponse | null {
     const lowerMessage = message.toLowerCase()
 
-    // Mathematical expression patterns
-    const mathPatterns = [
-      { pattern: /(\d+(?:\.\d+)?)\s*\+\s*(\d+(?:\.\d+)?)/, operation: "add" },
-      { pattern: /(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)/, operation: "subtract" },
-      { pattern: /(\d+(?:\.\d+)?)\s*\*\s*(\d+(?:\.\d+)?)/, operation: "multiply" },
-      { pattern: /(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/, operation: "divide" },
-      { pattern: /(\d+(?:\.\d+)?)\s*\^\s*(\d+(?:\.\d+)?)/, operation: "power" },
-      { pattern: /sqrt\s*$$\s*(\d+(?:\.\d+)?)\s*$$/, operation: "sqrt" },
-      { pattern: /sin\s*$$\s*(\d+(?:\.\d+)?)\s*$$/, operation: "sin" },
-      { pattern: /cos\s*$$\s*(\d+(?:\.\d+)?)\s*$$/, operation: "cos" },
-      { pattern: /tan\s*$$\s*(\d+(?:\.\d+)?)\s*$$/, operation: "tan" },
-    ]
+    // "explain 3 + 4 * 2" answers with the evaluation steps attached
+    const explain = /^\s*(?:explain|show (?:me )?(?:the )?steps (?:for|of)|steps for)\s+/i.test(message)
+
+    // Full expressions with precedence, parentheses and nested function calls
+    const expression = extractMathExpression(message, (name) => this.mathFunctions.has(name))
+    if (expression) {
+      try {
+        const tree = this.mathParser.parse(expression)
+        const evaluator = new MathEvaluator({ functions: this.mathFunctions })
+
+        if (explain) {
+          const explanation = evaluator.explain(tree)
+          console.log(`🔢 Math explanation: ${expression} = ${explanation.result}`)
+
+          const steps = explanation.steps.length > 0 ? `. Steps: ${summarizeSteps(explanation)}` : ""
+          return {
+            content: `The result is: ${explanation.result}${steps}`,
+            confidence: 0.95,
+            metadata: { explanation },
+          }
+        }
 
-    for (const { pattern, operation } of mathPatterns) {
-      const match = message.match(pattern)
-      if (match) {
-        const mathFunc = this.mathFunctions.get(operation)
-        if (mathFunc) {
-          try {
-            const numbers = match.slice(1).map((n) => Number.parseFloat(n))
-            const result = mathFunc.func(...numbers)
-
-            console.log(`🔢 Math calculation: ${operation}(${numbers.join(", ")}) = ${result}`)
-
-            return {
-              content: `The result is: ${result}`,
-              confidence: 0.95,
-            }
-          } catch (error) {
-            console.error("❌ Math calculation error:", error)
-            return {
-              content: "I encountered an error with that calculation. Please check your input.",
-              confidence: 0.3,
-            }
+        const result = evaluator.evaluate(tree)
+
+        console.log(`🔢 Math calculation: ${expression} = ${result}`)
+
+        return {
+          content: `The result is: ${result}`,
+          confidence: 0.95,
+        }
+      } catch (error) {
+        console.error("❌ Math calculation error:", error)
+        if (error instanceof MathParseError || error instanceof MathEvaluationError) {
+          return {
+            content: `I couldn't calculate that. ${formatParseError(expression, error)}`,
+            confidence: 0.3,
           }
         }
+
+        return {
+          content: "I encountered an error with that calculation. Please check your input.",
+          confidence: 0.3,
+        }
       }
     }
 
@@ -328,9 +339,19 @@ export class DiagnosticAISystem {
     return null
   }
 
-  private generateResponse(userMessage: string): AIResponse {
+  private generateResponse(userMessage: string, memoryUpdates: MemoryUpdate[] = []): AIResponse {
     const lowerMessage = userMessage.toLowerCase()
 
+    // Slot questions and new facts about the user come before the canned patterns
+    const slotAnswer = this.memory.answer(userMessage)
+    if (slotAnswer) {
+      return { content: slotAnswer.content, confidence: 0.9 }
+    }
+    const acknowledgement = describeMemoryUpdates(memoryUpdates)
+    if (acknowledgement) {
+      return { content: acknowledgement, confidence: 0.85 }
+    }
+
     // Check for memory queries
     if (
       lowerMessage.includes("remember") ||
@@ -389,7 +410,7 @@ export class DiagnosticAISystem {
     }
   }
 
-  private learnFromMessage(message: string): void {
+  private learnFromMessage(message: string): MemoryUpdate[] {
     // Extract and learn new words
     const words = message.toLowerCase().match(/\b\w+\b/g) || []
     words.forEach((word) => {
@@ -399,55 +420,45 @@ export class DiagnosticAISystem {
     })
 
     // Extract memory patterns
-    this.extractMemoryFromMessage(message)
+    return this.extractMemoryFromMessage(message)
   }
 
-  private extractMemoryFromMessage(message: string): void {
-    const memoryPatterns = [
-      { pattern: /remember (?:that )?(.+)/i, importance: 0.8 },
-      { pattern: /my name is (.+)/i, importance: 0.9 },
-      { pattern: /i (?:am|work as) (?:a |an )?(.+)/i, importance: 0.7 },
-      { pattern: /i like (.+)/i, importance: 0.6 },
-    ]
-
-    memoryPatterns.forEach(({ pattern, importance }) => {
-      const match = message.match(pattern)
-      if (match && match[1]) {
-        const key = match[1].toLowerCase().replace(/\s+/g, "_").substring(0, 20)
-        const entry: MemoryEntry = {
-          key,
-          value: match[1].trim(),
-          timestamp: Date.now(),
-          importance,
-        }
-        this.memory.set(key, entry)
-        console.log(`🧠 Stored memory: ${entry.value}`)
-      }
-    })
+  private extractMemoryFromMessage(message: string): MemoryUpdate[] {
+    const updates = this.memory.extract(message)
+    updates
+      .filter((update) => update.changed)
+      .forEach(({ entry }) => console.log(`🧠 Stored memory (${entry.slot}): ${entry.value}`))
+    return updates
   }
 
   private searchMemory(query: string): string | null {
     const queryLower = query.toLowerCase()
 
-    for (const [key, entry] of this.memory.entries()) {
-      if (queryLower.includes(key.replace(/_/g, " ")) || queryLower.includes(entry.value.toLowerCase())) {
-        return `I remember that ${entry.value}. I stored this on ${new Date(entry.timestamp).toLocaleDateString()}.`
-      }
+    // Most relevant entry first, weighted by how well it has been retained
+    const [best] = this.memory.search(query)
+    if (best) {
+      this.memory.recall([best.entry])
+      const stored = new Date(best.entry.timestamp).toLocaleDateString()
+      return `I remember that ${describeMemory(best.entry)}. I stored this on ${stored}.`
     }
 
+    // Check if asking about general memory
     if (queryLower.includes("remember") && this.memory.size > 0) {
-      const recentMemories = Array.from(this.memory.values())
-        .sort((a, b) => b.timestamp - a.timestamp)
+      const now = Date.now()
+      const topMemories = this.memory
+        .getEntries()
+        .sort((a, b) => this.memory.retention(b, now) - this.memory.retention(a, now))
         .slice(0, 3)
+      this.memory.recall(topMemories, now)
 
-      const memoryList = recentMemories.map((m) => m.value).join(", ")
+      const memoryList = topMemories.map(describeMemory).join(", ")
       return `I remember several things: ${memoryList}. Is there something specific you'd like me to recall?`
     }
 
     return null
   }
 
-  private saveConversation(userMessage: string, aiResponse: string): void {
+  private saveConversation(userMessage: string, response: AIResponse): void {
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: "user",
@@ -458,8 +469,9 @@ export class DiagnosticAISystem {
     const aiMsg: ChatMessage = {
       id: (Date.now() + 1).toString(),
       role: "assistant",
-      content: aiResponse,
+      content: response.content,
       timestamp: Date.now(),
+      metadata: response.metadata,
     }
 
     this.conversationHistory.push(userMsg, aiMsg)
@@ -471,8 +483,8 @@ export class DiagnosticAISystem {
 
     // Save to localStorage
     try {
-      localStorage.setItem("diagnostic-ai-conversation", JSON.stringify(this.conversationHistory))
-      localStorage.setItem("diagnostic-ai-memory", JSON.stringify(Array.from(this.memory.entries())))
+      localStorage.setItem(scopedKey("diagnostic-ai-conversation"), JSON.stringify(this.conversationHistory))
+      localStorage.setItem(scopedKey("diagnostic-ai-memory"), JSON.stringify(this.memory.serialize()))
     } catch (error) {
       console.warn("⚠️ Failed to save to localStorage:", error)
     }
@@ -3,6 +3,7 @@ import { AdvancedTokenizer } from "./advanced-tokenizer"
 import { EnhancedNeuralEngine } from "./enhanced-neural-engine"
 import { VocabularySeeder } from "./vocabulary-seeder"
 import { PatternMatcher, type MatchResult } from "./pattern-matcher"
+import { scopedKey } from "./profile-manager"
 
 export interface EnhancedChatMessage {
   id: string
@@ -279,7 +280,7 @@ export class EnhancedAISystemV2 {
 
   private saveConversationHistory(): void {
     try {
-      localStorage.setItem("enhanced-ai-conversation-v2", JSON.stringify(this.conversationHistory))
+      localStorage.setItem(scopedKey("enhanced-ai-conversation-v2"), JSON.stringify(this.conversationHistory))
     } catch (error) {
       console.warn("Failed to save conversation:", error)
     }
@@ -287,7 +288,7 @@ export class EnhancedAISystemV2 {
 
   private loadConversationHistory(): void {
     try {
-      const stored = localStorage.getItem("enhanced-ai-conversation-v2")
+      const stored = localStorage.getItem(scopedKey("enhanced-ai-conversation-v2"))
       if (stored && stored.trim()) {
         const parsed = JSON.parse(stored)
         if (Array.isArray(parsed)) {
@@ -311,7 +312,7 @@ export class EnhancedAISystemV2 {
 
   private saveLearningStats(): void {
     try {
-      localStorage.setItem("enhanced-ai-learning-stats-v2", JSON.stringify(this.learningStats))
+      localStorage.setItem(scopedKey("enhanced-ai-learning-stats-v2"), JSON.stringify(this.learningStats))
     } catch (error) {
       console.warn("Failed to save learning stats:", error)
     }
@@ -319,7 +320,7 @@ export class EnhancedAISystemV2 {
 
   private loadLearningStats(): void {
     try {
-      const stored = localStorage.getItem("enhanced-ai-learning-stats-v2")
+      const stored = localStorage.getItem(scopedKey("enhanced-ai-learning-stats-v2"))
       if (stored && stored.trim()) {
         const parsed = JSON.parse(stored)
         if (parsed && typeof parsed === "object") {
@@ -344,8 +345,8 @@ export class EnhancedAISystemV2 {
 
   private clearCorruptedData(): void {
     try {
-      localStorage.removeItem("enhanced-ai-conversation-v2")
-      localStorage.removeItem("enhanced-ai-learning-stats-v2")
+      localStorage.removeItem(scopedKey("enhanced-ai-conversation-v2"))
+      localStorage.removeItem(scopedKey("enhanced-ai-learning-stats-v2"))
     } catch (error) {
       console.warn("Could not clear corrupted data:", error)
     }
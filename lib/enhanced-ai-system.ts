@@ -1,6 +1,7 @@
 import { VocabularyLoader } from "./vocabulary-loader"
 import { AdvancedTokenizer } from "./advanced-tokenizer"
 import { EnhancedNeuralEngine } from "./enhanced-neural-engine"
+import { scopedKey } from "./profile-manager"
 
 export interface EnhancedChatMessage {
   id: string
@@ -70,8 +71,8 @@ export class EnhancedAISystem {
         console.warn("Could not load previous session data:", historyError)
         // Clear potentially corrupted data
         try {
-          localStorage.removeItem("enhanced-ai-conversation")
-          localStorage.removeItem("enhanced-ai-learning-stats")
+          localStorage.removeItem(scopedKey("enhanced-ai-conversation"))
+          localStorage.removeItem(scopedKey("enhanced-ai-learning-stats"))
         } catch (clearError) {
           console.warn("Could not clear corrupted session data:", clearError)
         }
@@ -230,7 +231,7 @@ export class EnhancedAISystem {
 
   private saveConversationHistory(): void {
     try {
-      localStorage.setItem("enhanced-ai-conversation", JSON.stringify(this.conversationHistory))
+      localStorage.setItem(scopedKey("enhanced-ai-conversation"), JSON.stringify(this.conversationHistory))
     } catch (error) {
       console.warn("Failed to save conversation:", error)
     }
@@ -238,7 +239,7 @@ export class EnhancedAISystem {
 
   private loadConversationHistory(): void {
     try {
-      const stored = localStorage.getItem("enhanced-ai-conversation")
+      const stored = localStorage.getItem(scopedKey("enhanced-ai-conversation"))
       if (stored && stored.trim()) {
         const parsed = JSON.parse(stored)
         if (Array.isArray(parsed)) {
@@ -262,7 +263,7 @@ export class EnhancedAISystem {
 
   private saveLearningStats(): void {
     try {
-      localStorage.setItem("enhanced-ai-learning-stats", JSON.stringify(this.learningStats))
+      localStorage.setItem(scopedKey("enhanced-ai-learning-stats"), JSON.stringify(this.learningStats))
     } catch (error) {
       console.warn("Failed to save learning stats:", error)
     }
@@ -270,7 +271,7 @@ export class EnhancedAISystem {
 
   private loadLearningStats(): void {
     try {
-      const stored = localStorage.getItem("enhanced-ai-learning-stats")
+      const stored = localStorage.getItem(scopedKey("enhanced-ai-learning-stats"))
       if (stored && stored.trim()) {
         const parsed = JSON.parse(stored)
         if (parsed && typeof parsed === "object") {
@@ -0,0 +1,646 @@
+import {
+  MATH_CONSTANTS,
+  MathEvaluator,
+  MathExpressionParser,
+  type MathFunction,
+  type MathNode,
+} from "./math-expression"
+import { rowReduce } from "./matrix"
+
+export interface EquationResult {
+  method: string
+  status: "solved" | "no-solution" | "infinite" | "not-found"
+  solutions: string[]
+  note?: string
+}
+
+interface Complex {
+  re: number
+  im: number
+}
+
+interface LinearForm {
+  coefficients: Map<string, number>
+  constant: number
+}
+
+const EPSILON = 1e-9
+const MAX_POLYNOMIAL_DEGREE = 12
+const NUMERIC_RANGE = 100
+const NUMERIC_STEPS = 4000
+
+export class EquationSolver {
+  private parser = new MathExpressionParser()
+  private functions: Map<string, MathFunction>
+
+  constructor(functions: Map<string, MathFunction>) {
+    this.functions = functions
+  }
+
+  // Accepts "2x + 3 = 11", "x^2 - 5x + 6 = 0" or a system such as "x + y = 3, x - y = 1"
+  public solve(input: string): EquationResult {
+    const equations = this.splitEquations(input).map((equation) => this.parseEquation(equation))
+    const unknowns = new Set<string>()
+    equations.forEach((tree) => this.collectUnknowns(tree, unknowns))
+    const variables = Array.from(unknowns).sort()
+
+    if (variables.length === 0) {
+      const holds = equations.every((tree) => Math.abs(this.evaluateAt(tree, new Map())) < EPSILON)
+      return {
+        method: "direct evaluation",
+        status: holds ? "infinite" : "no-solution",
+        solutions: [],
+        note: holds ? "The equation is always true." : "The equation is never true.",
+      }
+    }
+
+    if (equations.length === 1 && variables.length === 1) {
+      return this.solveSingleVariable(equations[0], variables[0])
+    }
+
+    if (variables.length > 3) {
+      throw new Error("I can solve systems with up to 3 unknowns")
+    }
+
+    const forms = equations.map((tree) => this.toLinear(tree, unknowns))
+    if (forms.some((form) => form === null)) {
+      throw new Error("Systems of equations must be linear")
+    }
+    return this.solveLinearSystem(forms as LinearForm[], variables)
+  }
+
+  private splitEquations(input: string): string[] {
+    // Split on commas, semicolons and "and" outside parentheses so max(a, b) stays intact
+    const parts: string[] = []
+    let depth = 0
+    let current = ""
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i]
+      if (char === "(") depth++
+      if (char === ")") depth--
+
+      const rest = input.slice(i)
+      if (depth === 0 && (char === "," || char === ";")) {
+        parts.push(current)
+        current = ""
+        continue
+      }
+      const andMatch = depth === 0 ? rest.match(/^\s+and\s+/i) : null
+      if (andMatch) {
+        parts.push(current)
+        current = ""
+        i += andMatch[0].length - 1
+        continue
+      }
+      current += char
+    }
+    parts.push(current)
+    return parts.map((part) => part.trim()).filter((part) => part.length > 0)
+  }
+
+  // Moves everything to one side: left = right becomes left - right = 0
+  private parseEquation(equation: string): MathNode {
+    const sides = equation.split("=")
+    if (sides.length > 2) {
+      throw new Error(`"${equation}" has more than one '=' sign`)
+    }
+
+    const left = this.parser.parse(sides[0])
+    if (sides.length === 1) return left
+
+    const right = this.parser.parse(sides[1])
+    return { type: "binary", operator: "-", left, right, position: left.position }
+  }
+
+  private collectUnknowns(node: MathNode, unknowns: Set<string>): void {
+    switch (node.type) {
+      case "identifier":
+        if (MATH_CONSTANTS[node.name.toLowerCase()] === undefined) unknowns.add(node.name)
+        break
+      case "unary":
+        this.collectUnknowns(node.argument, unknowns)
+        break
+      case "binary":
+        this.collectUnknowns(node.left, unknowns)
+        this.collectUnknowns(node.right, unknowns)
+        break
+      case "call":
+        node.args.forEach((arg) => this.collectUnknowns(arg, unknowns))
+        break
+    }
+  }
+
+  private evaluateAt(node: MathNode, variables: Map<string, number>): number {
+    try {
+      return new MathEvaluator({ functions: this.functions, variables }).evaluate(node)
+    } catch {
+      return Number.NaN
+    }
+  }
+
+  private solveSingleVariable(tree: MathNode, variable: string): EquationResult {
+    const polynomial = this.toPolynomial(tree, variable)
+    if (!polynomial) {
+      return this.solveNumerically(tree, variable)
+    }
+
+    const coefficients = trimPolynomial(polynomial)
+    const degree = coefficients.length - 1
+
+    if (degree <= 0) {
+      const always = Math.abs(coefficients[0] ?? 0) < EPSILON
+      return {
+        method: "simplification",
+        status: always ? "infinite" : "no-solution",
+        solutions: [],
+        note: always ? `Every value of ${variable} works.` : "The equation simplifies to a contradiction.",
+      }
+    }
+
+    if (degree === 1) {
+      const [b, a] = coefficients
+      return {
+        method: "linear isolation",
+        status: "solved",
+        solutions: [`${variable} = ${formatRational(-b / a)}`],
+      }
+    }
+
+    if (degree === 2) {
+      return this.solveQuadratic(coefficients, variable)
+    }
+
+    return this.solvePolynomialNumerically(coefficients, variable)
+  }
+
+  private solveQuadratic([c, b, a]: number[], variable: string): EquationResult {
+    const discriminant = b * b - 4 * a * c
+    const center = -b / (2 * a)
+
+    if (Math.abs(discriminant) < EPSILON) {
+      return {
+        method: "quadratic formula",
+        status: "solved",
+        solutions: [`${variable} = ${formatRational(center)}`],
+        note: "Double root (discriminant is 0).",
+      }
+    }
+
+    const exact = [a, b, c].every(isInteger) ? exactQuadraticRoots(a, b, c) : null
+    const spread = Math.sqrt(Math.abs(discriminant)) / Math.abs(2 * a)
+
+    if (discriminant > 0) {
+      if (exact?.isRational) {
+        return {
+          method: "quadratic formula",
+          status: "solved",
+          solutions: exact.roots.map((root) => `${variable} = ${root}`),
+        }
+      }
+
+      return {
+        method: "quadratic formula",
+        status: "solved",
+        solutions: [center - spread, center + spread].map((root) => `${variable} ≈ ${formatDecimal(root)}`),
+        note: exact ? `Exact form: ${variable} = ${exact.roots[0]}` : undefined,
+      }
+    }
+
+    const note = `Complex roots (discriminant is ${formatDecimal(discriminant)}).`
+    if (exact?.isRational) {
+      return {
+        method: "quadratic formula",
+        status: "solved",
+        solutions: exact.roots.map((root) => `${variable} = ${root}`),
+        note,
+      }
+    }
+
+    const exactForm = exact ? ` Exact form: ${variable} = ${exact.roots[0]}` : ""
+    return {
+      method: "quadratic formula",
+      status: "solved",
+      solutions: [
+        `${variable} ≈ ${formatComplex({ re: center, im: spread })}`,
+        `${variable} ≈ ${formatComplex({ re: center, im: -spread })}`,
+      ],
+      note: `${note}${exactForm}`,
+    }
+  }
+
+  private solvePolynomialNumerically(coefficients: number[], variable: string): EquationResult {
+    const roots = durandKerner(coefficients)
+    const real = roots.filter((root) => Math.abs(root.im) < 1e-7).map((root) => root.re)
+    const complex = roots.filter((root) => Math.abs(root.im) >= 1e-7)
+
+    const solutions = [
+      ...real.sort((x, y) => x - y).map((root) => `${variable} ≈ ${formatDecimal(root)}`),
+      ...complex.map((root) => `${variable} ≈ ${formatComplex(root)}`),
+    ]
+
+    return {
+      method: `Durand–Kerner iteration on a degree ${coefficients.length - 1} polynomial`,
+      status: "solved",
+      solutions,
+    }
+  }
+
+  // Scans for sign changes and refines each bracket by bisection
+  private solveNumerically(tree: MathNode, variable: string): EquationResult {
+    const f = (x: number) => this.evaluateAt(tree, new Map([[variable, x]]))
+    const roots: number[] = []
+    const step = (2 * NUMERIC_RANGE) / NUMERIC_STEPS
+
+    let previousX = -NUMERIC_RANGE
+    let previousY = f(previousX)
+    for (let i = 1; i <= NUMERIC_STEPS; i++) {
+      const x = -NUMERIC_RANGE + i * step
+      const y = f(x)
+
+      if (Number.isFinite(y) && Math.abs(y) < EPSILON) {
+        roots.push(x)
+      } else if (Number.isFinite(previousY) && Number.isFinite(y) && previousY * y < 0) {
+        const root = bisect(f, previousX, x)
+        // A sign change across an asymptote (tan, 1/x) is not a root
+        if (root !== null && Math.abs(f(root)) < 1e-6) roots.push(root)
+      }
+
+      previousX = x
+      previousY = y
+    }
+
+    const distinct = roots.filter((root, i) => i === 0 || Math.abs(root - roots[i - 1]) > 1e-6)
+    if (distinct.length === 0) {
+      return {
+        method: `numeric bisection on [-${NUMERIC_RANGE}, ${NUMERIC_RANGE}]`,
+        status: "not-found",
+        solutions: [],
+        note: "No real roots found in that range.",
+      }
+    }
+
+    const shown = distinct.slice(0, 10)
+    return {
+      method: `numeric bisection on [-${NUMERIC_RANGE}, ${NUMERIC_RANGE}]`,
+      status: "solved",
+      solutions: shown.map((root) => `${variable} ≈ ${formatDecimal(root)}`),
+      note: distinct.length > shown.length ? `Showing 10 of ${distinct.length} roots.` : undefined,
+    }
+  }
+
+  private solveLinearSystem(forms: LinearForm[], variables: string[]): EquationResult {
+    // Augmented matrix [A | b] for A·x = b
+    const matrix = forms.map((form) => [
+      ...variables.map((variable) => form.coefficients.get(variable) ?? 0),
+      -form.constant,
+    ])
+    const { rank, consistent, reduced } = rowReduce(matrix)
+
+    if (!consistent) {
+      return {
+        method: "Gaussian elimination",
+        status: "no-solution",
+        solutions: [],
+        note: "The equations contradict each other.",
+      }
+    }
+
+    if (rank < variables.length) {
+      return {
+        method: "Gaussian elimination",
+        status: "infinite",
+        solutions: [],
+        note: `Only ${rank} independent equation(s) for ${variables.length} unknowns.`,
+      }
+    }
+
+    return {
+      method: "Gaussian elimination",
+      status: "solved",
+      solutions: [
+        variables.map((variable, i) => `${variable} = ${formatRational(reduced[i][variables.length])}`).join(", "),
+      ],
+    }
+  }
+
+  // Expands a single-variable expression into coefficients [c0, c1, c2, ...], or null if it isn't a polynomial
+  private toPolynomial(node: MathNode, variable: string): number[] | null {
+    if (!this.dependsOn(node, variable)) {
+      const value = this.evaluateAt(node, new Map())
+      return Number.isFinite(value) ? [value] : null
+    }
+
+    switch (node.type) {
+      case "identifier":
+        return [0, 1]
+
+      case "unary": {
+        const argument = this.toPolynomial(node.argument, variable)
+        return argument && (node.operator === "-" ? argument.map((c) => -c) : argument)
+      }
+
+      case "binary": {
+        const left = this.toPolynomial(node.left, variable)
+        if (!left) return null
+
+        if (node.operator === "^") {
+          if (this.dependsOn(node.right, variable)) return null
+          const exponent = this.evaluateAt(node.right, new Map())
+          if (!Number.isInteger(exponent) || exponent < 0 || exponent * (left.length - 1) > MAX_POLYNOMIAL_DEGREE) {
+            return null
+          }
+          let result = [1]
+          for (let i = 0; i < exponent; i++) result = multiplyPolynomials(result, left)
+          return result
+        }
+
+        const right = this.toPolynomial(node.right, variable)
+        if (!right) return null
+
+        switch (node.operator) {
+          case "+":
+            return addPolynomials(left, right, 1)
+          case "-":
+            return addPolynomials(left, right, -1)
+          case "*": {
+            const product = multiplyPolynomials(left, right)
+            return product.length - 1 > MAX_POLYNOMIAL_DEGREE ? null : product
+          }
+          case "/": {
+            const divisor = trimPolynomial(right)
+            if (divisor.length !== 1 || Math.abs(divisor[0]) < EPSILON) return null
+            return left.map((c) => c / divisor[0])
+          }
+        }
+        return null
+      }
+
+      default:
+        // Functions of the variable (sin(x), 2^x via calls) are solved numerically
+        return null
+    }
+  }
+
+  private toLinear(node: MathNode, unknowns: Set<string>): LinearForm | null {
+    if (!Array.from(unknowns).some((unknown) => this.dependsOn(node, unknown))) {
+      const value = this.evaluateAt(node, new Map())
+      return Number.isFinite(value) ? { coefficients: new Map(), constant: value } : null
+    }
+
+    switch (node.type) {
+      case "identifier":
+        return { coefficients: new Map([[node.name, 1]]), constant: 0 }
+
+      case "unary": {
+        const argument = this.toLinear(node.argument, unknowns)
+        return argument && (node.operator === "-" ? scaleLinear(argument, -1) : argument)
+      }
+
+      case "binary": {
+        const left = this.toLinear(node.left, unknowns)
+        const right = this.toLinear(node.right, unknowns)
+        if (!left || !right) return null
+
+        switch (node.operator) {
+          case "+":
+            return combineLinear(left, right, 1)
+          case "-":
+            return combineLinear(left, right, -1)
+          case "*":
+            if (right.coefficients.size === 0) return scaleLinear(left, right.constant)
+            if (left.coefficients.size === 0) return scaleLinear(right, left.constant)
+            return null
+          case "/":
+            if (right.coefficients.size === 0 && Math.abs(right.constant) > EPSILON) {
+              return scaleLinear(left, 1 / right.constant)
+            }
+            return null
+        }
+        return null
+      }
+
+      default:
+        return null
+    }
+  }
+
+  private dependsOn(node: MathNode, variable: string): boolean {
+    switch (node.type) {
+      case "identifier":
+        return node.name === variable
+      case "unary":
+        return this.dependsOn(node.argument, variable)
+      case "binary":
+        return this.dependsOn(node.left, variable) || this.dependsOn(node.right, variable)
+      case "call":
+        return node.args.some((arg) => this.dependsOn(arg, variable))
+      default:
+        return false
+    }
+  }
+}
+
+function isInteger(value: number): boolean {
+  return Math.abs(value - Math.round(value)) < EPSILON
+}
+
+function trimPolynomial(coefficients: number[]): number[] {
+  const result = coefficients.map((c) => (Math.abs(c) < EPSILON ? 0 : c))
+  while (result.length > 1 && result[result.length - 1] === 0) result.pop()
+  return result
+}
+
+function addPolynomials(a: number[], b: number[], sign: number): number[] {
+  const result = new Array(Math.max(a.length, b.length)).fill(0)
+  a.forEach((c, i) => (result[i] += c))
+  b.forEach((c, i) => (result[i] += sign * c))
+  return result
+}
+
+function multiplyPolynomials(a: number[], b: number[]): number[] {
+  const result = new Array(a.length + b.length - 1).fill(0)
+  a.forEach((x, i) => b.forEach((y, j) => (result[i + j] += x * y)))
+  return result
+}
+
+function scaleLinear(form: LinearForm, factor: number): LinearForm {
+  const coefficients = new Map<string, number>()
+  form.coefficients.forEach((value, name) => coefficients.set(name, value * factor))
+  return { coefficients, constant: form.constant * factor }
+}
+
+function combineLinear(a: LinearForm, b: LinearForm, sign: number): LinearForm {
+  const coefficients = new Map(a.coefficients)
+  b.coefficients.forEach((value, name) => coefficients.set(name, (coefficients.get(name) ?? 0) + sign * value))
+  return { coefficients, constant: a.constant + sign * b.constant }
+}
+
+function bisect(f: (x: number) => number, low: number, high: number): number | null {
+  let fLow = f(low)
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    const fMid = f(mid)
+    if (!Number.isFinite(fMid)) return null
+    if (fMid === 0 || high - low < 1e-12) return mid
+    if (fLow * fMid < 0) {
+      high = mid
+    } else {
+      low = mid
+      fLow = fMid
+    }
+  }
+  return (low + high) / 2
+}
+
+// Finds all complex roots of a polynomial given as [c0, c1, ..., cn]
+function durandKerner(coefficients: number[]): Complex[] {
+  const degree = coefficients.length - 1
+  const leading = coefficients[degree]
+  const monic = coefficients.map((c) => c / leading)
+
+  const evaluate = (z: Complex): Complex => {
+    let result: Complex = { re: 0, im: 0 }
+    for (let i = degree; i >= 0; i--) {
+      result = complexAdd(complexMultiply(result, z), { re: monic[i], im: 0 })
+    }
+    return result
+  }
+
+  let roots: Complex[] = Array.from({ length: degree }, (_, k) => complexPower({ re: 0.4, im: 0.9 }, k))
+  for (let iteration = 0; iteration < 1000; iteration++) {
+    let change = 0
+    roots = roots.map((root, i) => {
+      let denominator: Complex = { re: 1, im: 0 }
+      roots.forEach((other, j) => {
+        if (i !== j) denominator = complexMultiply(denominator, complexSubtract(root, other))
+      })
+      const next = complexSubtract(root, complexDivide(evaluate(root), denominator))
+      change = Math.max(change, Math.hypot(next.re - root.re, next.im - root.im))
+      return next
+    })
+    if (change < 1e-14) break
+  }
+
+  return roots.map((root) => ({ re: root.re, im: Math.abs(root.im) < 1e-9 ? 0 : root.im }))
+}
+
+function complexAdd(a: Complex, b: Complex): Complex {
+  return { re: a.re + b.re, im: a.im + b.im }
+}
+
+function complexSubtract(a: Complex, b: Complex): Complex {
+  return { re: a.re - b.re, im: a.im - b.im }
+}
+
+function complexMultiply(a: Complex, b: Complex): Complex {
+  return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re }
+}
+
+function complexDivide(a: Complex, b: Complex): Complex {
+  const denominator = b.re * b.re + b.im * b.im
+  return {
+    re: (a.re * b.re + a.im * b.im) / denominator,
+    im: (a.im * b.re - a.re * b.im) / denominator,
+  }
+}
+
+function complexPower(base: Complex, exponent: number): Complex {
+  let result: Complex = { re: 1, im: 0 }
+  for (let i = 0; i < exponent; i++) result = complexMultiply(result, base)
+  return result
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  a = Math.abs(a)
+  b = Math.abs(b)
+  while (b) [a, b] = [b, a % b]
+  return a
+}
+
+function formatFraction(numerator: number, denominator: number): string {
+  if (denominator < 0) {
+    numerator = -numerator
+    denominator = -denominator
+  }
+  const divisor = greatestCommonDivisor(numerator, denominator) || 1
+  numerator /= divisor
+  denominator /= divisor
+  return denominator === 1 ? `${numerator}` : `${numerator}/${denominator}`
+}
+
+export function formatDecimal(value: number): string {
+  if (Math.abs(value) < EPSILON) return "0"
+  return Number.parseFloat(value.toPrecision(10)).toString()
+}
+
+// Shows small-denominator rationals exactly (0.5 -> 1/2), anything else as a decimal
+export function formatRational(value: number): string {
+  if (isInteger(value)) return `${Math.round(value)}`
+
+  for (let denominator = 2; denominator <= 1000; denominator++) {
+    const numerator = value * denominator
+    if (isInteger(numerator)) return formatFraction(Math.round(numerator), denominator)
+  }
+  return formatDecimal(value)
+}
+
+function formatComplex({ re, im }: Complex): string {
+  const imaginary = Math.abs(Math.abs(im) - 1) < EPSILON ? "i" : `${formatDecimal(Math.abs(im))}i`
+  if (Math.abs(re) < EPSILON) return im < 0 ? `-${imaginary}` : imaginary
+  return `${formatDecimal(re)} ${im < 0 ? "-" : "+"} ${imaginary}`
+}
+
+// Exact roots (-b ± √D) / 2a with √D simplified, e.g. x^2 - 2x - 1 -> 1 ± √2.
+// isRational: no radical left, so each root is written out (x^2 + 1 -> i, -i)
+function exactQuadraticRoots(a: number, b: number, c: number): { isRational: boolean; roots: string[] } {
+  a = Math.round(a)
+  b = Math.round(b)
+  c = Math.round(c)
+  const discriminant = b * b - 4 * a * c
+  const magnitude = Math.abs(discriminant)
+  const sqrt = Math.round(Math.sqrt(magnitude))
+
+  if (discriminant > 0 && sqrt * sqrt === magnitude) {
+    const numerators = [-b - sqrt, -b + sqrt].sort((x, y) => (x - y) * Math.sign(a))
+    return { isRational: true, roots: numerators.map((numerator) => formatFraction(numerator, 2 * a)) }
+  }
+
+  if (discriminant < 0 && sqrt * sqrt === magnitude) {
+    const center = formatFraction(-b, 2 * a)
+    const imaginary = formatFraction(sqrt, Math.abs(2 * a))
+    const unit = imaginary === "1" ? "i" : imaginary.includes("/") ? `(${imaginary})i` : `${imaginary}i`
+    return {
+      isRational: true,
+      roots: center === "0" ? [unit, `-${unit}`] : [`${center} + ${unit}`, `${center} - ${unit}`],
+    }
+  }
+
+  // Pull square factors out of the radical: √12 = 2√3
+  let outside = 1
+  let inside = magnitude
+  for (let factor = 2; factor * factor <= inside; factor++) {
+    while (inside % (factor * factor) === 0) {
+      inside /= factor * factor
+      outside *= factor
+    }
+  }
+
+  const center = formatFraction(-b, 2 * a)
+  const coefficient = formatFraction(outside, Math.abs(2 * a))
+  const [numerator, denominator] = coefficient.split("/")
+  const radicalCore = inside === 1 ? "" : `√${inside}`
+  let radical = numerator === "1" && radicalCore ? radicalCore : `${numerator}${radicalCore}`
+  if (denominator) radical = `${radical}/${denominator}`
+  if (discriminant < 0) {
+    if (radical === "1") {
+      radical = "i"
+    } else {
+      radical = inside === 1 && !denominator ? `${radical}i` : `(${radical})i`
+    }
+  }
+
+  return {
+    isRational: false,
+    roots: [center === "0" ? `±${radical}` : `${center} ± ${radical}`],
+  }
+}
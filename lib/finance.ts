@@ -0,0 +1,275 @@
+export class FinanceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "FinanceError"
+  }
+}
+
+export interface AmortizationRow {
+  period: number
+  payment: number
+  interest: number
+  principal: number
+  balance: number
+}
+
+export interface TipSplit {
+  tip: number
+  total: number
+  perPerson: number
+}
+
+// Rates are percentages throughout ("5" means 5%), the way people type them
+export type FinanceQuery =
+  | { type: "simple-interest"; principal: number; rate: number; years: number }
+  | { type: "compound-interest"; principal: number; rate: number; years: number; periodsPerYear: number }
+  | { type: "loan"; principal: number; rate: number; months: number }
+  | { type: "npv"; rate: number; cashFlows: number[] }
+  | { type: "irr"; cashFlows: number[] }
+  | { type: "percent-change"; from: number; to: number }
+  | { type: "percent-adjust"; amount: number; percent: number; direction: "increase" | "decrease" | "discount" }
+  | { type: "tip"; bill: number; percent: number; people: number }
+  | { type: "vat"; amount: number; rate: number; included: boolean }
+  | { type: "markup"; cost: number; percent: number }
+
+function requirePositive(value: number, name: string): void {
+  if (!(value > 0)) {
+    throw new FinanceError(`The ${name} needs to be more than zero`)
+  }
+}
+
+export function simpleInterest(principal: number, rate: number, years: number): number {
+  return principal * (rate / 100) * years
+}
+
+// Balance after compounding; periodsPerYear = Infinity compounds continuously
+export function compoundAmount(principal: number, rate: number, years: number, periodsPerYear = 1): number {
+  if (periodsPerYear === Infinity) {
+    return principal * Math.exp((rate / 100) * years)
+  }
+  requirePositive(periodsPerYear, "number of compounding periods")
+  return principal * Math.pow(1 + rate / 100 / periodsPerYear, periodsPerYear * years)
+}
+
+// Level monthly payment for a loan repaid over the given number of months
+export function loanPayment(principal: number, rate: number, months: number): number {
+  requirePositive(principal, "loan amount")
+  requirePositive(months, "loan term")
+  const monthly = rate / 100 / 12
+  if (monthly === 0) return principal / months
+  return (principal * monthly) / (1 - Math.pow(1 + monthly, -months))
+}
+
+export function amortizationSchedule(principal: number, rate: number, months: number): AmortizationRow[] {
+  const payment = loanPayment(principal, rate, months)
+  const monthly = rate / 100 / 12
+  const rows: AmortizationRow[] = []
+
+  let balance = principal
+  for (let period = 1; period <= months; period++) {
+    const interest = balance * monthly
+    // The last payment clears whatever rounding has left behind
+    const principalPaid = period === months ? balance : payment - interest
+    balance -= principalPaid
+    rows.push({ period, payment: principalPaid + interest, interest, principal: principalPaid, balance: Math.max(balance, 0) })
+  }
+  return rows
+}
+
+// The first cash flow happens today and is not discounted, like an initial investment
+export function netPresentValue(rate: number, cashFlows: number[]): number {
+  if (cashFlows.length === 0) {
+    throw new FinanceError("NPV needs at least one cash flow")
+  }
+  return cashFlows.reduce((total, flow, period) => total + flow / Math.pow(1 + rate / 100, period), 0)
+}
+
+// Rate (in percent) at which the NPV is zero; bisection is slow but never diverges
+export function internalRateOfReturn(cashFlows: number[]): number {
+  if (cashFlows.length < 2 || !cashFlows.some((flow) => flow < 0) || !cashFlows.some((flow) => flow > 0)) {
+    throw new FinanceError("IRR needs cash flows with both money going out and money coming in")
+  }
+
+  let low = -99.999999
+  let high = 100
+  while (netPresentValue(high, cashFlows) * netPresentValue(low, cashFlows) > 0 && high < 1e6) {
+    high *= 2
+  }
+  if (netPresentValue(high, cashFlows) * netPresentValue(low, cashFlows) > 0) {
+    throw new FinanceError("These cash flows don't have an IRR")
+  }
+
+  for (let i = 0; i < 200 && high - low > 1e-10; i++) {
+    const middle = (low + high) / 2
+    if (netPresentValue(low, cashFlows) * netPresentValue(middle, cashFlows) <= 0) {
+      high = middle
+    } else {
+      low = middle
+    }
+  }
+  return (low + high) / 2
+}
+
+export function percentChange(from: number, to: number): number {
+  if (from === 0) {
+    throw new FinanceError("A percentage change from zero is undefined")
+  }
+  return ((to - from) / Math.abs(from)) * 100
+}
+
+// A signed percentage: adjustByPercent(120, -25) is 120 decreased by 25%
+export function adjustByPercent(amount: number, percent: number): number {
+  return amount * (1 + percent / 100)
+}
+
+export function splitTip(bill: number, percent: number, people = 1): TipSplit {
+  requirePositive(bill, "bill")
+  if (!Number.isInteger(people) || people < 1) {
+    throw new FinanceError("The bill has to be split between a whole number of people")
+  }
+  const tip = bill * (percent / 100)
+  return { tip, total: bill + tip, perPerson: (bill + tip) / people }
+}
+
+export function addVat(net: number, rate: number): number {
+  return net * (1 + rate / 100)
+}
+
+export function removeVat(gross: number, rate: number): number {
+  return gross / (1 + rate / 100)
+}
+
+export function markupPrice(cost: number, percent: number): number {
+  return cost * (1 + percent / 100)
+}
+
+// Registered math functions report problems as strings, like the rest of the registry
+export function financeOrError(compute: () => number): number | string {
+  try {
+    return compute()
+  } catch (error) {
+    if (error instanceof FinanceError) return error.message
+    throw error
+  }
+}
+
+interface FinanceTerms {
+  amounts: number[]
+  rates: number[]
+  months: number | null
+  people: number | null
+}
+
+const COMPOUNDING: [RegExp, number][] = [
+  [/continuous(?:ly)?/, Infinity],
+  [/daily/, 365],
+  [/weekly/, 52],
+  [/monthly/, 12],
+  [/quarterly/, 4],
+  [/semi-?annual(?:ly)?|twice a year/, 2],
+  [/annual(?:ly)?|yearly/, 1],
+]
+
+// Sorts every number in the message by what follows it: "$250k", "4.5%", "30 years", "3 ways"
+function extractTerms(text: string): FinanceTerms {
+  const terms: FinanceTerms = { amounts: [], rates: [], months: null, people: null }
+  const pattern =
+    /(-)?\s?[$£€]?\s?((?:\d{1,3}(?:,\d{3})+(?!\d)|\d+)(?:\.\d+)?|\.\d+)(?:-(?=[a-z])|\s*)(k\b|m\b|thousand\b|million\b|%|percent\b|per cent\b|years?\b|yrs?\b|months?\b|mos?\b|ways?\b|people\b|persons?\b)?/gi
+
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    const [, minus, digits, suffix = ""] = match
+    let value = Number(digits.replace(/,/g, "")) * (minus ? -1 : 1)
+    const unit = suffix.toLowerCase()
+    const before = text.slice(0, match.index)
+
+    if (/^(?:%|percent|per cent)$/.test(unit)) {
+      terms.rates.push(value)
+    } else if (/^(?:years?|yrs?)$/.test(unit)) {
+      terms.months = value * 12
+    } else if (/^(?:months?|mos?)$/.test(unit)) {
+      terms.months = value
+    } else if (/^(?:ways?|people|persons?)$/.test(unit) || /\b(?:between|among)\s*$/.test(before)) {
+      terms.people = value
+    } else {
+      if (unit === "k" || unit === "thousand") value *= 1000
+      if (unit === "m" || unit === "million") value *= 1000000
+      terms.amounts.push(value)
+    }
+  }
+  return terms
+}
+
+// Reads chat phrasing such as "monthly payment on a $250k loan at 4.5% over 30 years"
+export function parseFinanceQuery(message: string): FinanceQuery | null {
+  const text = message.trim().replace(/\s*[?.!]+$/, "").toLowerCase()
+  const terms = extractTerms(text)
+  const [amount] = terms.amounts
+  const [rate] = terms.rates
+
+  if (/\bnpv\b|net present value/.test(text)) {
+    return rate !== undefined && terms.amounts.length > 0 ? { type: "npv", rate, cashFlows: terms.amounts } : null
+  }
+
+  if (/\birr\b|internal rate of return/.test(text)) {
+    return terms.amounts.length > 1 ? { type: "irr", cashFlows: terms.amounts } : null
+  }
+
+  const hasLoanTerms = amount !== undefined && rate !== undefined && terms.months !== null
+  if (/\b(?:loan|mortgage|repayments?|amorti[sz]ation|monthly payments?)\b/.test(text)) {
+    return hasLoanTerms ? { type: "loan", principal: amount, rate, months: terms.months! } : null
+  }
+
+  if (/\bsimple interest\b/.test(text)) {
+    return hasLoanTerms ? { type: "simple-interest", principal: amount, rate, years: terms.months! / 12 } : null
+  }
+
+  if (/\bcompound(?:ed|ing)?\b|\binterest\b|\bgrows? to\b|\bfuture value\b|\binvest(?:ed|ing|ment)?\b/.test(text) && hasLoanTerms) {
+    const periodsPerYear = COMPOUNDING.find(([pattern]) => pattern.test(text))?.[1] ?? 1
+    return { type: "compound-interest", principal: amount, rate, years: terms.months! / 12, periodsPerYear }
+  }
+
+  const change = text.match(/(?:\bpercent(?:age)?|%)\s*(?:change|increase|decrease|difference|growth|drop)\b.*?\bfrom\s+(.+?)\s+to\s+(.+)$/)
+  if (change) {
+    const from = extractTerms(change[1]).amounts
+    const to = extractTerms(change[2]).amounts
+    return from.length === 1 && to.length === 1 ? { type: "percent-change", from: from[0], to: to[0] } : null
+  }
+
+  // "increase 50 by 10%", "what is 120 decreased by 25%"
+  const before = text.match(/\b(increase|raise|decrease|reduce|cut)\s+(.+?)\s+by\s+(.+)$/)
+  const after = text.match(/^(?:what is\s+|what's\s+)?(.+?)\s+(increased|raised|decreased|reduced|cut)\s+by\s+(.+)$/)
+  const adjust = before ? [before[1], before[2], before[3]] : after && [after[2], after[1], after[3]]
+  if (adjust) {
+    const [verb, target, by] = adjust
+    const amounts = extractTerms(target).amounts
+    const percents = extractTerms(by).rates
+    if (amounts.length !== 1 || percents.length !== 1) return null
+    const direction = /^(?:increase|raise)/.test(verb) ? "increase" : "decrease"
+    return { type: "percent-adjust", amount: amounts[0], percent: percents[0], direction }
+  }
+
+  // "15% off 80", "80 with 15% off"
+  if (/(?:%|\bpercent|\bper cent)\s+off\b/.test(text)) {
+    if (terms.amounts.length !== 1 || terms.rates.length !== 1) return null
+    return { type: "percent-adjust", amount: terms.amounts[0], percent: terms.rates[0], direction: "discount" }
+  }
+
+  if (/\btip\b|\bgratuity\b/.test(text)) {
+    if (amount === undefined || rate === undefined) return null
+    return { type: "tip", bill: amount, percent: rate, people: terms.people ?? 1 }
+  }
+
+  if (/\bvat\b|\bsales tax\b|\bgst\b/.test(text)) {
+    if (amount === undefined || rate === undefined) return null
+    // "remove 20% VAT from 120", "how much VAT is in 120": the amount already includes it
+    const included = /\b(?:remove|removing|exclud\w*|without|back out|take off|ex|net of|from|is in|inclusive of)\b/.test(text)
+    return { type: "vat", amount, rate, included }
+  }
+
+  if (/\bmark(?:ed)?[- ]?up\b/.test(text)) {
+    return amount !== undefined && rate !== undefined ? { type: "markup", cost: amount, percent: rate } : null
+  }
+
+  return null
+}
@@ -0,0 +1,247 @@
+import {
+  MATH_CONSTANTS,
+  MathEvaluationError,
+  MathEvaluator,
+  MathExpressionParser,
+  containsCall,
+  formatExpression,
+  type MathFunction,
+  type MathNode,
+} from "./math-expression"
+
+export interface PlotQuery {
+  expressions: string[]
+  // Range as typed, e.g. "-pi" and "pi"; null means the default range
+  from: string | null
+  to: string | null
+}
+
+export interface PlotSeries {
+  key: string
+  label: string
+}
+
+// One row per sampled x; a null y leaves a gap in that line
+export type PlotPoint = { x: number } & Record<string, number | null>
+
+export interface PlotData {
+  series: PlotSeries[]
+  points: PlotPoint[]
+  xMin: number
+  xMax: number
+  // Trig functions take degrees elsewhere in chat
+  radians: boolean
+}
+
+export class PlotError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PlotError"
+  }
+}
+
+const DEFAULT_RANGE: [number, number] = [-10, 10]
+const TRIG_RANGE: [number, number] = [-2 * Math.PI, 2 * Math.PI]
+const SAMPLES = 400
+const MAX_SERIES = 5
+const TRIG_FUNCTIONS = ["sin", "cos", "tan"]
+
+// Splits "x^2, max(x, 2)" on top-level commas only
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ""
+  for (const char of text) {
+    if (char === "(") depth++
+    if (char === ")") depth--
+    if (char === "," && depth === 0) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts.map((part) => part.trim()).filter((part) => part !== "")
+}
+
+export class FunctionPlotter {
+  private parser = new MathExpressionParser()
+  private functions: Map<string, MathFunction>
+  private variables: Map<string, number>
+
+  constructor(functions: Map<string, MathFunction>, variables: Map<string, number> = new Map()) {
+    this.functions = functions
+    this.variables = variables
+  }
+
+  // "plot sin(x) from -pi to pi", "plot x^2, 2x+1", "graph y = 1/x for x in [-5, 5]"
+  public parseQuery(message: string): PlotQuery | null {
+    const match = message.match(/^\s*(?:plot|graph|draw|chart)\s+(?:the\s+)?(?:graph\s+of\s+)?(.+?)\s*[.!?]?\s*$/i)
+    if (!match) return null
+
+    let body = match[1]
+    let from: string | null = null
+    let to: string | null = null
+
+    const range =
+      body.match(/^(.*?)\s+(?:for\s+)?(?:x\s+)?(?:from|between)\s+(.+?)\s+(?:to|and)\s+(.+)$/i) ??
+      body.match(/^(.*?)\s+(?:for|on|over)\s+(?:x\s+in\s+)?\[\s*([^,\]]+?)\s*,\s*([^\]]+?)\s*\]$/i) ??
+      body.match(/^(.*?)\s+x\s+in\s+\[\s*([^,\]]+?)\s*,\s*([^\]]+?)\s*\]$/i)
+    if (range) {
+      ;[, body, from, to] = range
+    }
+
+    // "x^2 and 2x + 1" reads the same as "x^2, 2x + 1"
+    const expressions = splitTopLevel(body.replace(/\s+and\s+/gi, ","))
+      .map((expression) => expression.replace(/^(?:y|f\s*\(\s*x\s*\))\s*=\s*/i, ""))
+      .filter((expression) => /\bx\b|\dx\b/i.test(expression))
+    if (expressions.length === 0) return null
+
+    return { expressions, from, to }
+  }
+
+  public plot(query: PlotQuery): PlotData {
+    if (query.expressions.length > MAX_SERIES) {
+      throw new PlotError(`I can plot up to ${MAX_SERIES} functions at once`)
+    }
+
+    const trees = query.expressions.map((expression) => this.parser.parse(expression))
+    const series = trees.map((tree, i) => ({ key: `y${i}`, label: formatExpression(tree) }))
+    trees.forEach((tree) => this.checkNames(tree))
+
+    // A trig plot with no range, or a range written with pi, reads as radians
+    const trig = query.from === null && trees.some((tree) => containsCall(tree, (name) => TRIG_FUNCTIONS.includes(name)))
+    const radians = trig || [query.from, query.to].some((bound) => bound !== null && /pi|π|tau/i.test(bound))
+    const functions = radians ? this.withRadianTrig() : this.functions
+    const evaluator = new MathEvaluator({ functions, variables: this.variables })
+
+    const [defaultMin, defaultMax] = trig ? TRIG_RANGE : DEFAULT_RANGE
+    const xMin = query.from === null ? defaultMin : this.evaluateBound(query.from, evaluator)
+    const xMax = query.to === null ? defaultMax : this.evaluateBound(query.to, evaluator)
+    if (!(xMax > xMin)) {
+      throw new PlotError("The range needs to go from a smaller to a larger number")
+    }
+
+    const sample = (tree: MathNode, x: number): number | null => {
+      const variables = new Map(this.variables)
+      variables.set("x", x)
+      try {
+        const y = new MathEvaluator({ functions, variables }).evaluate(tree)
+        return Number.isFinite(y) ? y : null
+      } catch (error) {
+        // Domain errors (log of a negative, division by zero) just leave a gap
+        if (error instanceof MathEvaluationError && !/^Unknown/.test(error.message)) return null
+        throw error
+      }
+    }
+
+    const step = (xMax - xMin) / SAMPLES
+    const points: PlotPoint[] = []
+    const previous: (number | null)[] = trees.map(() => null)
+
+    for (let i = 0; i <= SAMPLES; i++) {
+      const x = xMin + i * step
+      const values = trees.map((tree) => sample(tree, x))
+
+      // A sign flip whose midpoint is larger than both ends is a pole (tan, 1/x): break the line there
+      const breaks = trees.map((tree, s) => {
+        const before = previous[s]
+        const after = values[s]
+        if (before === null || after === null || Math.sign(before) === Math.sign(after)) return false
+        const middle = sample(tree, x - step / 2)
+        return middle === null || Math.abs(middle) > Math.max(Math.abs(before), Math.abs(after))
+      })
+      if (breaks.some(Boolean)) {
+        const gap: PlotPoint = { x: x - step / 2 }
+        trees.forEach((tree, s) => (gap[`y${s}`] = breaks[s] ? null : sample(tree, x - step / 2)))
+        points.push(gap)
+      }
+
+      const point: PlotPoint = { x }
+      values.forEach((value, s) => (point[`y${s}`] = value))
+      points.push(point)
+      values.forEach((value, s) => (previous[s] = value))
+    }
+
+    series.forEach(({ key }) => this.clipOutliers(points, key))
+    if (points.every((point) => series.every(({ key }) => point[key] === null))) {
+      throw new PlotError("None of the functions has a real value in that range")
+    }
+
+    return { series, points, xMin, xMax, radians }
+  }
+
+  private evaluateBound(text: string, evaluator: MathEvaluator): number {
+    const value = evaluator.evaluate(this.parser.parse(text))
+    if (!Number.isFinite(value)) {
+      throw new PlotError(`'${text}' is not a usable range limit`)
+    }
+    return value
+  }
+
+  // Only x, stored variables and constants can appear, so "plot y^2" gets a clear message
+  private checkNames(node: MathNode): void {
+    switch (node.type) {
+      case "identifier":
+        if (node.name !== "x" && !this.variables.has(node.name) && MATH_CONSTANTS[node.name.toLowerCase()] === undefined) {
+          throw new PlotError(`Plots are in terms of x, but found '${node.name}'`)
+        }
+        break
+      case "unary":
+        this.checkNames(node.argument)
+        break
+      case "binary":
+        this.checkNames(node.left)
+        this.checkNames(node.right)
+        break
+      case "call":
+        if (!this.functions.has(node.name)) {
+          throw new PlotError(`Unknown function '${node.name}'`)
+        }
+        node.args.forEach((arg) => this.checkNames(arg))
+        break
+    }
+  }
+
+  // Values near a pole dwarf the rest of the curve, so drop anything far outside the bulk of the samples
+  private clipOutliers(points: PlotPoint[], key: string): void {
+    const values = points
+      .map((point) => point[key])
+      .filter((value): value is number => value !== null)
+      .sort((a, b) => a - b)
+    if (values.length < 10) return
+
+    const low = values[Math.floor(values.length * 0.02)]
+    const high = values[Math.ceil(values.length * 0.98) - 1]
+    const spread = Math.max(high - low, 1e-9)
+    if (values[values.length - 1] - values[0] < spread * 10) return
+
+    points.forEach((point) => {
+      const value = point[key]
+      if (value !== null && (value < low - spread * 2 || value > high + spread * 2)) point[key] = null
+    })
+  }
+
+  private withRadianTrig(): Map<string, MathFunction> {
+    const functions = new Map(this.functions)
+    TRIG_FUNCTIONS.forEach((name) => {
+      const existing = functions.get(name)
+      if (existing && !existing.definition) {
+        const trig = Math[name as "sin" | "cos" | "tan"]
+        functions.set(name, { ...existing, func: (a: number) => trig(a) })
+      }
+    })
+    return functions
+  }
+}
+
+// Sampled points as CSV, one column per function
+export function plotToCsv(plot: PlotData): string {
+  const escape = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text)
+  const header = ["x", ...plot.series.map((series) => escape(series.label))].join(",")
+  const rows = plot.points.map((point) =>
+    [point.x, ...plot.series.map(({ key }) => point[key])].map((value) => (value === null ? "" : String(value))).join(","),
+  )
+  return [header, ...rows].join("\n")
+}
@@ -1,3 +1,5 @@
+import { Bm25Index } from "./bm25-index"
+
 export interface KnowledgeItem {
   id: string
   content: string
@@ -12,6 +14,7 @@ export interface KnowledgeItem {
 export class KnowledgeManager {
   private knowledge: Map<string, KnowledgeItem> = new Map()
   private categories: Set<string> = new Set()
+  private index = new Bm25Index()
 
   constructor() {
     this.loadFromStorage()
@@ -32,6 +35,7 @@ export class KnowledgeManager {
 
     this.knowledge.set(id, item)
     this.categories.add(category)
+    this.index.add(id, this.indexText(item))
     this.saveToStorage()
     return id
   }
@@ -48,35 +52,14 @@ export class KnowledgeManager {
   }
 
   public searchKnowledge(query: string, limit = 10): KnowledgeItem[] {
-    const queryLower = query.toLowerCase()
     const results: Array<{ item: KnowledgeItem; score: number }> = []
 
-    for (const item of this.knowledge.values()) {
-      let score = 0
-
-      // Content matching
-      if (item.content.toLowerCase().includes(queryLower)) {
-        score += 0.4
-      }
-
-      // Tag matching
-      for (const tag of item.tags) {
-        if (tag.toLowerCase().includes(queryLower)) {
-          score += 0.3
-        }
-      }
-
-      // Category matching
-      if (item.category.toLowerCase().includes(queryLower)) {
-        score += 0.2
-      }
-
-      // Apply reliability and recency weights
-      score *= item.reliability * 0.7 + item.recency * 0.3
+    for (const match of this.index.search(query)) {
+      const item = this.knowledge.get(match.id)
+      if (!item) continue
 
-      if (score > 0) {
-        results.push({ item, score })
-      }
+      // Re-rank text relevance by reliability and recency
+      results.push({ item, score: match.score * (item.reliability * 0.7 + item.recency * 0.3) })
     }
 
     return results
@@ -104,6 +87,16 @@ export class KnowledgeManager {
     }
   }
 
+  // Tags and category are searchable alongside the content
+  private indexText(item: KnowledgeItem): string {
+    return [item.content, ...item.tags, item.category].join(" ")
+  }
+
+  private rebuildIndex(): void {
+    this.index.clear()
+    this.knowledge.forEach((item) => this.index.add(item.id, this.indexText(item)))
+  }
+
   private generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2)
   }
@@ -113,6 +106,7 @@ export class KnowledgeManager {
       const data = {
         knowledge: Array.from(this.knowledge.entries()),
         categories: Array.from(this.categories),
+        index: this.index.serialize(),
       }
       localStorage.setItem("ai-knowledge", JSON.stringify(data))
     } catch (error) {
@@ -127,6 +121,12 @@ export class KnowledgeManager {
         const data = JSON.parse(stored)
         this.knowledge = new Map(data.knowledge)
         this.categories = new Set(data.categories)
+
+        // Knowledge saved before the index existed, or out of step with it, is reindexed
+        if (!this.index.load(data.index) || this.index.size !== this.knowledge.size) {
+          this.rebuildIndex()
+          this.saveToStorage()
+        }
       }
     } catch (error) {
       console.warn("Failed to load knowledge from storage:", error)
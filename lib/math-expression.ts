@@ -0,0 +1,794 @@
+export interface MathFunction {
+  name: string
+  description: string
+  examples: string[]
+  func: (...args: number[]) => number | string
+  definition?: UserFunctionDefinition
+}
+
+// Serialized form of a function defined in chat, e.g. f(x) = x^2 + 2 * x + 1
+export interface UserFunctionDefinition {
+  params: string[]
+  expression: string
+}
+
+export type MathTokenType = "number" | "identifier" | "operator" | "leftParen" | "rightParen" | "comma"
+
+export interface MathToken {
+  type: MathTokenType
+  value: string
+  position: number
+}
+
+export type BinaryOperator = "+" | "-" | "*" | "/" | "^"
+
+export type MathNode =
+  | { type: "number"; value: number; raw: string; position: number }
+  | { type: "identifier"; name: string; position: number }
+  | { type: "unary"; operator: "+" | "-"; argument: MathNode; position: number }
+  | { type: "binary"; operator: BinaryOperator; left: MathNode; right: MathNode; position: number }
+  | { type: "call"; name: string; args: MathNode[]; position: number }
+
+// How results are shown: exact fractions, plain decimals or scientific notation
+export type MathOutputMode = "exact" | "decimal" | "scientific"
+
+// One evaluated node, in the order the evaluator reached it
+export interface MathStep {
+  order: number
+  operation: string
+  result: number
+  // The whole expression with everything evaluated so far replaced by its value
+  expression: string
+}
+
+export interface MathExplanation {
+  expression: string
+  tree: string[]
+  steps: MathStep[]
+  result: number
+}
+
+export interface MathEvaluationContext {
+  functions: Map<string, MathFunction>
+  variables?: Map<string, number>
+}
+
+export class MathParseError extends Error {
+  public readonly position: number
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`)
+    this.name = "MathParseError"
+    this.position = position
+  }
+}
+
+export class MathEvaluationError extends Error {
+  public readonly position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = "MathEvaluationError"
+    this.position = position
+  }
+}
+
+export const MATH_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  π: Math.PI,
+  e: Math.E,
+  tau: 2 * Math.PI,
+  phi: (1 + Math.sqrt(5)) / 2,
+}
+
+// Operators map onto the registered math functions when they exist
+const OPERATOR_FUNCTIONS: Record<BinaryOperator, string> = {
+  "+": "add",
+  "-": "subtract",
+  "*": "multiply",
+  "/": "divide",
+  "^": "power",
+}
+
+const BINARY_PRECEDENCE: Record<BinaryOperator, number> = {
+  "+": 1,
+  "-": 1,
+  "*": 2,
+  "/": 2,
+  "^": 4,
+}
+
+const UNARY_PRECEDENCE = 3
+
+const TYPOGRAPHIC_OPERATORS: Record<string, BinaryOperator> = {
+  "×": "*",
+  "·": "*",
+  "÷": "/",
+  "−": "-",
+}
+
+export class MathExpressionParser {
+  private tokens: MathToken[] = []
+  private index = 0
+  private source = ""
+
+  public tokenize(input: string): MathToken[] {
+    const tokens: MathToken[] = []
+    let i = 0
+
+    while (i < input.length) {
+      const char = input[i]
+
+      if (/\s/.test(char)) {
+        i++
+        continue
+      }
+
+      if (/[\d.]/.test(char)) {
+        // Hex, binary and octal integers ("0xff", "0b1010", "0o17") as well as decimals
+        const match = input.slice(i).match(/^(?:0x[\da-f]+|0b[01]+|0o[0-7]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/i)
+        if (!match) {
+          throw new MathParseError(`Invalid number '${char}'`, i)
+        }
+        tokens.push({ type: "number", value: match[0], position: i })
+        i += match[0].length
+        continue
+      }
+
+      if (/[a-zA-Zπ_]/.test(char)) {
+        const match = input.slice(i).match(/^[a-zA-Zπ_][a-zA-Z0-9_]*/)!
+        tokens.push({ type: "identifier", value: match[0], position: i })
+        i += match[0].length
+        continue
+      }
+
+      if ("+-*/^!".includes(char)) {
+        tokens.push({ type: "operator", value: char, position: i })
+        i++
+        continue
+      }
+
+      // Common typographic operators
+      if (TYPOGRAPHIC_OPERATORS[char]) {
+        tokens.push({ type: "operator", value: TYPOGRAPHIC_OPERATORS[char], position: i })
+        i++
+        continue
+      }
+
+      if (char === "(") {
+        tokens.push({ type: "leftParen", value: char, position: i })
+        i++
+        continue
+      }
+      if (char === ")") {
+        tokens.push({ type: "rightParen", value: char, position: i })
+        i++
+        continue
+      }
+      if (char === ",") {
+        tokens.push({ type: "comma", value: char, position: i })
+        i++
+        continue
+      }
+
+      throw new MathParseError(`Unexpected character '${char}'`, i)
+    }
+
+    return tokens
+  }
+
+  public parse(input: string): MathNode {
+    this.source = input
+    this.tokens = this.tokenize(input)
+    this.index = 0
+
+    if (this.tokens.length === 0) {
+      throw new MathParseError("Empty expression", 0)
+    }
+
+    const node = this.parseExpression(0)
+
+    if (this.index < this.tokens.length) {
+      const token = this.tokens[this.index]
+      throw new MathParseError(`Unexpected '${token.value}'`, token.position)
+    }
+
+    return node
+  }
+
+  // Precedence climbing: ^ is right-associative and binds tighter than unary minus, so -2^2 = -4
+  private parseExpression(minPrecedence: number): MathNode {
+    let left = this.parseUnary()
+
+    while (true) {
+      const token = this.peek()
+      if (!token) break
+
+      // Postfix factorial binds tightest: 2^3! = 2^6, -3! = -6
+      if (token.type === "operator" && token.value === "!") {
+        this.index++
+        left = { type: "call", name: "factorial", args: [left], position: token.position }
+        continue
+      }
+
+      // Implicit multiplication: 2x, 3(x + 1), (a + b)(a - b)
+      const implicit = token.type === "identifier" || token.type === "leftParen"
+      if (token.type !== "operator" && !implicit) break
+
+      const operator = implicit ? "*" : (token.value as BinaryOperator)
+      const precedence = BINARY_PRECEDENCE[operator]
+      if (precedence < minPrecedence) break
+
+      if (!implicit) this.index++
+      const nextMinPrecedence = operator === "^" ? precedence : precedence + 1
+      const right = operator === "^" ? this.parseExponent() : this.parseExpression(nextMinPrecedence)
+      left = { type: "binary", operator, left, right, position: token.position }
+    }
+
+    return left
+  }
+
+  private parseExponent(): MathNode {
+    // The exponent may carry its own sign: 2^-3
+    const token = this.peek()
+    if (token && token.type === "operator" && (token.value === "-" || token.value === "+")) {
+      this.index++
+      const argument = this.parseExponent()
+      return { type: "unary", operator: token.value, argument, position: token.position }
+    }
+    return this.parseExpression(BINARY_PRECEDENCE["^"])
+  }
+
+  private parseUnary(): MathNode {
+    const token = this.peek()
+    if (token && token.type === "operator" && (token.value === "-" || token.value === "+")) {
+      this.index++
+      const argument = this.parseExpression(UNARY_PRECEDENCE + 1)
+      return { type: "unary", operator: token.value, argument, position: token.position }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): MathNode {
+    const token = this.peek()
+    if (!token) {
+      throw new MathParseError("Unexpected end of expression", this.source.length)
+    }
+
+    if (token.type === "number") {
+      this.index++
+      const value = /^0[xbo]/i.test(token.value) ? Number(token.value.toLowerCase()) : Number.parseFloat(token.value)
+      return { type: "number", value, raw: token.value, position: token.position }
+    }
+
+    if (token.type === "identifier") {
+      this.index++
+      const next = this.peek()
+      if (next && next.type === "leftParen") {
+        this.index++
+        const args = this.parseArguments()
+        return { type: "call", name: token.value.toLowerCase(), args, position: token.position }
+      }
+      return { type: "identifier", name: token.value, position: token.position }
+    }
+
+    if (token.type === "leftParen") {
+      this.index++
+      const node = this.parseExpression(0)
+      this.expect("rightParen", "Missing closing parenthesis")
+      return node
+    }
+
+    throw new MathParseError(`Unexpected '${token.value}'`, token.position)
+  }
+
+  private parseArguments(): MathNode[] {
+    const args: MathNode[] = []
+    const next = this.peek()
+    if (next && next.type === "rightParen") {
+      this.index++
+      return args
+    }
+
+    while (true) {
+      args.push(this.parseExpression(0))
+      const token = this.peek()
+      if (token && token.type === "comma") {
+        this.index++
+        continue
+      }
+      this.expect("rightParen", "Missing closing parenthesis in function call")
+      return args
+    }
+  }
+
+  private expect(type: MathTokenType, message: string): MathToken {
+    const token = this.peek()
+    if (!token || token.type !== type) {
+      throw new MathParseError(message, token ? token.position : this.source.length)
+    }
+    this.index++
+    return token
+  }
+
+  private peek(): MathToken | undefined {
+    return this.tokens[this.index]
+  }
+}
+
+export class MathEvaluator {
+  private context: MathEvaluationContext
+
+  constructor(context: MathEvaluationContext) {
+    this.context = context
+  }
+
+  public evaluate(node: MathNode): number {
+    switch (node.type) {
+      case "number":
+        return node.value
+
+      case "identifier":
+        return this.resolveIdentifier(node.name, node.position)
+
+      case "unary": {
+        const value = this.evaluate(node.argument)
+        return node.operator === "-" ? -value : value
+      }
+
+      case "binary": {
+        const left = this.evaluate(node.left)
+        const right = this.evaluate(node.right)
+        return this.applyOperator(node.operator, left, right, node.position)
+      }
+
+      case "call": {
+        const args = node.args.map((arg) => this.evaluate(arg))
+        return this.callFunction(node.name, args, node.position)
+      }
+    }
+  }
+
+  // Same evaluation as evaluate(), but records every operation for step-by-step answers
+  public explain(node: MathNode): MathExplanation {
+    const resolved = new Map<MathNode, number>()
+    const steps: MathStep[] = []
+
+    const walk = (current: MathNode): number => {
+      let value: number
+      switch (current.type) {
+        case "number":
+          return current.value
+
+        case "identifier":
+          value = this.resolveIdentifier(current.name, current.position)
+          break
+
+        case "unary": {
+          const argument = walk(current.argument)
+          value = current.operator === "-" ? -argument : argument
+          // A negative literal such as -3 is not a step of its own
+          if (current.argument.type === "number") {
+            resolved.set(current, value)
+            return value
+          }
+          break
+        }
+
+        case "binary": {
+          const left = walk(current.left)
+          const right = walk(current.right)
+          value = this.applyOperator(current.operator, left, right, current.position)
+          break
+        }
+
+        case "call": {
+          const args = current.args.map(walk)
+          value = this.callFunction(current.name, args, current.position)
+          break
+        }
+      }
+
+      const operation = formatExpression(current, resolved)
+      resolved.set(current, value)
+      steps.push({ order: steps.length + 1, operation, result: value, expression: formatExpression(node, resolved) })
+      return value
+    }
+
+    const result = walk(node)
+    return { expression: formatExpression(node), tree: formatParseTree(node), steps, result }
+  }
+
+  private resolveIdentifier(name: string, position: number): number {
+    const variables = this.context.variables
+    if (variables?.has(name)) {
+      return variables.get(name)!
+    }
+
+    const constant = MATH_CONSTANTS[name.toLowerCase()]
+    if (constant !== undefined) {
+      return constant
+    }
+
+    throw new MathEvaluationError(`Unknown variable '${name}'`, position)
+  }
+
+  private applyOperator(operator: BinaryOperator, left: number, right: number, position: number): number {
+    const registered = this.context.functions.get(OPERATOR_FUNCTIONS[operator])
+    if (registered) {
+      return this.checkResult(registered.func(left, right), position)
+    }
+
+    switch (operator) {
+      case "+":
+        return left + right
+      case "-":
+        return left - right
+      case "*":
+        return left * right
+      case "/":
+        if (right === 0) {
+          throw new MathEvaluationError("Cannot divide by zero", position)
+        }
+        return left / right
+      case "^":
+        return Math.pow(left, right)
+    }
+  }
+
+  private callFunction(name: string, args: number[], position: number): number {
+    const mathFunc = this.context.functions.get(name)
+    if (!mathFunc) {
+      throw new MathEvaluationError(`Unknown function '${name}'`, position)
+    }
+    return this.checkResult(mathFunc.func(...args), position)
+  }
+
+  private checkResult(result: number | string, position: number): number {
+    // Registered functions report domain errors as strings (e.g. "Cannot divide by zero")
+    if (typeof result === "string") {
+      throw new MathEvaluationError(result, position)
+    }
+    if (Number.isNaN(result)) {
+      throw new MathEvaluationError("Result is not a number", position)
+    }
+    return result
+  }
+}
+
+interface MathSpan {
+  start: number
+  end: number
+  numbers: number
+  values: number
+  hasOperation: boolean
+  endsWithValue: boolean
+  openImplicitGroups: number
+}
+
+// Finds the longest run of math-looking tokens inside a sentence, e.g. "Calculate 15 * 23 please" -> "15 * 23"
+export function extractMathExpression(
+  message: string,
+  isFunction: (name: string) => boolean,
+  isVariable: (name: string) => boolean = () => false,
+): string | null {
+  const tokenPattern =
+    /(0x[\da-f]+|0b[01]+|0o[0-7]+|\d+\.?\d*(?:e[+-]?\d+)?|\.\d+)|([a-zA-Zπ_][a-zA-Z0-9_]*)|([+\-*/^×÷−·(),!])|(\s+)|(.)/gi
+  const spans: MathSpan[] = []
+  let current: MathSpan | null = null
+  // Set after a hyphenated word ("covid-19") so the rest of it isn't read as "-19"
+  let skipWord = false
+
+  let match: RegExpExecArray | null
+  while ((match = tokenPattern.exec(message)) !== null) {
+    const [text, number, identifier, operator, whitespace] = match
+    if (whitespace) {
+      skipWord = false
+      continue
+    }
+    if (skipWord) continue
+
+    const start = match.index
+    const end = start + text.length
+    // "sqrt (16)" needs a known name; "foo(3)" is a call either way so unknown functions get reported
+    const isCall =
+      !!identifier &&
+      (/^\(/.test(message.slice(end)) || (/^\s+\(/.test(message.slice(end)) && isFunction(identifier.toLowerCase())))
+    const isKnown =
+      !!identifier && (isCall || MATH_CONSTANTS[identifier.toLowerCase()] !== undefined || isVariable(identifier))
+
+    // "what is 5!" is a factorial, but the "!" in "I'm 30!" is just punctuation
+    const exclaims =
+      operator === "!" &&
+      /^\s*$/.test(message.slice(end)) &&
+      !/^\s*(?:(?:what(?:'s| is)|calculate|compute|evaluate|find)\s+)?$/i.test(message.slice(0, current?.start ?? start))
+
+    // An unknown name used as an operand stays in the run, so "x + 1" reports x instead of answering 1
+    const after = message.slice(end)
+    const hyphenated =
+      !!identifier && identifier.length > 1 && (/^-\w/.test(after) || /\w-$/.test(message.slice(0, start)))
+    const isOperand =
+      !!identifier &&
+      !isKnown &&
+      !hyphenated &&
+      ((current !== null && !current.endsWithValue) || /^\s*[+\-*/^×÷−·)]/.test(after))
+
+    if ((!number && !operator && !isKnown && !isOperand) || exclaims) {
+      current = null
+      skipWord = hyphenated && /^-/.test(after)
+      continue
+    }
+
+    if (!current) {
+      current = {
+        start,
+        end,
+        numbers: 0,
+        values: 0,
+        hasOperation: false,
+        endsWithValue: false,
+        openImplicitGroups: 0,
+      }
+      spans.push(current)
+    }
+    current.end = end
+    if (number) current.numbers++
+    if (number || isKnown) current.values++
+    if (isCall || (operator && !"(),".includes(operator))) current.hasOperation = true
+    // Implicit multiplication such as 2(3), counted once the group closes inside the same run
+    if (operator === "(" && current.endsWithValue) current.openImplicitGroups++
+    if (operator === ")" && current.openImplicitGroups > 0) current.hasOperation = true
+    current.endsWithValue = !!number || (isKnown && !isCall) || isOperand || operator === ")" || operator === "!"
+  }
+
+  // A lone constant next to a dash ("e-mail") is not a calculation
+  const candidates = spans.filter((span) => span.hasOperation && (span.numbers > 0 || span.values >= 2))
+  if (candidates.length === 0) return null
+
+  const best = candidates.reduce((a, b) => (b.end - b.start > a.end - a.start ? b : a))
+  return message.slice(best.start, best.end).trim()
+}
+
+// Rounds to the given number of significant digits; whole numbers stay whole in decimal mode
+export function formatMathNumber(value: number, mode: MathOutputMode, precision: number): string {
+  if (!Number.isFinite(value)) return String(value)
+
+  // Past 2^53 the digits after the precision are float noise, so padding with zeros would look exact
+  if (mode === "scientific" || Math.abs(value) > Number.MAX_SAFE_INTEGER) {
+    const [mantissa, exponent] = value.toExponential(precision - 1).split("e")
+    const trimmed = mantissa.includes(".") ? mantissa.replace(/\.?0+$/, "") : mantissa
+    return `${trimmed}e${exponent}`
+  }
+
+  if (Number.isSafeInteger(value)) return String(value)
+  return String(Number.parseFloat(value.toPrecision(precision)))
+}
+
+// Marks where parsing stopped, e.g. Unexpected ')' at position 5: "2 + ▸)3"
+export function formatParseError(expression: string, error: MathParseError | MathEvaluationError): string {
+  const position = Math.min(error.position, expression.length)
+  return `${error.message}: "${expression.slice(0, position)}▸${expression.slice(position)}"`
+}
+
+function nodePrecedence(node: MathNode, resolved?: Map<MathNode, number>): number {
+  const value = resolved?.get(node)
+  if (value !== undefined) {
+    return value < 0 ? UNARY_PRECEDENCE : 5
+  }
+
+  switch (node.type) {
+    case "unary":
+      return UNARY_PRECEDENCE
+    case "binary":
+      return BINARY_PRECEDENCE[node.operator]
+    default:
+      return 5
+  }
+}
+
+// Turns a tree back into text with only the parentheses it needs; resolved nodes print as their value
+export function formatExpression(node: MathNode, resolved?: Map<MathNode, number>): string {
+  const value = resolved?.get(node)
+  if (value !== undefined) {
+    return formatMathNumber(value, "decimal", 12)
+  }
+
+  const format = (child: MathNode) => formatExpression(child, resolved)
+  const precedenceOf = (child: MathNode) => nodePrecedence(child, resolved)
+
+  switch (node.type) {
+    case "number":
+      return node.raw
+
+    case "identifier":
+      return node.name
+
+    case "call":
+      // Written back the way it is usually typed: 5!, (n - 1)!
+      if (node.name === "factorial" && node.args.length === 1) {
+        const [argument] = node.args
+        return precedenceOf(argument) < 5 ? `(${format(argument)})!` : `${format(argument)}!`
+      }
+      return `${node.name}(${node.args.map(format).join(", ")})`
+
+    case "unary": {
+      const argument = format(node.argument)
+      const wrap = precedenceOf(node.argument) <= UNARY_PRECEDENCE && node.argument.type !== "number"
+      return wrap ? `${node.operator}(${argument})` : `${node.operator}${argument}`
+    }
+
+    case "binary": {
+      const precedence = BINARY_PRECEDENCE[node.operator]
+      const leftPrecedence = precedenceOf(node.left)
+      const rightPrecedence = precedenceOf(node.right)
+
+      const wrapLeft = node.operator === "^" ? leftPrecedence <= precedence : leftPrecedence < precedence
+      const wrapRight = node.operator === "^" ? rightPrecedence < UNARY_PRECEDENCE : rightPrecedence <= precedence
+
+      const left = wrapLeft ? `(${format(node.left)})` : format(node.left)
+      const right = wrapRight ? `(${format(node.right)})` : format(node.right)
+      return node.operator === "^" ? `${left}^${right}` : `${left} ${node.operator} ${right}`
+    }
+  }
+}
+
+// One-line version of the steps for plain-text replies: "4 * 2 = 8, then 3 + 8 = 11"
+export function summarizeSteps(explanation: MathExplanation): string {
+  return explanation.steps
+    .map((step) => `${step.operation} = ${formatMathNumber(step.result, "decimal", 12)}`)
+    .join(", then ")
+}
+
+// True when the tree calls a function the predicate accepts, e.g. to spot trig or integer-only functions
+export function containsCall(node: MathNode, matches: (name: string) => boolean): boolean {
+  switch (node.type) {
+    case "unary":
+      return containsCall(node.argument, matches)
+    case "binary":
+      return containsCall(node.left, matches) || containsCall(node.right, matches)
+    case "call":
+      return matches(node.name) || node.args.some((arg) => containsCall(arg, matches))
+    default:
+      return false
+  }
+}
+
+// Box-drawing outline of the tree, one line per node
+export function formatParseTree(node: MathNode): string[] {
+  const label = (current: MathNode): string => {
+    switch (current.type) {
+      case "number":
+        return current.raw
+      case "identifier":
+        return current.name
+      case "unary":
+        return current.operator === "-" ? "negate" : "plus"
+      case "binary":
+        return current.operator
+      case "call":
+        return `${current.name}()`
+    }
+  }
+
+  const children = (current: MathNode): MathNode[] => {
+    switch (current.type) {
+      case "unary":
+        return [current.argument]
+      case "binary":
+        return [current.left, current.right]
+      case "call":
+        return current.args
+      default:
+        return []
+    }
+  }
+
+  const lines: string[] = []
+  const visit = (current: MathNode, prefix: string, childPrefix: string) => {
+    lines.push(`${prefix}${label(current)}`)
+    const nested = children(current)
+    nested.forEach((child, i) => {
+      const last = i === nested.length - 1
+      visit(child, `${childPrefix}${last ? "└─ " : "├─ "}`, `${childPrefix}${last ? "   " : "│  "}`)
+    })
+  }
+  visit(node, "", "")
+  return lines
+}
+
+function collectNames(node: MathNode, identifiers: Set<string>, calls: Map<string, number>): void {
+  switch (node.type) {
+    case "identifier":
+      identifiers.add(node.name)
+      break
+    case "unary":
+      collectNames(node.argument, identifiers, calls)
+      break
+    case "binary":
+      collectNames(node.left, identifiers, calls)
+      collectNames(node.right, identifiers, calls)
+      break
+    case "call":
+      calls.set(node.name, node.args.length)
+      node.args.forEach((arg) => collectNames(arg, identifiers, calls))
+      break
+  }
+}
+
+// Returns a reason the definition can't be used, or null when it is valid
+export function validateUserFunction(
+  name: string,
+  params: string[],
+  body: MathNode,
+  functions: Map<string, MathFunction>,
+): string | null {
+  const seen = new Set<string>()
+  for (const param of params) {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(param)) return `'${param}' is not a valid parameter name`
+    if (MATH_CONSTANTS[param.toLowerCase()] !== undefined) return `'${param}' is a constant and can't be a parameter`
+    if (seen.has(param)) return `Parameter '${param}' is listed twice`
+    seen.add(param)
+  }
+
+  const identifiers = new Set<string>()
+  const calls = new Map<string, number>()
+  collectNames(body, identifiers, calls)
+
+  for (const identifier of identifiers) {
+    if (!seen.has(identifier) && MATH_CONSTANTS[identifier.toLowerCase()] === undefined) {
+      return `'${identifier}' is not a parameter of ${name}`
+    }
+  }
+
+  for (const [callee, argCount] of calls) {
+    if (callee === name) return `${name} can't call itself`
+
+    const mathFunc = functions.get(callee)
+    if (!mathFunc) return `Unknown function '${callee}'`
+    if (mathFunc.definition && mathFunc.definition.params.length !== argCount) {
+      return `${callee} expects ${mathFunc.definition.params.length} argument(s)`
+    }
+  }
+
+  return null
+}
+
+// Guards against mutually recursive user functions (f calls g calls f)
+const MAX_USER_FUNCTION_DEPTH = 64
+let userFunctionDepth = 0
+
+// Rebuilds a callable MathFunction from its serialized definition
+export function createUserFunction(
+  name: string,
+  definition: UserFunctionDefinition,
+  functions: Map<string, MathFunction>,
+): MathFunction {
+  const body = new MathExpressionParser().parse(definition.expression)
+  const { params } = definition
+
+  return {
+    name,
+    description: `User-defined: ${name}(${params.join(", ")}) = ${definition.expression}`,
+    examples: [`${name}(${params.map(() => "2").join(", ")})`],
+    definition,
+    func: (...args: number[]) => {
+      if (args.length !== params.length) {
+        return `${name} expects ${params.length} argument(s)`
+      }
+      if (userFunctionDepth >= MAX_USER_FUNCTION_DEPTH) {
+        return `${name} calls itself too deeply`
+      }
+
+      userFunctionDepth++
+      try {
+        const variables = new Map(params.map((param, i) => [param, args[i]]))
+        return new MathEvaluator({ functions, variables }).evaluate(body)
+      } catch (error) {
+        if (error instanceof MathEvaluationError) return error.message
+        throw error
+      } finally {
+        userFunctionDepth--
+      }
+    },
+  }
+}
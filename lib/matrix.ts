@@ -0,0 +1,380 @@
+export type Matrix = number[][]
+export type Vector = number[]
+export type MatrixValue = Matrix | Vector
+
+export type MatrixOperation =
+  | "add"
+  | "subtract"
+  | "multiply"
+  | "scale"
+  | "transpose"
+  | "determinant"
+  | "inverse"
+  | "rank"
+  | "solve"
+  | "dot"
+  | "cross"
+
+export interface MatrixQuery {
+  operation: MatrixOperation
+  operands: MatrixValue[]
+  scalar?: number
+}
+
+export interface MatrixResult {
+  operation: MatrixOperation
+  value: number | MatrixValue
+}
+
+export class MatrixError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "MatrixError"
+  }
+}
+
+const EPSILON = 1e-9
+const MAX_DIMENSION = 12
+
+export function isMatrix(value: MatrixValue): value is Matrix {
+  return Array.isArray(value[0])
+}
+
+export function identity(size: number): Matrix {
+  return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)))
+}
+
+export function transpose(matrix: Matrix): Matrix {
+  return matrix[0].map((_, column) => matrix.map((row) => row[column]))
+}
+
+// Plain triple loop, shared with the neural engine's CPU path
+export function multiplyMatrices(a: Matrix, b: Matrix): Matrix {
+  const result: Matrix = []
+  for (let i = 0; i < a.length; i++) {
+    result[i] = []
+    for (let j = 0; j < b[0].length; j++) {
+      let sum = 0
+      for (let k = 0; k < b.length; k++) {
+        sum += a[i][k] * b[k][j]
+      }
+      result[i][j] = sum
+    }
+  }
+  return result
+}
+
+// Reduced row echelon form of an augmented matrix (the last column holds the constants)
+export function rowReduce(input: Matrix): { rank: number; consistent: boolean; reduced: Matrix } {
+  const matrix = input.map((row) => [...row])
+  const columns = matrix[0].length - 1
+  let rank = 0
+
+  for (let column = 0; column < columns && rank < matrix.length; column++) {
+    let pivot = rank
+    for (let row = rank + 1; row < matrix.length; row++) {
+      if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row
+    }
+    if (Math.abs(matrix[pivot][column]) < EPSILON) continue
+
+    ;[matrix[rank], matrix[pivot]] = [matrix[pivot], matrix[rank]]
+    const divisor = matrix[rank][column]
+    matrix[rank] = matrix[rank].map((value) => value / divisor)
+
+    for (let row = 0; row < matrix.length; row++) {
+      if (row === rank) continue
+      const factor = matrix[row][column]
+      matrix[row] = matrix[row].map((value, i) => value - factor * matrix[rank][i])
+    }
+    rank++
+  }
+
+  const consistent = matrix.every(
+    (row) => row.slice(0, columns).some((value) => Math.abs(value) > EPSILON) || Math.abs(row[columns]) < EPSILON,
+  )
+  return { rank, consistent, reduced: matrix }
+}
+
+function requireSquare(matrix: Matrix, operation: string): void {
+  if (matrix.length !== matrix[0].length) {
+    throw new MatrixError(`${operation} needs a square matrix, got ${describeSize(matrix)}`)
+  }
+}
+
+// Gaussian elimination with partial pivoting
+export function determinant(matrix: Matrix): number {
+  requireSquare(matrix, "The determinant")
+  const rows = matrix.map((row) => [...row])
+  const size = rows.length
+  let result = 1
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row
+    }
+    if (Math.abs(rows[pivot][column]) < EPSILON) return 0
+
+    if (pivot !== column) {
+      ;[rows[column], rows[pivot]] = [rows[pivot], rows[column]]
+      result = -result
+    }
+    result *= rows[column][column]
+
+    for (let row = column + 1; row < size; row++) {
+      const factor = rows[row][column] / rows[column][column]
+      for (let i = column; i < size; i++) rows[row][i] -= factor * rows[column][i]
+    }
+  }
+  return result
+}
+
+export function inverse(matrix: Matrix): Matrix {
+  requireSquare(matrix, "The inverse")
+  const size = matrix.length
+  const unit = identity(size)
+
+  // Reduce [A | I] one identity column at a time so rowReduce keeps its augmented shape
+  const columns = unit.map((_, column) => {
+    const { rank, reduced } = rowReduce(matrix.map((row, i) => [...row, unit[i][column]]))
+    if (rank < size) {
+      throw new MatrixError("The matrix is singular (determinant 0), so it has no inverse")
+    }
+    return reduced.map((row) => row[size])
+  })
+  return transpose(columns)
+}
+
+export function rank(matrix: Matrix): number {
+  return rowReduce(matrix.map((row) => [...row, 0])).rank
+}
+
+// Solves Ax = b for a unique x
+export function solveLinearSystem(a: Matrix, b: Vector): Vector {
+  if (a.length !== b.length) {
+    throw new MatrixError(`A has ${a.length} rows but b has ${b.length} entries`)
+  }
+
+  const unknowns = a[0].length
+  const { rank: systemRank, consistent, reduced } = rowReduce(a.map((row, i) => [...row, b[i]]))
+  if (!consistent) {
+    throw new MatrixError("The system has no solution")
+  }
+  if (systemRank < unknowns) {
+    throw new MatrixError(`The system has infinitely many solutions (rank ${systemRank} for ${unknowns} unknowns)`)
+  }
+  return reduced.slice(0, unknowns).map((row) => row[unknowns])
+}
+
+export function dot(a: Vector, b: Vector): number {
+  if (a.length !== b.length) {
+    throw new MatrixError(`Vectors have different lengths (${a.length} and ${b.length})`)
+  }
+  return a.reduce((sum, value, i) => sum + value * b[i], 0)
+}
+
+export function cross(a: Vector, b: Vector): Vector {
+  if (a.length !== 3 || b.length !== 3) {
+    throw new MatrixError("The cross product needs two 3-component vectors")
+  }
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+}
+
+export function describeSize(value: MatrixValue): string {
+  return isMatrix(value) ? `${value.length}×${value[0].length}` : `${value.length}-vector`
+}
+
+// Vectors act as columns on the right of a product and as rows on the left
+function asMatrix(value: MatrixValue, side: "left" | "right"): Matrix {
+  if (isMatrix(value)) return value
+  return side === "left" ? [value] : value.map((entry) => [entry])
+}
+
+function flatten(result: Matrix, left: MatrixValue, right: MatrixValue): MatrixValue {
+  if (!isMatrix(right)) return result.map((row) => row[0])
+  if (!isMatrix(left)) return result[0]
+  return result
+}
+
+// "[[1,2],[3,4]]", "[1, 2; 3, 4]" or "[1 2 3]"; returns null when the text isn't a numeric literal
+export function parseMatrixLiteral(text: string): MatrixValue | null {
+  const trimmed = text.trim()
+  if (!trimmed.startsWith("[") || !trimmed.endsWith("]")) return null
+  const inner = trimmed.slice(1, -1).trim()
+
+  const parseRow = (row: string): Vector | null => {
+    const parts = row
+      .trim()
+      .split(/\s*,\s*|\s+/)
+      .filter((part) => part !== "")
+    const values = parts.map((part) => Number(part))
+    return values.length > 0 && values.every((value) => Number.isFinite(value)) ? values : null
+  }
+
+  let rows: (Vector | null)[]
+  if (inner.includes("[")) {
+    const groups = inner.match(/\[[^[\]]*\]/g)
+    // Anything besides bracketed rows and commas means the literal is malformed
+    if (!groups || inner.replace(/\[[^[\]]*\]/g, "").replace(/[\s,]/g, "") !== "") return null
+    rows = groups.map((group) => parseRow(group.slice(1, -1)))
+  } else if (inner.includes(";")) {
+    rows = inner.split(";").map(parseRow)
+  } else {
+    return parseRow(inner)
+  }
+
+  if (rows.some((row) => row === null)) return null
+  const matrix = rows as Matrix
+  if (matrix.some((row) => row.length !== matrix[0].length)) return null
+  return matrix
+}
+
+interface Literal {
+  value: MatrixValue
+  start: number
+  end: number
+}
+
+// Top-level [...] groups in a sentence
+function findLiterals(message: string): Literal[] | null {
+  const literals: Literal[] = []
+  let depth = 0
+  let start = 0
+
+  for (let i = 0; i < message.length; i++) {
+    if (message[i] === "[") {
+      if (depth === 0) start = i
+      depth++
+    } else if (message[i] === "]") {
+      depth--
+      if (depth < 0) return null
+      if (depth === 0) {
+        const value = parseMatrixLiteral(message.slice(start, i + 1))
+        if (!value) return null
+        literals.push({ value, start, end: i + 1 })
+      }
+    }
+  }
+  return depth === 0 ? literals : null
+}
+
+export class MatrixCalculator {
+  // Reads requests such as "det [[1,2],[3,4]]", "[[1,2],[3,4]] * [[5,6],[7,8]]" or "solve [[2,1],[1,3]] x = [3,5]"
+  public parseQuery(message: string): MatrixQuery | null {
+    const literals = findLiterals(message)
+    if (!literals || literals.length === 0 || literals.length > 2) return null
+
+    const lower = message.toLowerCase()
+    const operands = literals.map((literal) => literal.value)
+
+    if (literals.length === 1) {
+      const [literal] = literals
+      const before = lower.slice(0, literal.start)
+      const after = lower.slice(literal.end)
+
+      if (/\bdet(?:erminant)?\b/.test(before)) return { operation: "determinant", operands }
+      if (/\binv(?:erse)?\b/.test(before) || /^\s*\^\s*\(?-1\)?/.test(after)) return { operation: "inverse", operands }
+      if (/\btranspose\b/.test(before) || /^\s*(?:\^\s*t\b|')/.test(after)) return { operation: "transpose", operands }
+      if (/\brank\b/.test(before)) return { operation: "rank", operands }
+
+      const scalarBefore = before.match(/(-?\d+(?:\.\d+)?)\s*(?:\*|×|times)?\s*$/)
+      const scalarAfter = after.match(/^\s*(?:\*|×|times)\s*(-?\d+(?:\.\d+)?)/)
+      const scalar = scalarBefore ?? scalarAfter
+      if (scalar) return { operation: "scale", operands, scalar: Number.parseFloat(scalar[1]) }
+      return null
+    }
+
+    const [first, second] = literals
+    const between = lower.slice(first.end, second.start).trim()
+    const bothVectors = !isMatrix(first.value) && !isMatrix(second.value)
+
+    if (/\bsolve\b/.test(lower) || /^x\s*=$/.test(between)) return { operation: "solve", operands }
+    if (/\bdot\b/.test(lower) || (bothVectors && (between === "·" || between === "."))) {
+      return { operation: "dot", operands }
+    }
+    if (/\bcross\b/.test(lower) || (bothVectors && (between === "×" || between === "x"))) {
+      return { operation: "cross", operands }
+    }
+    if (between === "+" || between === "plus" || (/\b(?:add|sum)\b/.test(lower) && /^(?:and|to|\+)$/.test(between))) {
+      return { operation: "add", operands }
+    }
+    if (between === "-" || between === "−" || between === "minus") return { operation: "subtract", operands }
+    if (/^(?:\*|×|x|·|times|by|and)?$/.test(between) && (between !== "and" || /\bmultiply\b/.test(lower))) {
+      return { operation: "multiply", operands }
+    }
+    return null
+  }
+
+  public evaluate({ operation, operands, scalar }: MatrixQuery): MatrixResult {
+    const [first, second] = operands
+    operands.forEach((operand) => {
+      const rows = isMatrix(operand) ? operand.length : 1
+      if (rows > MAX_DIMENSION || (isMatrix(operand) ? operand[0].length : operand.length) > MAX_DIMENSION) {
+        throw new MatrixError(`Matrices up to ${MAX_DIMENSION}×${MAX_DIMENSION} are supported`)
+      }
+    })
+
+    switch (operation) {
+      case "add":
+      case "subtract": {
+        if (describeSize(first) !== describeSize(second)) {
+          throw new MatrixError(`Can't ${operation} a ${describeSize(first)} and a ${describeSize(second)}`)
+        }
+        const sign = operation === "add" ? 1 : -1
+        const combine = (a: number, b: number) => a + sign * b
+        const value = isMatrix(first)
+          ? first.map((row, i) => row.map((entry, j) => combine(entry, (second as Matrix)[i][j])))
+          : first.map((entry, i) => combine(entry, (second as Vector)[i]))
+        return { operation, value }
+      }
+
+      case "multiply": {
+        const left = asMatrix(first, "left")
+        const right = asMatrix(second, "right")
+        if (left[0].length !== right.length) {
+          throw new MatrixError(
+            `Can't multiply a ${describeSize(first)} by a ${describeSize(second)}: inner dimensions must match`,
+          )
+        }
+        return { operation, value: flatten(multiplyMatrices(left, right), first, second) }
+      }
+
+      case "scale": {
+        const value = isMatrix(first)
+          ? first.map((row) => row.map((entry) => entry * scalar!))
+          : first.map((entry) => entry * scalar!)
+        return { operation, value }
+      }
+
+      case "transpose":
+        return { operation, value: transpose(asMatrix(first, "left")) }
+
+      case "determinant":
+        return { operation, value: determinant(asMatrix(first, "left")) }
+
+      case "inverse":
+        return { operation, value: inverse(asMatrix(first, "left")) }
+
+      case "rank":
+        return { operation, value: rank(asMatrix(first, "left")) }
+
+      case "solve": {
+        if (!isMatrix(first)) {
+          throw new MatrixError("Write the system as A x = b with A a matrix, e.g. solve [[2,1],[1,3]] x = [3,5]")
+        }
+        const b = isMatrix(second) ? second.map((row) => row[0]) : second
+        if (isMatrix(second) && second[0].length !== 1) {
+          throw new MatrixError("b must be a vector or a single column")
+        }
+        return { operation, value: solveLinearSystem(first, b) }
+      }
+
+      case "dot":
+      case "cross":
+        if (isMatrix(first) || isMatrix(second)) {
+          throw new MatrixError(`The ${operation} product works on vectors like [1, 2, 3]`)
+        }
+        return { operation, value: operation === "dot" ? dot(first, second) : cross(first, second) }
+    }
+  }
+}
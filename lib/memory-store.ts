@@ -0,0 +1,755 @@
+// Single-valued slots hold one current value; the others collect one entry per item. Likes and dislikes are the
+// two sentiments of one preference per item, so saying the opposite moves the entry rather than adding another
+export type MemorySlot = "name" | "occupation" | "location" | "likes" | "dislikes" | "fact"
+
+export interface MemoryRevision {
+  value: string
+  timestamp: number
+  // Set when a preference changed sentiment
+  slot?: MemorySlot
+}
+
+export interface MemoryEntry {
+  key: string
+  value: string
+  timestamp: number
+  importance: number
+  // Entries saved before slots existed have neither field and are treated as facts
+  slot?: MemorySlot
+  history?: MemoryRevision[]
+  // How often the entry has been recalled in an answer, and when it last was
+  recallCount?: number
+  lastRecalled?: number
+  // Pinned entries never decay and are never evicted
+  pinned?: boolean
+  // Provenance: the statement the entry was read from, the id of that user message, the pattern that matched
+  // it and how sure that pattern is
+  source?: string
+  sourceMessageId?: string
+  pattern?: string
+  confidence?: number
+}
+
+// Points an answer back at the user message a memory came from
+export interface MemoryCitation {
+  messageId: string
+  text: string
+}
+
+export interface MemoryAnswer {
+  content: string
+  // The entries the answer was built from, for citing
+  entries: MemoryEntry[]
+}
+
+// Changes the memory inspector can make to one entry
+export interface MemoryEdit {
+  value?: string
+  importance?: number
+  pinned?: boolean
+}
+
+export interface MemoryStoreOptions {
+  capacity?: number
+  halfLifeDays?: number
+}
+
+export interface MemoryUpdate {
+  entry: MemoryEntry
+  // The value this replaced, when a single-valued slot changed
+  previous?: string
+  // The sentiment this replaced, when a preference flipped between likes and dislikes
+  previousSlot?: MemorySlot
+  // False when the statement repeated something already stored
+  changed: boolean
+}
+
+export interface MemoryMatch {
+  entry: MemoryEntry
+  score: number
+}
+
+export interface ForgetResult {
+  removed: MemoryEntry[]
+  // Equally good matches left in place until the user says which one they meant
+  ambiguous: MemoryEntry[]
+}
+
+export type ForgetCommand = { kind: "everything" } | { kind: "about"; query: string } | { kind: "that"; query: string }
+
+export class MemoryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "MemoryError"
+  }
+}
+
+const SINGLE_SLOTS: MemorySlot[] = ["name", "occupation", "location"]
+const PREFERENCE_SLOTS: MemorySlot[] = ["likes", "dislikes"]
+const MAX_HISTORY = 10
+const DEFAULT_CAPACITY = 200
+const DEFAULT_HALF_LIFE_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const IMPORTANCE: Record<MemorySlot, number> = {
+  name: 0.9,
+  occupation: 0.7,
+  location: 0.7,
+  likes: 0.6,
+  dislikes: 0.6,
+  fact: 0.8,
+}
+
+// Statements that fill a slot; the capture is cut at the end of its clause. Confidence is how rarely the
+// pattern misfires: "I'm a ..." catches plenty that isn't a job
+const SLOT_PATTERNS: { slot: MemorySlot; pattern: RegExp; confidence: number }[] = [
+  { slot: "name", pattern: /\b(?:my name is|my name's|call me|i'm called|i am called)\s+(.+)/i, confidence: 0.95 },
+  {
+    slot: "dislikes",
+    pattern: /\bi\s+(?:really\s+)?(?:don't|do not|didn't|never)\s+(?:like|enjoy|love)\s+(.+)/i,
+    confidence: 0.9,
+  },
+  {
+    slot: "dislikes",
+    pattern: /\bi\s+(?:really\s+)?(?:dislike|hate|can't stand|cannot stand|detest)\s+(.+)/i,
+    confidence: 0.9,
+  },
+  { slot: "likes", pattern: /\bi\s+(?:really\s+|also\s+)?(?:like|love|enjoy|adore)\s+(.+)/i, confidence: 0.85 },
+  { slot: "likes", pattern: /\bi(?:'m| am)\s+(?:a\s+)?(?:big\s+|huge\s+)?fan of\s+(.+)/i, confidence: 0.85 },
+  {
+    slot: "occupation",
+    pattern: /\b(?:i work as|my job is|my occupation is|i'm employed as)\s+(.+)/i,
+    confidence: 0.9,
+  },
+  { slot: "occupation", pattern: /\bi(?:'m| am)\s+(?:now\s+)?(an?\s+.+)/i, confidence: 0.6 },
+  { slot: "location", pattern: /\bi\s+(?:live|am living|'m living|reside)\s+in\s+(.+)/i, confidence: 0.9 },
+  { slot: "location", pattern: /\bi(?:'ve| have)?\s+(?:just\s+)?moved to\s+(.+)/i, confidence: 0.85 },
+]
+
+// "remember that ..." is an explicit request, so whatever it stores is certain
+const REMEMBER_PATTERN = /\b(?:remember|never forget|don't forget|do not forget) (?:that )?(.+)/i
+
+// "I'm a bit tired" or "I'm a fan of" aren't jobs
+const NOT_OCCUPATIONS = /^(?:an?\s+)?(?:bit|little|lot|fan|big fan|huge fan|kind|sort|good|great|bad|huge|big|real|total|quick)\b/i
+// "do I like pizza?", "do I hate olives?"
+const PREFERENCE_QUESTION =
+  /^\s*(?:do|did) i (?:(?:really|still) )?(like|love|enjoy|hate|dislike|(?:not|don't) like) (.+?)\s*\??\s*$/i
+
+// "I don't like pizza anymore" is about pizza
+const PREFERENCE_QUALIFIERS =
+  /\s+(?:any ?more|now|nowadays|these days|either|too|as well|a lot|so much|very much|much|at all|anyway)$/i
+
+const PRONOUNS = /^(?:it|that|this|you|them|him|her|those|these)$/i
+
+const QUESTION_PATTERNS: { slot: MemorySlot | "everything"; pattern: RegExp }[] = [
+  { slot: "name", pattern: /\b(?:what(?:'s| is) my name|do you (?:know|remember) my name|who am i)\b/i },
+  { slot: "occupation", pattern: /\b(?:what(?:'s| is) my (?:job|occupation|profession)|what do i do for (?:a )?(?:living|work)|what do i do)\b/i },
+  { slot: "location", pattern: /\b(?:where do i live|where am i living|where(?:'s| is) my home|where did i move)\b/i },
+  { slot: "dislikes", pattern: /\bwhat (?:don't|do not) i (?:like|enjoy)|what do i (?:dislike|hate)\b/i },
+  { slot: "likes", pattern: /\bwhat do i (?:like|love|enjoy)|what are my (?:likes|interests|hobbies)\b/i },
+  { slot: "everything", pattern: /\bwhat do you (?:know|remember) about me\b|\btell me what you know about me\b/i },
+]
+
+// Trims a captured value to its own clause: "Sam and I like pizza" -> "Sam"
+function clause(text: string): string {
+  return text
+    .split(/\s*[.!?;]\s|\s*[.!?;]$|,\s*(?:but|and|so)\s|\s+(?:but|because|so|and i|and my)\s/i)[0]
+    .replace(/[.!?,;\s]+$/, "")
+    .trim()
+}
+
+// Words that say which slot a forget request is about: "forget my job", "forget what I like"
+const SLOT_WORDS: Record<MemorySlot, RegExp> = {
+  name: /\b(?:name|called)\b/i,
+  occupation: /\b(?:job|work|occupation|profession|career)\b/i,
+  location: /\b(?:live|living|home|city|location|address|moved)\b/i,
+  likes: /\b(?:like|likes|love|enjoy|fan)\b/i,
+  dislikes: /\b(?:don't like|do not like|dislike|hate|can't stand)\b/i,
+  fact: /$^/,
+}
+
+const FILLER_WORDS = new Set([
+  "i", "me", "my", "that", "the", "a", "an", "about", "what", "it", "this", "information", "is", "am", "are",
+  "was", "do", "you", "said", "told", "just", "of", "to", "in", "at", "thing", "things", "one",
+])
+
+// Any slot phrase at all; leftmost wins, so "don't like" goes before "like" can
+const SLOT_PHRASES = new RegExp(
+  Object.values(SLOT_WORDS)
+    .map((pattern) => pattern.source)
+    .join("|"),
+  "gi",
+)
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^(?:the|a|an)\s+/, "")
+    .replace(/[^\w\s'-]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+// Content words for matching, crudely stemmed so "pizzas" finds "pizza" and "moving" finds "moved"
+export function keywords(text: string): string[] {
+  return normalize(text)
+    .split(" ")
+    .filter((word) => word !== "" && !FILLER_WORDS.has(word))
+    .map((word) => (word.length > 3 ? word.replace(/(?:ing|ed|es|e|s)$/, "") : word))
+}
+
+// What a forget request names beyond the slot, in the user's words: "forget that I like pizza" -> "pizza"
+export function forgetTopic(query: string): string {
+  return query
+    .replace(SLOT_PHRASES, " ")
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\w'-]/g, ""))
+    .filter((word) => word !== "" && !FILLER_WORDS.has(word.toLowerCase()))
+    .join(" ")
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\b([a-z])/g, (letter) => letter.toUpperCase())
+}
+
+// "pizza, pasta and sushi" -> three items
+function splitItems(text: string): string[] {
+  return text
+    .split(/\s*,\s*(?:and\s+)?|\s+and\s+/i)
+    .map((item) => item.trim())
+    .filter((item) => item !== "" && !PRONOUNS.test(item))
+}
+
+// Repeats a user's words back to them: "my sister is Anna" -> "your sister is Anna"
+function secondPerson(text: string): string {
+  return text
+    .replace(/\bI am\b|\bI'm\b/gi, "you're")
+    .replace(/\bmy\b/gi, "your")
+    .replace(/\bmine\b/gi, "yours")
+    .replace(/\b(?:I|me)\b/g, "you")
+}
+
+export function listText(items: string[]): string {
+  return items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`
+}
+
+// Preferences share a key whatever their sentiment, so "I like X" and "I don't like X" land on one entry
+function keyFor(slot: MemorySlot, value: string): string {
+  if (SINGLE_SLOTS.includes(slot)) return slot
+  const item = normalize(value).replace(/\s+/g, "_")
+  return PREFERENCE_SLOTS.includes(slot) ? `preference:${item}` : `${slot}:${item}`
+}
+
+// One entry as a clause addressed to the user: "you live in Paris"
+export function describeMemory(entry: MemoryEntry): string {
+  switch (entry.slot) {
+    case "name":
+      return `your name is ${entry.value}`
+    case "occupation":
+      return `you're ${entry.value}`
+    case "location":
+      return `you live in ${entry.value}`
+    case "likes":
+      return `you like ${entry.value}`
+    case "dislikes":
+      return `you don't like ${entry.value}`
+    default:
+      return secondPerson(entry.value)
+  }
+}
+
+export class MemoryStore {
+  private entries: Map<string, MemoryEntry> = new Map()
+  private capacity: number
+  private halfLifeDays: number
+
+  constructor(options: MemoryStoreOptions = {}) {
+    this.capacity = options.capacity ?? DEFAULT_CAPACITY
+    this.halfLifeDays = options.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS
+  }
+
+  public get size(): number {
+    return this.entries.size
+  }
+
+  public getEntries(): MemoryEntry[] {
+    return Array.from(this.entries.values())
+  }
+
+  // Same [key, entry] pairs the systems have always persisted
+  public serialize(): [string, MemoryEntry][] {
+    return Array.from(this.entries.entries())
+  }
+
+  public load(data: unknown): void {
+    if (!Array.isArray(data)) return
+    this.entries = new Map()
+    data.forEach((item) => {
+      if (Array.isArray(item) && item[1] && typeof item[1].value === "string") {
+        const entry = item[1] as MemoryEntry
+        // Likes and dislikes used to be keyed separately; the newer statement wins
+        if (entry.slot && PREFERENCE_SLOTS.includes(entry.slot)) {
+          entry.key = keyFor(entry.slot, entry.value)
+          const other = this.entries.get(entry.key)
+          if (other && other.timestamp > entry.timestamp) return
+        }
+        this.entries.set(entry.key ?? String(item[0]), entry)
+      }
+    })
+    this.evict()
+  }
+
+  public getCapacity(): number {
+    return this.capacity
+  }
+
+  // Shrinking the cap evicts straight away; returns what was dropped
+  public setCapacity(capacity: number): MemoryEntry[] {
+    this.capacity = Math.max(1, Math.floor(capacity))
+    return this.evict()
+  }
+
+  // A new value is recorded like a correction; list slots move to the key the new value belongs under
+  public edit(key: string, changes: MemoryEdit, timestamp = Date.now()): MemoryEntry | null {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    let edited = entry
+    const value = changes.value?.trim()
+    if (value && value !== entry.value) {
+      const slot = this.slotOf(entry)
+      if (SINGLE_SLOTS.includes(slot)) {
+        edited = this.store(slot, value, timestamp).entry
+      } else {
+        // Renaming onto another memory would silently overwrite its history, importance and pin
+        const other = this.entries.get(keyFor(slot, value))
+        if (other && other.key !== key) {
+          throw new MemoryError(`I already remember that ${describeMemory(other)}. Edit or delete that memory instead.`)
+        }
+        this.entries.delete(key)
+        edited = this.store(slot, value, timestamp).entry
+        Object.assign(edited, {
+          importance: entry.importance,
+          history: [...(entry.history ?? []), { value: entry.value, timestamp: entry.timestamp }].slice(-MAX_HISTORY),
+          recallCount: entry.recallCount,
+          lastRecalled: entry.lastRecalled,
+          pinned: entry.pinned,
+        })
+      }
+      // store() keeps the old spelling when only case or punctuation changed; provenance stays with the entry
+      edited.value = value
+      Object.assign(edited, {
+        source: entry.source,
+        sourceMessageId: entry.sourceMessageId,
+        pattern: entry.pattern,
+        confidence: entry.confidence,
+      })
+    }
+    if (changes.importance !== undefined) {
+      edited.importance = Math.min(1, Math.max(0, changes.importance))
+    }
+    if (changes.pinned !== undefined) {
+      edited.pinned = changes.pinned
+    }
+    return edited
+  }
+
+  public pin(key: string, pinned = true): boolean {
+    const entry = this.entries.get(key)
+    if (!entry) return false
+    entry.pinned = pinned
+    return true
+  }
+
+  // Importance fades with a half-life from the last time the entry was stored or recalled; each recall adds a
+  // little back, so facts the user keeps asking about outlast ones mentioned once
+  public retention(entry: MemoryEntry, now = Date.now()): number {
+    const lastSeen = Math.max(entry.timestamp, entry.lastRecalled ?? 0)
+    const recency = entry.pinned ? 1 : Math.pow(0.5, Math.max(0, now - lastSeen) / (this.halfLifeDays * DAY_MS))
+    return entry.importance * (0.3 + 0.7 * recency) + 0.1 * Math.log2(1 + (entry.recallCount ?? 0))
+  }
+
+  public recall(entries: MemoryEntry[], now = Date.now()): void {
+    entries.forEach((entry) => {
+      entry.recallCount = (entry.recallCount ?? 0) + 1
+      entry.lastRecalled = now
+    })
+  }
+
+  // Drops the lowest-retention unpinned entries until the store fits its cap
+  private evict(now = Date.now()): MemoryEntry[] {
+    const excess = this.entries.size - this.capacity
+    if (excess <= 0) return []
+
+    const candidates = this.getEntries()
+      .filter((entry) => !entry.pinned)
+      .sort((a, b) => this.retention(a, now) - this.retention(b, now))
+    return this.remove(candidates.slice(0, excess))
+  }
+
+  // Entries relevant to a question, best first: relevance from rank() weighted by retention
+  public search(query: string, now = Date.now()): MemoryMatch[] {
+    const queryLower = query.toLowerCase()
+    const relevance = new Map(this.rank(query).map((match) => [match.entry.key, match.score]))
+
+    return this.getEntries()
+      .map((entry) => {
+        // Slot keys ("name", "likes:pizza") aren't words the user would type; older entries keyed by value are
+        const legacyKey = entry.slot ? "" : entry.key.replace(/_/g, " ")
+        const legacyScore = legacyKey && queryLower.includes(legacyKey) ? 2 : 0
+        return { entry, score: ((relevance.get(entry.key) ?? 0) + legacyScore) * this.retention(entry, now) }
+      })
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+  }
+
+  public clear(): number {
+    const count = this.entries.size
+    this.entries.clear()
+    return count
+  }
+
+  public remove(entries: MemoryEntry[]): MemoryEntry[] {
+    return entries.filter((entry) => this.entries.delete(entry.key))
+  }
+
+  // Scores each entry against a description of it: naming the slot is worth 1, naming the whole value 2
+  public rank(query: string): MemoryMatch[] {
+    const words = keywords(query)
+    const slots = (Object.keys(SLOT_WORDS) as MemorySlot[]).filter((slot) => SLOT_WORDS[slot].test(query))
+    // "don't like olives" also says "like"
+    const likes = slots.indexOf("likes")
+    if (slots.includes("dislikes") && likes >= 0) slots.splice(likes, 1)
+
+    return this.getEntries()
+      .map((entry) => {
+        const valueWords = keywords(entry.value)
+        const overlap = valueWords.filter((word) => words.includes(word)).length
+        const slotScore = slots.includes(this.slotOf(entry)) ? 1 : 0
+        return { entry, score: slotScore + (valueWords.length > 0 ? (2 * overlap) / valueWords.length : 0) }
+      })
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score || b.entry.timestamp - a.entry.timestamp)
+  }
+
+  // Removes what the query describes. With everyMatch unset, a tie between entries the query only partly names
+  // is left for the caller to confirm. An empty query means whatever was read from the previous message, if any.
+  public forget(query: string, everyMatch = false, previousMessageId?: string): ForgetResult {
+    if (keywords(query).length === 0) {
+      const fromPrevious = this.getEntries().filter(
+        (entry) => previousMessageId !== undefined && entry.sourceMessageId === previousMessageId,
+      )
+      return { removed: this.remove(fromPrevious), ambiguous: [] }
+    }
+
+    // Words beyond the slot have to be in the value: "I like pizza" mustn't match every other like
+    const topic = keywords(forgetTopic(query))
+    const matches = this.rank(query).filter(
+      (match) => topic.length === 0 || keywords(match.entry.value).some((word) => topic.includes(word)),
+    )
+    if (matches.length === 0) return { removed: [], ambiguous: [] }
+    if (everyMatch) return { removed: this.remove(matches.map((match) => match.entry)), ambiguous: [] }
+
+    // Entries whose value the query spells out in full ("pizza and pasta") are unambiguous
+    const named = matches.filter((match) => match.score >= 2)
+    if (named.length > 0) return { removed: this.remove(named.map((match) => match.entry)), ambiguous: [] }
+
+    const best = matches.filter((match) => match.score === matches[0].score).map((match) => match.entry)
+    return best.length === 1 ? { removed: this.remove(best), ambiguous: [] } : { removed: [], ambiguous: best }
+  }
+
+  public slotOf(entry: MemoryEntry): MemorySlot {
+    return entry.slot ?? "fact"
+  }
+
+  public getSlot(slot: MemorySlot): MemoryEntry[] {
+    return this.getEntries()
+      .filter((entry) => this.slotOf(entry) === slot)
+      .sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  // Reads every slot statement in a message; "actually my name is Alex" replaces the name and keeps "Sam" in history
+  public extract(message: string, timestamp = Date.now(), messageId?: string): MemoryUpdate[] {
+    const updates: MemoryUpdate[] = []
+
+    // Questions ("what do I like to eat?", "do you remember pizza?") aren't statements about the user,
+    // but a polite "can you remember that ..." still is
+    const question = /^\s*(?:what|who|where|when|why|how|which|do|does|did|is|are|can|could|would|should)\b/i
+    if (question.test(message) && !/^\s*(?:can|could|would|will) you (?:please )?remember\b/i.test(message)) {
+      return updates
+    }
+
+    // "remember that ..." stores the clause as a fact unless it fills a slot; "never forget ..." also pins it
+    const remembered = message.match(REMEMBER_PATTERN)
+    const pinned = remembered !== null && /\b(?:always remember|never forget|don't forget|do not forget)\b/i.test(message)
+    const text = remembered ? remembered[1] : message
+    const claimed = new Set<MemorySlot>()
+    const record = (update: MemoryUpdate, pattern: RegExp, confidence: number) => {
+      if (update.changed) {
+        Object.assign(update.entry, {
+          source: message.trim(),
+          sourceMessageId: messageId,
+          pattern: pattern.source,
+          confidence,
+        })
+      }
+      updates.push(update)
+    }
+
+    for (const { slot, pattern, confidence } of SLOT_PATTERNS) {
+      if (claimed.has(slot)) continue
+      const match = text.match(pattern)
+      if (!match) continue
+
+      const value = clause(match[1])
+      if (value === "" || (slot === "occupation" && NOT_OCCUPATIONS.test(value))) continue
+      if (slot === "name" && !/^[a-z][\w'-]*(?:\s+[a-z][\w'-]*){0,2}$/i.test(value)) continue
+
+      claimed.add(slot)
+      if (slot === "likes" || slot === "dislikes") {
+        splitItems(value)
+          .map((item) => item.replace(PREFERENCE_QUALIFIERS, "").replace(PREFERENCE_QUALIFIERS, ""))
+          .filter((item) => item !== "")
+          .forEach((item) => record(this.store(slot, item, timestamp), pattern, confidence))
+      } else {
+        record(this.store(slot, slot === "name" ? titleCase(value) : value, timestamp), pattern, confidence)
+      }
+    }
+
+    if (remembered && updates.length === 0) {
+      const fact = clause(remembered[1])
+      if (fact !== "") record(this.store("fact", fact, timestamp), REMEMBER_PATTERN, 1)
+    }
+    if (pinned) updates.forEach(({ entry }) => (entry.pinned = true))
+    this.evict(timestamp)
+    return updates
+  }
+
+  private store(slot: MemorySlot, value: string, timestamp: number): MemoryUpdate {
+    const key = keyFor(slot, value)
+    const existing = this.entries.get(key)
+    const previousSlot = existing && this.slotOf(existing) !== slot ? this.slotOf(existing) : undefined
+
+    if (existing && !previousSlot && normalize(existing.value) === normalize(value)) {
+      return { entry: existing, changed: false }
+    }
+
+    const revision: MemoryRevision = { value: existing?.value ?? "", timestamp: existing?.timestamp ?? 0 }
+    if (previousSlot) revision.slot = previousSlot
+    const history = existing ? [...(existing.history ?? []), revision] : []
+    const entry: MemoryEntry = {
+      key,
+      value,
+      timestamp,
+      importance: existing?.importance ?? IMPORTANCE[slot],
+      slot,
+      history: history.slice(-MAX_HISTORY),
+      recallCount: existing?.recallCount,
+      lastRecalled: existing?.lastRecalled,
+      pinned: existing?.pinned,
+    }
+    this.entries.set(key, entry)
+    return previousSlot
+      ? { entry, previousSlot, changed: true }
+      : { entry, previous: existing?.value, changed: true }
+  }
+
+  // Answers questions about a slot straight from memory, or null when the message isn't one
+  public answer(message: string): MemoryAnswer | null {
+    const preference = message.match(PREFERENCE_QUESTION)
+    if (preference) {
+      return this.answerPreference(preference[2], /hate|dislike|not|don't/i.test(preference[1]))
+    }
+
+    const question = QUESTION_PATTERNS.find(({ pattern }) => pattern.test(message))
+    if (!question) return null
+
+    if (question.slot === "everything") {
+      return this.describeEverything()
+    }
+
+    const entries = this.getSlot(question.slot)
+    const used = SINGLE_SLOTS.includes(question.slot) ? entries.slice(-1) : entries
+    this.recall(used)
+    const content = this.describeSlot(question.slot, entries)
+    return content ? { content, entries: used } : null
+  }
+
+  // Yes, no or unknown, from the user's side: "do I hate olives?" is a yes when olives are a dislike
+  private answerPreference(item: string, askedDislike: boolean): MemoryAnswer {
+    const words = keywords(item)
+    const entry = this.getEntries().find(
+      (candidate) =>
+        PREFERENCE_SLOTS.includes(this.slotOf(candidate)) &&
+        keywords(candidate.value).join(" ") === words.join(" "),
+    )
+    if (!entry) {
+      const thing = secondPerson(item.replace(/[?.!]+$/, ""))
+      return { content: `I don't know. You haven't told me whether you like ${thing}.`, entries: [] }
+    }
+
+    this.recall([entry])
+    const likes = this.slotOf(entry) === "likes"
+    const yes = likes !== askedDislike
+    const flipped = entry.history?.[entry.history.length - 1]?.slot
+    const change = flipped ? `, though you ${likes ? "didn't" : "did"} before` : ""
+    return {
+      content: `${yes ? "Yes" : "No"}, you told me you ${likes ? "like" : "don't like"} ${entry.value}${change}.`,
+      entries: [entry],
+    }
+  }
+
+  private describeSlot(slot: MemorySlot, entries: MemoryEntry[]): string | null {
+    const latest = entries[entries.length - 1]
+    switch (slot) {
+      case "name": {
+        if (!latest) return "You haven't told me your name yet. What should I call you?"
+        const earlier = latest.history?.length ? ` (you first told me ${latest.history[0].value})` : ""
+        return `Your name is ${latest.value}${earlier}.`
+      }
+      case "occupation":
+        return latest ? `You told me you're ${latest.value}.` : "You haven't told me what you do yet."
+      case "location":
+        return latest ? `You live in ${latest.value}.` : "You haven't told me where you live yet."
+      case "likes":
+        return entries.length > 0
+          ? `You like ${listText(entries.map((entry) => entry.value))}.`
+          : "You haven't told me about anything you like yet."
+      case "dislikes":
+        return entries.length > 0
+          ? `You don't like ${listText(entries.map((entry) => entry.value))}.`
+          : "You haven't told me about anything you dislike yet."
+      default:
+        return null
+    }
+  }
+
+  private describeEverything(): MemoryAnswer {
+    if (this.entries.size === 0) {
+      return {
+        content: "I don't know anything about you yet. Tell me your name, what you do, or what you like!",
+        entries: [],
+      }
+    }
+    this.recall(this.getEntries())
+
+    const single = (slot: MemorySlot) => this.getSlot(slot).pop()?.value
+    const list = (slot: MemorySlot) => this.getSlot(slot).map((entry) => entry.value)
+    const parts = [
+      single("name") && `your name is ${single("name")}`,
+      single("occupation") && `you're ${single("occupation")}`,
+      single("location") && `you live in ${single("location")}`,
+      list("likes").length > 0 && `you like ${listText(list("likes"))}`,
+      list("dislikes").length > 0 && `you don't like ${listText(list("dislikes"))}`,
+      ...list("fact").map(secondPerson),
+    ].filter((part): part is string => typeof part === "string" && part !== "")
+    return { content: `Here's what I know: ${listText(parts)}.`, entries: this.getEntries() }
+  }
+}
+
+// A short acknowledgement for what a message just taught us, or null if it taught nothing new
+export function describeMemoryUpdates(updates: MemoryUpdate[]): string | null {
+  const changed = updates.filter((update) => update.changed)
+  if (changed.length === 0) {
+    return updates.length > 0 ? "I already knew that!" : null
+  }
+
+  const sentences = changed.map(({ entry, previous }) => {
+    switch (entry.slot) {
+      case "name":
+        return previous
+          ? `Got it, I'll call you ${entry.value} from now on, not ${previous}.`
+          : `Nice to meet you, ${entry.value}!`
+      case "occupation":
+        return previous
+          ? `Updated: you're ${entry.value} now (you'd said ${previous} before).`
+          : `Noted: you're ${entry.value}.`
+      case "location":
+        return previous
+          ? `Updated: you live in ${entry.value} now (previously ${previous}).`
+          : `Noted: you live in ${entry.value}.`
+      default:
+        return null
+    }
+  })
+
+  changed
+    .filter(({ previousSlot }) => previousSlot)
+    .forEach(({ entry }) =>
+      sentences.push(
+        entry.slot === "likes"
+          ? `Got it, you like ${entry.value} now. I'd noted before that you didn't.`
+          : `Got it, you don't like ${entry.value} anymore. I'd noted before that you did.`,
+      ),
+    )
+  const fresh = changed.filter(({ previousSlot }) => !previousSlot)
+  const likes = fresh.filter(({ entry }) => entry.slot === "likes").map(({ entry }) => entry.value)
+  const dislikes = fresh.filter(({ entry }) => entry.slot === "dislikes").map(({ entry }) => entry.value)
+  const facts = changed.filter(({ entry }) => entry.slot === "fact").map(({ entry }) => secondPerson(entry.value))
+  if (likes.length > 0) sentences.push(`Good to know you like ${listText(likes)}.`)
+  if (dislikes.length > 0) sentences.push(`Noted, you don't like ${listText(dislikes)}.`)
+  if (facts.length > 0) sentences.push(`I'll remember that ${listText(facts)}.`)
+
+  return sentences.filter((sentence): sentence is string => sentence !== null).join(" ")
+}
+
+// One citation per source message, oldest first; entries typed in before provenance existed have none
+export function citeEntries(entries: MemoryEntry[]): MemoryCitation[] {
+  const citations = new Map<string, MemoryCitation>()
+  ;[...entries]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach((entry) => {
+      if (entry.sourceMessageId && !citations.has(entry.sourceMessageId)) {
+        citations.set(entry.sourceMessageId, { messageId: entry.sourceMessageId, text: entry.source ?? entry.value })
+      }
+    })
+  return Array.from(citations.values())
+}
+
+export function parseForgetCommand(message: string): ForgetCommand | null {
+  const text = message.trim().replace(/[.!?]+$/, "")
+  const everything =
+    /^(?:please\s+)?(?:forget (?:everything|all)(?: (?:you know )?about me| you know)?|(?:clear|wipe|reset|erase) (?:your|the|all) memory)$/i
+  if (everything.test(text)) {
+    return { kind: "everything" }
+  }
+
+  const about = text.match(/^(?:please\s+)?forget (?:everything|all|anything) (?:about|regarding|to do with) (.+)$/i)
+  if (about) return { kind: "about", query: about[1] }
+
+  const that = text.match(/^(?:please\s+|can you\s+|could you\s+)?forget(?: that| about)?\b\s*(.*)$/i)
+  return that ? { kind: "that", query: that[1] } : null
+}
+
+// Reads a reply to "should I forget these?": the entries to remove, [] for no, or null when it isn't a reply
+export function resolveForgetReply(reply: string, candidates: MemoryEntry[]): MemoryEntry[] | null {
+  const text = reply.trim().toLowerCase().replace(/[.!?]+$/, "")
+  if (/^(?:yes|yeah|yep|sure|ok|okay|all|both|all of them|do it|go ahead)$/.test(text)) return candidates
+  if (/^(?:no|nope|cancel|never mind|nevermind|keep them|don't)$/.test(text)) return []
+
+  const ordinals = ["first", "second", "third", "fourth", "fifth"]
+  const index = /^\d+$/.test(text) ? Number(text) - 1 : ordinals.findIndex((word) => text.includes(word))
+  if (index >= 0 && index < candidates.length) return [candidates[index]]
+
+  const named = candidates.filter((entry) => text.includes(normalize(entry.value)))
+  return named.length > 0 ? named : null
+}
+
+export function describeForgetResult(result: ForgetResult, query = ""): string {
+  if (result.ambiguous.length > 0) {
+    const options = result.ambiguous.map((entry, i) => `${i + 1}. ${describeMemory(entry)}`).join(", ")
+    return (
+      `A few things match that: ${options}. Should I forget all of them? ` +
+      `Say "yes", pick a number, or "no" to keep them.`
+    )
+  }
+  if (result.removed.length === 0) {
+    const topic = forgetTopic(query)
+    if (topic !== "") return `I don't have anything about ${topic}, so there's nothing to forget.`
+    if (keywords(query).length === 0) {
+      return `I'm not sure what you'd like me to forget. Tell me which thing, like "forget that I like pizza".`
+    }
+    return "I couldn't find anything like that in my memory, so there's nothing to forget."
+  }
+  return `Okay, I've forgotten that ${listText(result.removed.map(describeMemory))}.`
+}
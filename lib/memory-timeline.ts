@@ -0,0 +1,171 @@
+import { differenceInCalendarDays, format } from "date-fns"
+import { parseTimeWindow, type TimeWindow } from "./date-calculator"
+import {
+  citeEntries,
+  describeMemory,
+  keywords,
+  listText,
+  type MemoryCitation,
+  type MemoryEntry,
+  type MemoryStore,
+} from "./memory-store"
+
+export interface TimelineMessage {
+  id: string
+  role: "user" | "assistant"
+  content: string
+  timestamp: number
+}
+
+export type MemoryTimeQuery =
+  // "what did I tell you yesterday?", "what did we talk about last week?"
+  | { type: "digest"; window: TimeWindow }
+  // "when did I say I moved?"
+  | { type: "when"; topic: string }
+
+export interface TimelineAnswer {
+  content: string
+  table?: { headers: string[]; rows: string[][] }
+  sources?: MemoryCitation[]
+}
+
+const DIGEST_PATTERN =
+  /^(?:so\s+)?what (?:did|have|had) (?:i|we) (?:tell(?: you)?|told(?: you)?|say|said|talk(?:ed)? about|discuss(?:ed)?|mention(?:ed)?|chat(?:ted)? about)(?: to you)? (.+?)\??$/i
+const WHEN_PATTERN =
+  /^when (?:did|have|was it) (?:i|that i) (?:say|said|tell you|told you|mention|mentioned|talk about|talked about|bring up)(?: that)? (.+?)\??$/i
+const QUESTION = /\?\s*$|^\s*(?:what|who|where|when|why|how|which|do|does|did|is|are|can|could|would|should)\b/i
+
+const MAX_DIGEST_ENTRIES = 6
+const MAX_DIGEST_MESSAGES = 5
+
+export function parseMemoryTimeQuery(message: string, now: Date = new Date()): MemoryTimeQuery | null {
+  const text = message.trim()
+  const when = text.match(WHEN_PATTERN)
+  if (when) return { type: "when", topic: when[1] }
+
+  const digest = text.match(DIGEST_PATTERN)
+  const window = digest && parseTimeWindow(digest[1], now)
+  return window ? { type: "digest", window } : null
+}
+
+// "today at 3:04 PM", "yesterday at 9:15 AM", "on Monday, October 12 at 3:04 PM"
+function describeMoment(timestamp: number, now: Date): string {
+  const date = new Date(timestamp)
+  const days = differenceInCalendarDays(now, date)
+  const day = days === 0 ? "today" : days === 1 ? "yesterday" : `on ${format(date, "EEEE, MMMM d")}`
+  return `${day} at ${format(date, "h:mm a")}`
+}
+
+function within(timestamp: number, window: TimeWindow): boolean {
+  return timestamp >= window.start.getTime() && timestamp < window.end.getTime()
+}
+
+// Remembered facts first, ranked by retention, then the most substantial things the user said that the facts
+// don't already cover, in the order they were said
+export function describeDigest(
+  window: TimeWindow,
+  memory: MemoryStore,
+  history: TimelineMessage[],
+  now: Date = new Date(),
+): TimelineAnswer {
+  const entries = memory
+    .getEntries()
+    .filter((entry) => within(entry.timestamp, window))
+    .sort((a, b) => memory.retention(b, now.getTime()) - memory.retention(a, now.getTime()))
+  const values = entries.map((entry) => entry.value.toLowerCase())
+
+  const said = history.filter(
+    (message) =>
+      message.role === "user" &&
+      within(message.timestamp, window) &&
+      keywords(message.content).length > 0 &&
+      !parseMemoryTimeQuery(message.content, now) &&
+      !values.some((value) => message.content.toLowerCase().includes(value)),
+  )
+  const highlights = [...said]
+    .sort((a, b) => keywords(b.content).length - keywords(a.content).length)
+    .slice(0, MAX_DIGEST_MESSAGES)
+    .sort((a, b) => a.timestamp - b.timestamp)
+
+  if (entries.length === 0 && highlights.length === 0) {
+    return {
+      content: `I don't have anything from ${window.label}. Either we didn't talk then or it's older than I keep.`,
+    }
+  }
+
+  const sentences: string[] = []
+  const shown = entries.slice(0, MAX_DIGEST_ENTRIES)
+  if (shown.length > 0) {
+    const more = entries.length - shown.length > 0 ? ` (plus ${entries.length - shown.length} more)` : ""
+    sentences.push(`${capitalize(window.label)} you told me that ${listText(shown.map(describeMemory))}${more}.`)
+  }
+  if (highlights.length > 0) {
+    const others = said.length - highlights.length
+    const topics = highlights.map((message) => `"${message.content}"`)
+    sentences.push(
+      `${entries.length > 0 ? "We also talked about" : `${capitalize(window.label)} we talked about`} ` +
+        `${listText(topics)}${others > 0 ? `, and ${others} other ${others === 1 ? "message" : "messages"}` : ""}.`,
+    )
+  }
+
+  const singleDay = differenceInCalendarDays(window.end.getTime() - 1, window.start) === 0
+  const rows = highlights.map((message) => [
+    format(message.timestamp, singleDay ? "h:mm a" : "EEE MMM d, h:mm a"),
+    message.content,
+  ])
+  return {
+    content: sentences.join(" "),
+    table: rows.length > 1 ? { headers: ["When", "You said"], rows } : undefined,
+    sources: [
+      ...citeEntries(shown),
+      ...highlights.map((message) => ({ messageId: message.id, text: message.content })),
+    ],
+  }
+}
+
+// Finds the latest statement mentioning the topic; falls back to the memory entry it produced
+export function describeMention(
+  topic: string,
+  memory: MemoryStore,
+  history: TimelineMessage[],
+  now: Date = new Date(),
+): TimelineAnswer {
+  const words = keywords(topic)
+  const mentions = history
+    .filter((message) => message.role === "user" && !QUESTION.test(message.content))
+    .filter((message) => {
+      const said = keywords(message.content)
+      return words.length > 0 && words.every((word) => said.includes(word))
+    })
+    .sort((a, b) => a.timestamp - b.timestamp)
+
+  if (mentions.length > 0) {
+    const latest = mentions[mentions.length - 1]
+    const repeated =
+      mentions.length > 1
+        ? ` You've mentioned it ${mentions.length} times, first ${describeMoment(mentions[0].timestamp, now)}.`
+        : ""
+    return {
+      content: `You said "${latest.content}" ${describeMoment(latest.timestamp, now)}.${repeated}`,
+      sources: [{ messageId: latest.id, text: latest.content }],
+    }
+  }
+
+  const [match] = memory.rank(topic)
+  if (!match) {
+    return { content: "I don't remember you saying that. It may be older than the conversations I keep." }
+  }
+  return { content: describeEntryTimeline(match.entry, now), sources: citeEntries([match.entry]) }
+}
+
+function describeEntryTimeline(entry: MemoryEntry, now: Date): string {
+  const current = `You told me that ${describeMemory(entry)} ${describeMoment(entry.timestamp, now)}.`
+  const previous = entry.history?.[entry.history.length - 1]
+  return previous
+    ? `${current} Before that it was ${previous.value}, which you told me ${describeMoment(previous.timestamp, now)}.`
+    : current
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
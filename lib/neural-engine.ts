@@ -1,3 +1,5 @@
+import { multiplyMatrices } from "./matrix"
+
 export interface ModelWeights {
   layers: number[][][]
   biases: number[][]
@@ -78,28 +80,13 @@ export class NeuralEngine {
     if (this.useWebGL && this.gl) {
       return this.matrixMultiplyWebGL(a, b)
     }
-    return this.matrixMultiplyCPU(a, b)
-  }
-
-  private matrixMultiplyCPU(a: number[][], b: number[][]): number[][] {
-    const result: number[][] = []
-    for (let i = 0; i < a.length; i++) {
-      result[i] = []
-      for (let j = 0; j < b[0].length; j++) {
-        let sum = 0
-        for (let k = 0; k < b.length; k++) {
-          sum += a[i][k] * b[k][j]
-        }
-        result[i][j] = sum
-      }
-    }
-    return result
+    return multiplyMatrices(a, b)
   }
 
   private matrixMultiplyWebGL(a: number[][], b: number[][]): number[][] {
     // Simplified WebGL implementation - in practice, you'd use shaders
     // For now, fall back to CPU
-    return this.matrixMultiplyCPU(a, b)
+    return multiplyMatrices(a, b)
   }
 
   public forward(input: number[]): number[] {
@@ -0,0 +1,456 @@
+export class NumberTheoryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "NumberTheoryError"
+  }
+}
+
+// Built with BigInt() rather than literals since the tsconfig target is ES6
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const TWO = BigInt(2)
+
+// Results past these sizes are thousands of digits long and not useful in a chat reply
+const MAX_FACTORIAL = 10000
+const MAX_FIBONACCI = 100000
+const MAX_SHIFT = 10000
+
+export interface PrimeFactor {
+  prime: bigint
+  exponent: number
+}
+
+export type NumberTheoryQuery =
+  | { type: "factorize"; value: bigint }
+  | { type: "is-prime"; value: bigint }
+  | { type: "base"; expression: string; base: number }
+  | { type: "bitwise"; operation: BitwiseOperation; left: bigint; right: bigint; base: number }
+  // Phrasings that are plain function calls once rewritten: "10 choose 3" -> "ncr(10, 3)"
+  | { type: "expression"; expression: string }
+
+export type BitwiseOperation = "and" | "or" | "xor" | "shl" | "shr"
+
+function bigAbs(value: bigint): bigint {
+  return value < ZERO ? -value : value
+}
+
+function requireNonNegative(value: bigint, name: string): void {
+  if (value < ZERO) {
+    throw new NumberTheoryError(`${name} is only defined for non-negative whole numbers`)
+  }
+}
+
+function requireAtMost(value: bigint, limit: number, name: string): void {
+  if (value > BigInt(limit)) {
+    throw new NumberTheoryError(`${name} is limited to ${limit.toLocaleString("en-US")} so the answer stays readable`)
+  }
+}
+
+export function factorial(n: bigint): bigint {
+  requireNonNegative(n, "Factorial")
+  requireAtMost(n, MAX_FACTORIAL, "Factorial")
+  let result = ONE
+  for (let i = TWO; i <= n; i++) result *= i
+  return result
+}
+
+// nPr: ordered selections of r items from n
+export function permutations(n: bigint, r: bigint): bigint {
+  requireNonNegative(n, "nPr")
+  requireNonNegative(r, "nPr")
+  requireAtMost(n, MAX_FACTORIAL, "nPr")
+  if (r > n) return ZERO
+  let result = ONE
+  for (let i = n - r + ONE; i <= n; i++) result *= i
+  return result
+}
+
+// nCr: unordered selections; each partial product is itself a binomial coefficient, so the division is exact
+export function combinations(n: bigint, r: bigint): bigint {
+  requireNonNegative(n, "nCr")
+  requireNonNegative(r, "nCr")
+  requireAtMost(n, MAX_FACTORIAL, "nCr")
+  if (r > n) return ZERO
+  const k = r > n - r ? n - r : r
+  let result = ONE
+  for (let i = ONE; i <= k; i++) {
+    result = (result * (n - k + i)) / i
+  }
+  return result
+}
+
+export function gcd(a: bigint, b: bigint): bigint {
+  a = bigAbs(a)
+  b = bigAbs(b)
+  while (b !== ZERO) {
+    const t = a % b
+    a = b
+    b = t
+  }
+  return a
+}
+
+export function lcm(a: bigint, b: bigint): bigint {
+  if (a === ZERO || b === ZERO) return ZERO
+  return bigAbs((a / gcd(a, b)) * b)
+}
+
+// Euclidean remainder: always between 0 and |m| - 1, unlike %
+export function mod(a: bigint, m: bigint): bigint {
+  if (m === ZERO) {
+    throw new NumberTheoryError("Cannot take a remainder modulo zero")
+  }
+  const result = a % m
+  return result < ZERO ? result + bigAbs(m) : result
+}
+
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  if (modulus === ZERO) {
+    throw new NumberTheoryError("Cannot take a remainder modulo zero")
+  }
+  if (exponent < ZERO) {
+    throw new NumberTheoryError("modpow needs a non-negative exponent")
+  }
+  const m = bigAbs(modulus)
+  if (m === ONE) return ZERO
+
+  let result = ONE
+  let square = mod(base, m)
+  let remaining = exponent
+  while (remaining > ZERO) {
+    if (remaining % TWO === ONE) result = (result * square) % m
+    square = (square * square) % m
+    remaining /= TWO
+  }
+  return result
+}
+
+// Fast doubling: F(2k) = F(k)(2F(k+1) - F(k)), F(2k+1) = F(k)^2 + F(k+1)^2
+export function fibonacci(n: bigint): bigint {
+  requireNonNegative(n, "Fibonacci")
+  requireAtMost(n, MAX_FIBONACCI, "Fibonacci")
+
+  const pair = (k: bigint): [bigint, bigint] => {
+    if (k === ZERO) return [ZERO, ONE]
+    const [a, b] = pair(k / TWO)
+    const c = a * (TWO * b - a)
+    const d = a * a + b * b
+    return k % TWO === ZERO ? [c, d] : [d, c + d]
+  }
+  return pair(n)[0]
+}
+
+// Deterministic for n < 3.3e24 with these bases; beyond that a composite passing all of them is vanishingly unlikely
+const WITNESSES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37].map((base) => BigInt(base))
+const DETERMINISTIC_LIMIT = BigInt("3317044064679887385961981")
+
+export function isPrime(n: bigint): boolean {
+  if (n < TWO) return false
+  for (const small of WITNESSES) {
+    if (n === small) return true
+    if (n % small === ZERO) return false
+  }
+
+  let d = n - ONE
+  let s = 0
+  while (d % TWO === ZERO) {
+    d /= TWO
+    s++
+  }
+
+  return WITNESSES.every((witness) => {
+    let x = modPow(witness, d, n)
+    if (x === ONE || x === n - ONE) return true
+    for (let i = 1; i < s; i++) {
+      x = (x * x) % n
+      if (x === n - ONE) return true
+    }
+    return false
+  })
+}
+
+export function isCertainlyPrime(n: bigint): boolean {
+  return n < DETERMINISTIC_LIMIT
+}
+
+// Pollard's rho (Floyd cycle finding) for a non-trivial divisor of a composite n
+function pollardRho(n: bigint): bigint {
+  if (n % TWO === ZERO) return TWO
+  for (let c = ONE; c < BigInt(50); c++) {
+    const step = (x: bigint) => (x * x + c) % n
+    let x = TWO
+    let y = TWO
+    let divisor = ONE
+    for (let i = 0; divisor === ONE && i < 1000000; i++) {
+      x = step(x)
+      y = step(step(y))
+      divisor = gcd(x > y ? x - y : y - x, n)
+    }
+    if (divisor !== ONE && divisor !== n) return divisor
+  }
+  throw new NumberTheoryError("That number is too hard to factor here")
+}
+
+export function primeFactors(n: bigint): PrimeFactor[] {
+  if (n < TWO) {
+    throw new NumberTheoryError("Prime factorization needs a whole number of at least 2")
+  }
+
+  const counts = new Map<bigint, number>()
+  const add = (prime: bigint) => counts.set(prime, (counts.get(prime) ?? 0) + 1)
+
+  // Small factors by trial division, the rest by splitting with Pollard's rho
+  let remaining = n
+  for (let p = TWO; p < BigInt(1000) && p * p <= remaining; p++) {
+    while (remaining % p === ZERO) {
+      add(p)
+      remaining /= p
+    }
+  }
+
+  const pending = remaining > ONE ? [remaining] : []
+  while (pending.length > 0) {
+    const value = pending.pop()!
+    if (isPrime(value)) {
+      add(value)
+    } else {
+      const divisor = pollardRho(value)
+      pending.push(divisor, value / divisor)
+    }
+  }
+
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([prime, exponent]) => ({ prime, exponent }))
+}
+
+export function bitwise(operation: BitwiseOperation, left: bigint, right: bigint): bigint {
+  switch (operation) {
+    case "and":
+      return left & right
+    case "or":
+      return left | right
+    case "xor":
+      return left ^ right
+    case "shl":
+    case "shr":
+      if (right < ZERO) {
+        throw new NumberTheoryError("Shift amounts can't be negative")
+      }
+      requireAtMost(right, MAX_SHIFT, "Shifting")
+      return operation === "shl" ? left << right : left >> right
+  }
+}
+
+interface IntegerFunction {
+  // null for any number of arguments (at least one)
+  arity: number | null
+  compute: (...args: bigint[]) => bigint
+}
+
+// Registry functions that are exact over whole numbers; ExactEvaluator runs them on BigInt
+export const INTEGER_FUNCTIONS: Record<string, IntegerFunction> = {
+  factorial: { arity: 1, compute: factorial },
+  ncr: { arity: 2, compute: combinations },
+  npr: { arity: 2, compute: permutations },
+  gcd: { arity: null, compute: (...values) => values.reduce(gcd) },
+  lcm: { arity: null, compute: (...values) => values.reduce(lcm) },
+  mod: { arity: 2, compute: mod },
+  modpow: { arity: 3, compute: modPow },
+  fib: { arity: 1, compute: fibonacci },
+  isprime: { arity: 1, compute: (n) => (isPrime(n) ? ONE : ZERO) },
+  band: { arity: 2, compute: (a, b) => bitwise("and", a, b) },
+  bor: { arity: 2, compute: (a, b) => bitwise("or", a, b) },
+  bxor: { arity: 2, compute: (a, b) => bitwise("xor", a, b) },
+  bnot: { arity: 1, compute: (a) => ~a },
+  shl: { arity: 2, compute: (a, b) => bitwise("shl", a, b) },
+  shr: { arity: 2, compute: (a, b) => bitwise("shr", a, b) },
+}
+
+export function isIntegerFunction(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(INTEGER_FUNCTIONS, name)
+}
+
+export function computeInteger(name: string, args: bigint[]): bigint {
+  const { arity, compute } = INTEGER_FUNCTIONS[name]
+  if (arity === null ? args.length === 0 : args.length !== arity) {
+    throw new NumberTheoryError(`${name} expects ${arity ?? "at least 1"} argument${arity === 1 ? "" : "s"}`)
+  }
+  return compute(...args)
+}
+
+// For the float registry: whole-number arguments only, problems reported as strings like the rest of the registry
+export function integerOrError(name: string, args: number[]): number | string {
+  if (!args.every((arg) => Number.isSafeInteger(arg))) {
+    return `${name} needs whole numbers`
+  }
+  try {
+    return Number(computeInteger(name, args.map((arg) => BigInt(arg))))
+  } catch (error) {
+    if (error instanceof NumberTheoryError) return error.message
+    throw error
+  }
+}
+
+// "0xff", "0b1010", "0o17", "-42" -> bigint
+export function parseInteger(text: string): bigint | null {
+  const match = text.trim().match(/^([+-]?)(0x[\da-f]+|0b[01]+|0o[0-7]+|\d+)$/i)
+  if (!match) return null
+  const value = BigInt(match[2].toLowerCase())
+  return match[1] === "-" ? -value : value
+}
+
+// Exponents past this make numbers too long to test or factor
+const MAX_EXPONENT = 10000
+
+// Whole-number arithmetic done exactly, so "2^61 - 1" isn't rounded first: + - * ^ and brackets.
+// Returns null for anything else, such as division or decimals
+export function evaluateInteger(text: string): bigint | null {
+  const tokens = text.match(/0x[\da-f]+|0b[01]+|0o[0-7]+|\d+|\S/gi) ?? []
+  let position = 0
+
+  const sum = (): bigint | null => {
+    let left = product()
+    while (left !== null && /^[+\-−]$/.test(tokens[position] ?? "")) {
+      const operator = tokens[position++]
+      const right = product()
+      if (right === null) return null
+      left = operator === "+" ? left + right : left - right
+    }
+    return left
+  }
+
+  const product = (): bigint | null => {
+    let left = power()
+    while (left !== null && /^[*×·]$/.test(tokens[position] ?? "")) {
+      position++
+      const right = power()
+      if (right === null) return null
+      left *= right
+    }
+    return left
+  }
+
+  // Right-associative, and binding tighter than a leading minus: -2^2 is -4
+  const power = (): bigint | null => {
+    if (/^[-−]$/.test(tokens[position] ?? "")) {
+      position++
+      const value = power()
+      return value === null ? null : -value
+    }
+    const base = primary()
+    if (base === null || tokens[position] !== "^") return base
+    position++
+    const exponent = power()
+    if (exponent === null || exponent < ZERO || exponent > BigInt(MAX_EXPONENT)) return null
+    let result = ONE
+    for (let i = ZERO; i < exponent; i++) result *= base
+    return result
+  }
+
+  const primary = (): bigint | null => {
+    const token = tokens[position++] ?? ""
+    if (token === "(") {
+      const value = sum()
+      return value !== null && tokens[position++] === ")" ? value : null
+    }
+    return parseInteger(token)
+  }
+
+  const value = sum()
+  return value !== null && position === tokens.length ? value : null
+}
+
+const BASE_PREFIXES: Record<number, string> = { 2: "0b", 8: "0o", 16: "0x" }
+
+export function formatInBase(value: bigint, base: number): string {
+  if (!Number.isInteger(base) || base < 2 || base > 36) {
+    throw new NumberTheoryError("Bases go from 2 to 36")
+  }
+  const sign = value < ZERO ? "-" : ""
+  return `${sign}${BASE_PREFIXES[base] ?? ""}${bigAbs(value).toString(base)}`
+}
+
+// The base an integer literal was written in, so answers can reply in kind
+export function baseOf(text: string): number {
+  const prefix = text.trim().replace(/^[+-]/, "").slice(0, 2).toLowerCase()
+  return prefix === "0x" ? 16 : prefix === "0b" ? 2 : prefix === "0o" ? 8 : 10
+}
+
+const BASE_NAMES: [RegExp, number][] = [
+  [/^(?:binary|bin|base\s*2)$/, 2],
+  [/^(?:octal|oct|base\s*8)$/, 8],
+  [/^(?:decimal|dec|base\s*10)$/, 10],
+  [/^(?:hexadecimal|hex|base\s*16)$/, 16],
+]
+
+function readBase(name: string): number | null {
+  const lower = name.trim().toLowerCase()
+  const named = BASE_NAMES.find(([pattern]) => pattern.test(lower))
+  if (named) return named[1]
+  const numbered = lower.match(/^base\s*(\d+)$/)
+  return numbered ? Number(numbered[1]) : null
+}
+
+const INTEGER = "[+-]?(?:0x[\\da-f]+|0b[01]+|0o[0-7]+|\\d+)"
+const BASE_NAME = "binary|bin|octal|oct|decimal|dec|hexadecimal|hex|base\\s*\\d+"
+
+// Reads chat phrasing such as "0xff in binary", "factor 360", "is 97 prime", "10 choose 3"
+export function parseNumberTheoryQuery(message: string): NumberTheoryQuery | null {
+  const text = message
+    .trim()
+    .replace(/\s*[?.!]+$/, "")
+    .replace(/^(?:what(?:'s| is)(?: the)?|calculate|compute|find(?: the)?|convert)\s+/i, "")
+
+  // Integer expressions are allowed too: "is 2^61-1 prime"
+  const factorize = text.match(/^(?:factori[sz]e|factor|prime factori[sz]ation of|prime factors of)\s+(.+)$/i)
+  const factorValue = factorize && evaluateInteger(factorize[1])
+  if (factorValue !== null) {
+    return { type: "factorize", value: factorValue }
+  }
+
+  const prime = text.match(/^is\s+(.+?)\s+(?:a\s+)?prime(?:\s+number)?$/i)
+  const primeValue = prime && evaluateInteger(prime[1])
+  if (primeValue !== null) {
+    return { type: "is-prime", value: primeValue }
+  }
+
+  const base = text.match(new RegExp(`^(.+?)\\s+(?:in|to|into|as)\\s+(${BASE_NAME})$`, "i"))
+  if (base) {
+    return { type: "base", expression: base[1], base: readBase(base[2])! }
+  }
+
+  // "and"/"or" only count as bitwise next to a binary/hex/octal literal or with the word "bitwise"
+  const bits = text.match(
+    new RegExp(`^(${INTEGER})\\s+(bitwise\\s+)?(and|or|xor|<<|>>|shl|shr|left shift|right shift)\\s+(${INTEGER})$`, "i"),
+  )
+  if (bits) {
+    const [, left, explicit, operatorText, right] = bits
+    const word = operatorText.toLowerCase()
+    const literal = baseOf(left) !== 10 || baseOf(right) !== 10
+    if ((word === "and" || word === "or") && !explicit && !literal) return null
+    const operation: BitwiseOperation =
+      word === "<<" || word === "left shift" ? "shl" : word === ">>" || word === "right shift" ? "shr" : (word as BitwiseOperation)
+    return { type: "bitwise", operation, left: parseInteger(left)!, right: parseInteger(right)!, base: baseOf(left) }
+  }
+
+  const rewrites: [RegExp, (match: RegExpMatchArray) => string][] = [
+    [/^(\d+)\s*(?:choose|c)\s*(\d+)$/i, ([, n, r]) => `ncr(${n}, ${r})`],
+    [/^(\d+)\s*(?:permute|p)\s*(\d+)$/i, ([, n, r]) => `npr(${n}, ${r})`],
+    [/^(?:the\s+)?(gcd|gcf|hcf|greatest common (?:divisor|factor)|lcm|least common multiple)\s+of\s+(.+)$/i, ([, name, list]) => {
+      const values = list.split(/\s*(?:,|\band\b)\s*/).filter((value) => value !== "")
+      return `${/^(?:lcm|least)/i.test(name) ? "lcm" : "gcd"}(${values.join(", ")})`
+    }],
+    [/^(?:the\s+)?factorial\s+of\s+(\d+)$/i, ([, n]) => `factorial(${n})`],
+    [/^(?:the\s+)?(\d+)(?:st|nd|rd|th)\s+fibonacci(?:\s+number)?$/i, ([, n]) => `fib(${n})`],
+    [/^fibonacci\s+(?:number\s+)?(?:of\s+)?(\d+)$/i, ([, n]) => `fib(${n})`],
+    [/^(\S+?)\s*\^\s*(\S+?)\s+mod(?:ulo)?\s+(\S+)$/i, ([, b, e, m]) => `modpow(${b}, ${e}, ${m})`],
+    [/^(\S+)\s+mod(?:ulo)?\s+(\S+)$/i, ([, a, m]) => `mod(${a}, ${m})`],
+  ]
+  for (const [pattern, rewrite] of rewrites) {
+    const match = text.match(pattern)
+    if (match) return { type: "expression", expression: rewrite(match) }
+  }
+
+  return null
+}
@@ -0,0 +1,575 @@
+interface WordToken {
+  text: string
+  start: number
+  end: number
+}
+
+// A stretch of the message and what it reads as; "other" keeps the original text
+interface WordPiece {
+  start: number
+  end: number
+  text: string
+  kind: "value" | "operator" | "other"
+  // Fractions and percentages only count as math next to an operator: "half of 300", not "half the time"
+  needsContext?: boolean
+  // Used instead of the original words when there is no operator, e.g. "20%" for "twenty percent"
+  fallback?: string
+  percent?: boolean
+}
+
+interface Quantity {
+  text: string
+  next: number
+  fromWords: boolean
+  needsContext: boolean
+  fallback?: string
+  percent?: boolean
+}
+
+const UNITS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+}
+
+const TENS: Record<string, number> = {
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+}
+
+// Powers of ten, largest last; "hundred" also works inside a group ("three hundred thousand")
+const SCALES: Record<string, number> = {
+  hundred: 2,
+  thousand: 3,
+  million: 6,
+  billion: 9,
+  trillion: 12,
+  quadrillion: 15,
+  quintillion: 18,
+  sextillion: 21,
+  septillion: 24,
+  octillion: 27,
+  nonillion: 30,
+  decillion: 33,
+}
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  sixth: 6,
+  seventh: 7,
+  eighth: 8,
+  ninth: 9,
+  tenth: 10,
+  eleventh: 11,
+  twelfth: 12,
+  thirteenth: 13,
+  fourteenth: 14,
+  fifteenth: 15,
+  sixteenth: 16,
+  seventeenth: 17,
+  eighteenth: 18,
+  nineteenth: 19,
+  twentieth: 20,
+  thirtieth: 30,
+  fortieth: 40,
+  fiftieth: 50,
+  sixtieth: 60,
+  seventieth: 70,
+  eightieth: 80,
+  ninetieth: 90,
+  hundredth: 100,
+  thousandth: 1000,
+  millionth: 1000000,
+}
+
+const BINARY_OPERATORS: [string[], string][] = [
+  [["plus"], "+"],
+  [["added", "to"], "+"],
+  [["minus"], "-"],
+  [["less"], "-"],
+  [["take", "away"], "-"],
+  [["times"], "*"],
+  [["multiplied", "by"], "*"],
+  [["divided", "by"], "/"],
+  [["over"], "/"],
+  [["raised", "to", "the", "power", "of"], "^"],
+  [["to", "the", "power", "of"], "^"],
+  [["raised", "to"], "^"],
+]
+
+const POSTFIX_OPERATORS: [string[], string][] = [
+  [["squared"], "^2"],
+  [["cubed"], "^3"],
+]
+
+const MULTIPLIERS: Record<string, number> = { twice: 2, double: 2, triple: 3, thrice: 3 }
+
+const SYMBOL_OPERATORS = "+-*/^×÷−·"
+
+// Ordinals name denominators ("three fifths"), except "second", which almost always means time
+function denominatorOf(word: string): number | null {
+  if (word === "half" || word === "halves") return 2
+  if (word === "quarter" || word === "quarters") return 4
+  const singular = word.replace(/s$/, "")
+  const value = ORDINALS[singular]
+  return value !== undefined && value > 2 ? value : null
+}
+
+function tokenize(message: string): WordToken[] {
+  const tokens: WordToken[] = []
+  const pattern = /\d+(?:\.\d+)?|[a-z]+|[^\sa-z\d]/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(message)) !== null) {
+    tokens.push({ text: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length })
+  }
+  return tokens
+}
+
+// Multiplies a decimal string by a power of ten without float noise: ("2.5", 6) -> "2500000"
+function scaleDecimal(text: string, zeros: number): string {
+  return zeros === 0 ? text : String(Number(`${text}e${zeros}`))
+}
+
+class NumberWordReader {
+  private tokens: WordToken[]
+
+  constructor(tokens: WordToken[]) {
+    this.tokens = tokens
+  }
+
+  private word(index: number): string {
+    return this.tokens[index]?.text ?? ""
+  }
+
+  private matches(index: number, words: string[]): boolean {
+    return words.every((word, offset) => this.word(index + offset) === word)
+  }
+
+  // Cardinals such as "twenty three", "one hundred and five", "2.5 million", "three point one four"
+  public readCardinal(index: number): { text: string; next: number; fromWords: boolean } | null {
+    let i = index
+    let text: string | null = null
+    let fromWords = false
+
+    if (/^\d/.test(this.word(i))) {
+      text = this.word(i)
+      i++
+    } else {
+      let total = 0
+      let group = 0
+      let last: "unit" | "teen" | "ten" | "hundred" | "scale" | null = null
+
+      if (this.word(i) === "a" && SCALES[this.word(i + 1)] !== undefined) {
+        group = 1
+        last = "unit"
+        i++
+      }
+
+      while (i < this.tokens.length) {
+        const word = this.word(i)
+        if (UNITS[word] !== undefined && last !== "unit" && last !== "teen" && !(last === "ten" && UNITS[word] >= 10)) {
+          group += UNITS[word]
+          last = UNITS[word] >= 10 ? "teen" : "unit"
+        } else if (TENS[word] !== undefined && (last === null || last === "hundred" || last === "scale")) {
+          group += TENS[word]
+          last = "ten"
+        } else if (word === "hundred" && (last === "unit" || last === "teen" || last === "ten")) {
+          group *= 100
+          last = "hundred"
+        } else if (SCALES[word] !== undefined && word !== "hundred" && last !== null && last !== "scale") {
+          total += group * Math.pow(10, SCALES[word])
+          group = 0
+          last = "scale"
+        } else if (word === "and" && (last === "hundred" || last === "scale") && this.startsSmallNumber(i + 1)) {
+          // "one hundred and five"
+        } else if (word === "-" && last === "ten" && UNITS[this.word(i + 1)] !== undefined) {
+          // "twenty-three"
+        } else {
+          break
+        }
+        i++
+      }
+
+      if (last === null) return null
+      text = String(total + group)
+      fromWords = true
+
+      // "three point one four"
+      if (this.word(i) === "point" && UNITS[this.word(i + 1)] !== undefined && UNITS[this.word(i + 1)] < 10) {
+        let digits = ""
+        i++
+        while (UNITS[this.word(i)] !== undefined && UNITS[this.word(i)] < 10) {
+          digits += UNITS[this.word(i)]
+          i++
+        }
+        text = String(Number(`${total + group}.${digits}`))
+      }
+      if (last === "scale") return { text, next: i, fromWords }
+    }
+
+    // "2.5 million", "three point five billion", "3 hundred thousand"
+    let zeros = 0
+    while (SCALES[this.word(i)] !== undefined) {
+      zeros += SCALES[this.word(i)]
+      fromWords = true
+      i++
+    }
+    return { text: scaleDecimal(text, zeros), next: i, fromWords }
+  }
+
+  private startsSmallNumber(index: number): boolean {
+    return UNITS[this.word(index)] !== undefined || TENS[this.word(index)] !== undefined
+  }
+
+  // A cardinal plus anything that turns it into a fraction or percentage
+  public readQuantity(index: number): Quantity | null {
+    const word = this.word(index)
+
+    // "half", "a half", "a quarter", "a third"
+    if (word === "half" || (word === "a" && denominatorOf(this.word(index + 1)) !== null)) {
+      const next = word === "half" ? index + 1 : index + 2
+      const denominator = denominatorOf(this.word(next - 1))!
+      return this.readPercent({ text: `(1/${denominator})`, next, fromWords: true, needsContext: true })
+    }
+
+    const cardinal = this.readCardinal(index)
+    if (!cardinal) return null
+    let { text, next, fromWords } = cardinal
+    let needsContext = false
+
+    // "three quarters", "2 thirds"
+    const denominator = denominatorOf(this.word(next))
+    if (denominator !== null && /^\d+$/.test(text)) {
+      text = `(${text}/${denominator})`
+      next++
+      fromWords = true
+      needsContext = true
+    }
+
+    // "one and a half", "two and three quarters"
+    if (this.word(next) === "and" && !needsContext) {
+      const part = this.readQuantity(next + 1)
+      if (part && part.text.startsWith("(") && !/\/100\)$/.test(part.text)) {
+        return { text: `(${text} + ${part.text.slice(1, -1)})`, next: part.next, fromWords: true, needsContext: false }
+      }
+    }
+
+    return this.readPercent({ text, next, fromWords, needsContext })
+  }
+
+  private readPercent(quantity: Quantity): Quantity {
+    const { next } = quantity
+    const width = this.word(next) === "%" || this.word(next) === "percent" ? 1 : this.matches(next, ["per", "cent"]) ? 2 : 0
+    if (width === 0) return quantity
+    return {
+      text: `(${quantity.text.replace(/^\((.*)\)$/, "$1")}/100)`,
+      next: next + width,
+      fromWords: true,
+      needsContext: true,
+      fallback: quantity.needsContext ? undefined : `${quantity.text}%`,
+      percent: true,
+    }
+  }
+
+  // "to the fifth", "to the 3rd power"
+  public readOrdinalPower(index: number): { symbol: string; next: number } | null {
+    if (!this.matches(index, ["to", "the"])) return null
+    const ordinal = this.readOrdinal(index + 2)
+    if (!ordinal) return null
+    return { symbol: `^${ordinal.value}`, next: this.word(ordinal.next) === "power" ? ordinal.next + 1 : ordinal.next }
+  }
+
+  // "fifth power of", "the 3rd power of"
+  public readPowerOf(index: number): { value: number; next: number } | null {
+    const ordinal = this.readOrdinal(this.word(index) === "the" ? index + 1 : index)
+    if (!ordinal || !this.matches(ordinal.next, ["power", "of"])) return null
+    return { value: ordinal.value, next: ordinal.next + 2 }
+  }
+
+  // "fifth", "twenty-third", "3rd"
+  private readOrdinal(index: number): { value: number; next: number } | null {
+    let i = index
+    let value = 0
+
+    if (/^\d+$/.test(this.word(i)) && /^(?:st|nd|rd|th)$/.test(this.word(i + 1))) {
+      value = Number(this.word(i))
+      i += 2
+    } else {
+      if (TENS[this.word(i)] !== undefined && (this.word(i + 1) === "-" || ORDINALS[this.word(i + 1)] !== undefined)) {
+        value = TENS[this.word(i)]
+        i += this.word(i + 1) === "-" ? 2 : 1
+      }
+      const ordinal = ORDINALS[this.word(i)]
+      if (ordinal === undefined || (value > 0 && ordinal >= 10)) return null
+      value += ordinal
+      i++
+    }
+    return { value, next: i }
+  }
+
+  public matchOperator(index: number, table: [string[], string][]): { symbol: string; next: number } | null {
+    for (const [words, symbol] of table) {
+      if (this.matches(index, words)) return { symbol, next: index + words.length }
+    }
+    return null
+  }
+
+  // Something an operator can act on: a number, a bracket, a prefix word or a letter such as x
+  public startsValue(index: number): boolean {
+    const word = this.word(index)
+    return (
+      /^\d/.test(word) ||
+      word === "(" ||
+      word === "pi" ||
+      word === "ans" ||
+      word === "minus" ||
+      word === "negative" ||
+      MULTIPLIERS[word] !== undefined ||
+      this.matches(index, ["square", "root", "of"]) ||
+      this.matches(index, ["cube", "root", "of"]) ||
+      /^[b-hj-z]$/.test(word) ||
+      this.readQuantity(index) !== null
+    )
+  }
+}
+
+// Rewrites spelled-out math into symbols the expression parser reads:
+// "what is twenty three times four" -> "what is 23 * 4", "half of three hundred" -> "(1/2) * 300".
+// Returns null when nothing in the message changes.
+export function rewriteNumberWords(message: string): string | null {
+  const tokens = tokenize(message)
+  const reader = new NumberWordReader(tokens)
+  const pieces: WordPiece[] = []
+
+  const span = (from: number, to: number) => ({ start: tokens[from].start, end: tokens[to - 1].end })
+  const lastKind = () => pieces[pieces.length - 1]?.kind
+
+  let i = 0
+  while (i < tokens.length) {
+    const word = tokens[i].text
+    const afterValue = lastKind() === "value"
+
+    // Postfix operators: "five squared", "two to the fifth"
+    const postfix = afterValue ? (reader.matchOperator(i, POSTFIX_OPERATORS) ?? reader.readOrdinalPower(i)) : null
+    if (postfix) {
+      pieces.push({ ...span(i, postfix.next), text: postfix.symbol, kind: "value" })
+      i = postfix.next
+      continue
+    }
+
+    // Binary operators only between two values, so "three times a day" stays as it is
+    const binary = afterValue ? reader.matchOperator(i, BINARY_OPERATORS) : null
+    if (binary && reader.startsValue(binary.next)) {
+      pieces.push({ ...span(i, binary.next), text: binary.symbol, kind: "operator" })
+      i = binary.next
+      continue
+    }
+
+    // "half of 300", "20% of 80"
+    if (word === "of" && pieces[pieces.length - 1]?.needsContext && reader.startsValue(i + 1)) {
+      pieces.push({ ...span(i, i + 1), text: "*", kind: "operator" })
+      i++
+      continue
+    }
+
+    if (!afterValue) {
+      // "square root of sixteen", "cube root of 27"
+      const root = reader.matchOperator(i, [
+        [["square", "root", "of"], "sqrt"],
+        [["cube", "root", "of"], "cbrt"],
+      ])
+      const radicand = root ? reader.readQuantity(root.next) : null
+      if (root && radicand) {
+        const text = root.symbol === "sqrt" ? `sqrt(${radicand.text})` : `(${radicand.text})^(1/3)`
+        pieces.push({ ...span(i, radicand.next), text, kind: "value" })
+        i = radicand.next
+        continue
+      }
+
+      // "fifth power of two" -> "(2)^5"
+      const power = reader.readPowerOf(i)
+      const base = power ? reader.readQuantity(power.next) : null
+      if (power && base) {
+        pieces.push({ ...span(i, base.next), text: `(${base.text})^${power.value}`, kind: "value" })
+        i = base.next
+        continue
+      }
+
+      // "minus five", "negative two"
+      if ((word === "minus" || word === "negative") && reader.readQuantity(i + 1)) {
+        pieces.push({ ...span(i, i + 1), text: "-", kind: "operator" })
+        i++
+        continue
+      }
+
+      // "twice 12", "double three hundred"
+      if (MULTIPLIERS[word] !== undefined && reader.startsValue(i + 1)) {
+        pieces.push({ ...span(i, i + 1), text: `${MULTIPLIERS[word]} *`, kind: "operator" })
+        i++
+        continue
+      }
+    }
+
+    const quantity = reader.readQuantity(i)
+    if (quantity) {
+      const text = quantity.fromWords ? quantity.text : message.slice(tokens[i].start, tokens[quantity.next - 1].end)
+      const { needsContext, fallback, percent } = quantity
+      pieces.push({ ...span(i, quantity.next), text, kind: "value", needsContext, fallback, percent })
+      i = quantity.next
+      continue
+    }
+
+    const symbol = SYMBOL_OPERATORS.includes(word)
+    const letter = /^[b-hj-z]$/.test(word)
+    const value = word === ")" || word === "pi" || word === "ans" || letter
+    // Letters keep their case: "B" is bytes and "b" bits
+    const text = letter ? message.slice(tokens[i].start, tokens[i].end) : tokens[i].text
+    pieces.push({ ...span(i, i + 1), text, kind: symbol ? "operator" : value ? "value" : "other" })
+    i++
+  }
+
+  // Contextual pieces without a neighbouring operator go back to their original words
+  pieces.forEach((piece, index) => {
+    if (piece.needsContext && pieces[index - 1]?.kind !== "operator" && pieces[index + 1]?.kind !== "operator") {
+      piece.text = piece.fallback ?? message.slice(piece.start, piece.end)
+    }
+  })
+
+  // "50 + 10%" adds 10% of 50, like a calculator's % key: "(50) * (1 + (10/100))".
+  // Left alone when the percentage is of something else: "50 + 10% of 20"
+  pieces.forEach((piece, index) => {
+    const operator = pieces[index - 1]
+    if (!piece.percent || !/^[+\-−]$/.test(operator?.text ?? "") || pieces[index - 2]?.kind !== "value") return
+    if (pieces[index + 1]?.kind === "operator") return
+
+    let start = index - 2
+    while (start > 0 && pieces[start - 1].kind !== "other") start--
+    pieces[start].text = `(${pieces[start].text}`
+    operator.text = `) * (1 ${operator.text === "+" ? "+" : "-"}`
+    piece.text = `${piece.text})`
+  })
+
+  let rewritten = ""
+  let position = 0
+  pieces.forEach((piece) => {
+    rewritten += message.slice(position, piece.start)
+    rewritten += piece.kind === "other" ? message.slice(piece.start, piece.end) : piece.text
+    position = piece.end
+  })
+  rewritten += message.slice(position)
+
+  return rewritten === message ? null : rewritten
+}
+
+// Reads a message that is nothing but a spelled-out number: "three quarters", "what is two million and five".
+// Returns the expression for it, or null. A lone small word such as "two" is more likely a reply than a sum
+export function readNumberWords(message: string): string | null {
+  const asked = /^\s*(?:what(?:'s|\s+is)|how\s+much\s+is)\s+/i.test(message)
+  const body = message.replace(/^\s*(?:what(?:'s|\s+is)|how\s+much\s+is)\s+/i, "").replace(/\s*[?.!]+\s*$/, "")
+  const tokens = tokenize(body)
+  const quantity = new NumberWordReader(tokens).readQuantity(0)
+  if (!quantity || !quantity.fromWords || quantity.next !== tokens.length) return null
+  return asked || tokens.length > 1 ? quantity.text : null
+}
+
+const UNIT_NAMES = Object.keys(UNITS)
+const TEN_NAMES = ["", "", ...Object.keys(TENS)]
+const GROUP_NAMES = ["", ...Object.keys(SCALES).slice(1)]
+const DIGIT_NAMES = UNIT_NAMES.slice(0, 10)
+
+function groupToWords(value: number): string {
+  const words: string[] = []
+  if (value >= 100) {
+    words.push(UNIT_NAMES[Math.floor(value / 100)], "hundred")
+    value %= 100
+  }
+  if (value >= 20) {
+    words.push(value % 10 === 0 ? TEN_NAMES[value / 10] : `${TEN_NAMES[Math.floor(value / 10)]}-${UNIT_NAMES[value % 10]}`)
+  } else if (value > 0) {
+    words.push(UNIT_NAMES[value])
+  }
+  return words.join(" ")
+}
+
+// Whole numbers from a digit string, so big exact results spell out without rounding
+function integerToWords(digits: string): string | null {
+  const trimmed = digits.replace(/^0+(?=\d)/, "")
+  if (trimmed === "0") return "zero"
+
+  const groups: number[] = []
+  for (let end = trimmed.length; end > 0; end -= 3) {
+    groups.unshift(Number(trimmed.slice(Math.max(0, end - 3), end)))
+  }
+  if (groups.length > GROUP_NAMES.length) return null
+
+  return groups
+    .map((group, index) => {
+      const name = GROUP_NAMES[groups.length - 1 - index]
+      return group === 0 ? "" : `${groupToWords(group)}${name ? ` ${name}` : ""}`
+    })
+    .filter((words) => words !== "")
+    .join(" ")
+}
+
+function ordinalToWords(digits: string, plural: boolean): string | null {
+  if (digits === "2") return plural ? "halves" : "half"
+  if (digits === "4") return plural ? "quarters" : "quarter"
+
+  const cardinal = integerToWords(digits)
+  if (!cardinal) return null
+  const ordinal = cardinal.replace(/([a-z]+)$/, (last) => {
+    const named = Object.keys(ORDINALS).find((name) => ORDINALS[name] === (UNITS[last] ?? TENS[last]))
+    return named ?? `${last}th`
+  })
+  return plural ? `${ordinal}s` : ordinal
+}
+
+// Spells a displayed answer: "92" -> "ninety-two", "-1.25" -> "minus one point two five", "3/4" -> "three quarters".
+// Returns null for anything that doesn't read well as words, like scientific notation.
+export function spellNumber(display: string): string | null {
+  const text = display.trim()
+  const sign = text.startsWith("-") ? "minus " : ""
+  const unsigned = text.replace(/^-/, "")
+
+  const fraction = unsigned.match(/^(\d+)\/(\d+)$/)
+  if (fraction) {
+    const numerator = integerToWords(fraction[1])
+    const denominator = ordinalToWords(fraction[2], fraction[1] !== "1")
+    return numerator && denominator ? `${sign}${numerator} ${denominator}` : null
+  }
+
+  const decimal = unsigned.match(/^(\d+)(?:\.(\d+))?$/)
+  if (!decimal) return null
+
+  const whole = integerToWords(decimal[1])
+  if (!whole) return null
+  const digits = decimal[2] ? ` point ${decimal[2].split("").map((digit) => DIGIT_NAMES[Number(digit)]).join(" ")}` : ""
+  return `${sign}${whole}${digits}`
+}
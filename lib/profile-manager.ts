@@ -0,0 +1,264 @@
+export interface UserProfile {
+  id: string
+  name: string
+  createdAt: number
+}
+
+export interface ProfileExport {
+  profile: UserProfile
+  // Stored values by their unscoped key, e.g. "reliable-ai-memory"
+  data: Record<string, unknown>
+  exportDate: string
+}
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ProfileError"
+  }
+}
+
+interface ProfileRegistry {
+  profiles: UserProfile[]
+  activeId: string
+  // When someone last said who they were and when anyone last typed; stored so reloads keep them
+  confirmedAt?: number
+  lastActivity?: number
+}
+
+const REGISTRY_KEY = "ai-profiles"
+const DEFAULT_PROFILE_ID = "default"
+const MAX_NAME_LENGTH = 40
+// A shared screen left alone this long may have someone new in front of it
+const IDLE_MS = 15 * 60 * 1000
+
+// Per-person data. The knowledge base, vocabulary cache and model weights stay shared by the device
+const PROFILE_KEYS = [
+  "reliable-ai-conversation",
+  "reliable-ai-memory",
+  "reliable-ai-vocabulary",
+  "reliable-ai-math",
+  "reliable-ai-variables",
+  "diagnostic-ai-conversation",
+  "diagnostic-ai-memory",
+  "enhanced-ai-conversation",
+  "enhanced-ai-learning-stats",
+  "enhanced-ai-conversation-v2",
+  "enhanced-ai-learning-stats-v2",
+  "ai-conversation",
+]
+
+const INTRODUCTIONS = [
+  /^(?:(?:hi|hello|hey)[,!]?\s+)?(?:it's|it is|this is|i'm|i am)\s+(.+?)[.!]*$/i,
+  /^(?:switch|change) (?:to )?(?:the )?(?:profile (?:for )?)?(.+?)(?:'s)?(?: profile)?[.!]*$/i,
+]
+
+const CREATE_PROFILE = /^(?:please\s+)?(?:create|make|add|start) (?:a )?(?:new )?profile (?:for |called |named )?(.+?)[.!]*$/i
+// A reply to "who am I talking to?" that reads like a name: a word or a few, letters only, not a question
+const BARE_NAME =
+  /^(?!(?:what|what's|who|where|when|why|how|is|are|can|could|do|does|hi|hello|hey|yes|no|ok|okay)\b)[a-z][a-z'-]*(?: [a-z][a-z'-]*){0,2}$/i
+
+function profilePrefix(id: string): string {
+  return `profile:${id}:`
+}
+
+function defaultRegistry(): ProfileRegistry {
+  return {
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: "Default", createdAt: Date.now() }],
+    activeId: DEFAULT_PROFILE_ID,
+  }
+}
+
+function writeRegistry(registry: ProfileRegistry): void {
+  localStorage.setItem(REGISTRY_KEY, JSON.stringify(registry))
+}
+
+// Creates the registry on first use, moving data saved before profiles existed into the default profile
+function readRegistry(): ProfileRegistry {
+  if (typeof localStorage === "undefined") return defaultRegistry()
+
+  try {
+    const stored = localStorage.getItem(REGISTRY_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored)
+      if (Array.isArray(parsed?.profiles) && parsed.profiles.length > 0) {
+        const registry = parsed as ProfileRegistry
+        if (!registry.profiles.some((profile) => profile.id === registry.activeId)) {
+          registry.activeId = registry.profiles[0].id
+        }
+        return registry
+      }
+    }
+  } catch (error) {
+    console.warn("Failed to read profiles:", error)
+  }
+
+  const registry = defaultRegistry()
+  PROFILE_KEYS.forEach((key) => {
+    const legacy = localStorage.getItem(key)
+    if (legacy !== null) {
+      localStorage.setItem(profilePrefix(DEFAULT_PROFILE_ID) + key, legacy)
+      localStorage.removeItem(key)
+    }
+  })
+  writeRegistry(registry)
+  return registry
+}
+
+// The localStorage key for per-person data under the active profile
+export function scopedKey(key: string): string {
+  return profilePrefix(readRegistry().activeId) + key
+}
+
+export class ProfileManager {
+  public getProfiles(): UserProfile[] {
+    return readRegistry().profiles.map((profile) => ({ ...profile }))
+  }
+
+  public getActiveProfile(): UserProfile {
+    const registry = readRegistry()
+    return { ...registry.profiles.find((profile) => profile.id === registry.activeId)! }
+  }
+
+  public findProfile(name: string): UserProfile | undefined {
+    const wanted = name.trim().toLowerCase()
+    return this.getProfiles().find((profile) => profile.name.toLowerCase() === wanted)
+  }
+
+  // The profile a message introduces: "it's Alice", "switch to Bob's profile", or just "Alice" when we asked
+  public identify(message: string, allowBareName = false): UserProfile | undefined {
+    for (const pattern of INTRODUCTIONS) {
+      const match = message.trim().match(pattern)
+      const profile = match && this.findProfile(match[1])
+      if (profile) return profile
+    }
+    return allowBareName ? this.findProfile(message.replace(/[.!]+$/, "")) : undefined
+  }
+
+  // The name a message gives whether or not it has a profile, so we can offer to create one
+  public introducedName(message: string, allowBareName = false): string | undefined {
+    const text = message.trim().replace(/[.!]+$/, "")
+    for (const pattern of INTRODUCTIONS) {
+      const match = text.match(pattern)
+      if (match) return match[1]
+    }
+    return allowBareName && BARE_NAME.test(text) ? text : undefined
+  }
+
+  // "create a profile for Sam", "new profile called Sam"
+  public requestedName(message: string): string | undefined {
+    const match = message.trim().match(CREATE_PROFILE)
+    return match ? match[1] : undefined
+  }
+
+  // With several profiles, ask who is there until someone says, and again after the device sits idle
+  public isAmbiguous(now = Date.now()): boolean {
+    const { profiles, confirmedAt = 0, lastActivity = 0 } = readRegistry()
+    return profiles.length > 1 && (confirmedAt === 0 || now - lastActivity > IDLE_MS)
+  }
+
+  public touch(now = Date.now()): void {
+    const registry = readRegistry()
+    registry.lastActivity = now
+    writeRegistry(registry)
+  }
+
+  public createProfile(name: string): UserProfile {
+    const registry = readRegistry()
+    const profile: UserProfile = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name: this.validateName(name, registry),
+      createdAt: Date.now(),
+    }
+    registry.profiles.push(profile)
+    this.confirm(registry)
+    writeRegistry(registry)
+    return { ...profile }
+  }
+
+  public renameProfile(id: string, name: string): UserProfile {
+    const registry = readRegistry()
+    const profile = this.requireProfile(registry, id)
+    profile.name = this.validateName(name, registry, id)
+    this.confirm(registry)
+    writeRegistry(registry)
+    return { ...profile }
+  }
+
+  public switchProfile(id: string): UserProfile {
+    const registry = readRegistry()
+    const profile = this.requireProfile(registry, id)
+    registry.activeId = id
+    this.confirm(registry)
+    writeRegistry(registry)
+    return { ...profile }
+  }
+
+  // Removes the profile and everything stored under it; returns the profile that is active afterwards
+  public deleteProfile(id: string): UserProfile {
+    const registry = readRegistry()
+    this.requireProfile(registry, id)
+    if (registry.profiles.length === 1) {
+      throw new ProfileError("the last profile can't be deleted")
+    }
+
+    this.profileKeys(id).forEach((key) => localStorage.removeItem(key))
+    registry.profiles = registry.profiles.filter((profile) => profile.id !== id)
+    if (registry.activeId === id) {
+      registry.activeId = registry.profiles[0].id
+    }
+    writeRegistry(registry)
+    return this.getActiveProfile()
+  }
+
+  public exportProfile(id: string = readRegistry().activeId): ProfileExport {
+    const profile = this.requireProfile(readRegistry(), id)
+    const prefix = profilePrefix(id)
+    const data: Record<string, unknown> = {}
+    this.profileKeys(id).forEach((key) => {
+      const value = localStorage.getItem(key) ?? ""
+      try {
+        data[key.slice(prefix.length)] = JSON.parse(value)
+      } catch {
+        data[key.slice(prefix.length)] = value
+      }
+    })
+    return { profile: { ...profile }, data, exportDate: new Date().toISOString() }
+  }
+
+  private confirm(registry: ProfileRegistry, now = Date.now()): void {
+    registry.confirmedAt = now
+    registry.lastActivity = now
+  }
+
+  private profileKeys(id: string): string[] {
+    const prefix = profilePrefix(id)
+    const keys: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key?.startsWith(prefix)) keys.push(key)
+    }
+    return keys
+  }
+
+  private requireProfile(registry: ProfileRegistry, id: string): UserProfile {
+    const profile = registry.profiles.find((candidate) => candidate.id === id)
+    if (!profile) throw new ProfileError("that profile doesn't exist")
+    return profile
+  }
+
+  private validateName(name: string, registry: ProfileRegistry, ownId?: string): string {
+    const trimmed = name.trim().replace(/\s+/g, " ")
+    if (trimmed === "") throw new ProfileError("a profile needs a name")
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new ProfileError(`profile names can be at most ${MAX_NAME_LENGTH} characters`)
+    }
+    const taken = registry.profiles.some(
+      (profile) => profile.id !== ownId && profile.name.toLowerCase() === trimmed.toLowerCase(),
+    )
+    if (taken) {
+      throw new ProfileError(`there's already a profile called ${trimmed}`)
+    }
+    return trimmed
+  }
+}
@@ -0,0 +1,452 @@
+import {
+  MATH_CONSTANTS,
+  MathEvaluationError,
+  MathExpressionParser,
+  type BinaryOperator,
+  type MathFunction,
+  type MathNode,
+} from "./math-expression"
+import { INTEGER_FUNCTIONS, NumberTheoryError, computeInteger } from "./number-theory"
+
+// Built with BigInt() rather than literals since the tsconfig target is ES6
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const TWO = BigInt(2)
+const TEN = BigInt(10)
+
+// Above this many digits an exact power would lock up the page
+const MAX_EXACT_DIGITS = 100000
+
+function bigAbs(value: bigint): bigint {
+  return value < ZERO ? -value : value
+}
+
+function bigGcd(a: bigint, b: bigint): bigint {
+  a = bigAbs(a)
+  b = bigAbs(b)
+  while (b !== ZERO) {
+    const t = a % b
+    a = b
+    b = t
+  }
+  return a
+}
+
+function bigPow(base: bigint, exponent: number): bigint {
+  let result = ONE
+  let square = base
+  let remaining = exponent
+  while (remaining > 0) {
+    if (remaining % 2 === 1) result *= square
+    square *= square
+    remaining = Math.floor(remaining / 2)
+  }
+  return result
+}
+
+// Integer square root, or null when value is not a perfect square
+function bigSqrtExact(value: bigint): bigint | null {
+  if (value < ZERO) return null
+  if (value < TWO) return value
+
+  let x = value
+  let y = (x + ONE) / TWO
+  while (y < x) {
+    x = y
+    y = (x + value / x) / TWO
+  }
+  return x * x === value ? x : null
+}
+
+export class Rational {
+  public readonly numerator: bigint
+  public readonly denominator: bigint
+
+  constructor(numerator: bigint, denominator: bigint = ONE) {
+    if (denominator === ZERO) {
+      throw new RangeError("Denominator cannot be zero")
+    }
+    if (denominator < ZERO) {
+      numerator = -numerator
+      denominator = -denominator
+    }
+    const divisor = bigGcd(numerator, denominator)
+    this.numerator = divisor > ONE ? numerator / divisor : numerator
+    this.denominator = divisor > ONE ? denominator / divisor : denominator
+  }
+
+  // Accepts the number formats the tokenizer produces: "12", "0.1", ".5", "1.5e-3", "0xff"
+  public static parse(text: string): Rational {
+    if (/^0[xbo]/i.test(text.trim())) {
+      return new Rational(BigInt(text.trim().toLowerCase()))
+    }
+
+    const match = text.trim().match(/^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i)
+    if (!match || (match[2] === "" && !match[3])) {
+      throw new RangeError(`'${text}' is not a number`)
+    }
+
+    const [, sign, whole, fraction = "", exponentText] = match
+    const exponent = exponentText ? Number.parseInt(exponentText, 10) : 0
+    const shift = exponent - fraction.length
+    if (Math.abs(shift) > MAX_EXACT_DIGITS) {
+      throw new RangeError(`'${text}' is too large to represent exactly`)
+    }
+
+    let numerator = BigInt(`${whole}${fraction}` || "0")
+    if (sign === "-") numerator = -numerator
+    return shift >= 0
+      ? new Rational(numerator * bigPow(TEN, shift))
+      : new Rational(numerator, bigPow(TEN, -shift))
+  }
+
+  // Uses the shortest decimal that round-trips, so 0.1 becomes 1/10 rather than 3602879701896397/36028797018963968
+  public static fromNumber(value: number): Rational {
+    if (!Number.isFinite(value)) {
+      throw new RangeError(`${value} has no exact value`)
+    }
+    return Rational.parse(String(value))
+  }
+
+  public isZero(): boolean {
+    return this.numerator === ZERO
+  }
+
+  public isInteger(): boolean {
+    return this.denominator === ONE
+  }
+
+  public sign(): number {
+    return this.numerator === ZERO ? 0 : this.numerator < ZERO ? -1 : 1
+  }
+
+  public compare(other: Rational): number {
+    const difference = this.numerator * other.denominator - other.numerator * this.denominator
+    return difference === ZERO ? 0 : difference < ZERO ? -1 : 1
+  }
+
+  public negate(): Rational {
+    return new Rational(-this.numerator, this.denominator)
+  }
+
+  public abs(): Rational {
+    return new Rational(bigAbs(this.numerator), this.denominator)
+  }
+
+  public add(other: Rational): Rational {
+    return new Rational(
+      this.numerator * other.denominator + other.numerator * this.denominator,
+      this.denominator * other.denominator,
+    )
+  }
+
+  public subtract(other: Rational): Rational {
+    return this.add(other.negate())
+  }
+
+  public multiply(other: Rational): Rational {
+    return new Rational(this.numerator * other.numerator, this.denominator * other.denominator)
+  }
+
+  public divide(other: Rational): Rational {
+    if (other.isZero()) {
+      throw new RangeError("Cannot divide by zero")
+    }
+    return new Rational(this.numerator * other.denominator, this.denominator * other.numerator)
+  }
+
+  // Only whole exponents stay exact; returns null so the caller can fall back to floats
+  public pow(exponent: Rational): Rational | null {
+    if (!exponent.isInteger()) return null
+
+    if (exponent.isZero()) return new Rational(ONE)
+    if (this.isZero()) {
+      if (exponent.sign() < 0) throw new RangeError("Cannot divide by zero")
+      return this
+    }
+
+    // Powers of 1 and -1 stay small however large the exponent is
+    if (bigAbs(this.numerator) === ONE && this.denominator === ONE) {
+      return this.numerator === ONE || exponent.numerator % TWO === ZERO ? new Rational(ONE) : this
+    }
+
+    const power = Number(exponent.numerator)
+    const size = Math.abs(power) * Math.max(this.numerator.toString().length, this.denominator.toString().length)
+    if (!(size <= MAX_EXACT_DIGITS)) {
+      throw new RangeError("Result is too large to compute exactly")
+    }
+
+    const numerator = bigPow(this.numerator, Math.abs(power))
+    const denominator = bigPow(this.denominator, Math.abs(power))
+    return power < 0 ? new Rational(denominator, numerator) : new Rational(numerator, denominator)
+  }
+
+  public floor(): Rational {
+    let quotient = this.numerator / this.denominator
+    if (this.numerator < ZERO && quotient * this.denominator !== this.numerator) quotient -= ONE
+    return new Rational(quotient)
+  }
+
+  public ceil(): Rational {
+    return this.negate().floor().negate()
+  }
+
+  // Halves round up, matching Math.round
+  public round(): Rational {
+    return this.add(new Rational(ONE, TWO)).floor()
+  }
+
+  public sqrt(): Rational | null {
+    const numerator = bigSqrtExact(this.numerator)
+    const denominator = bigSqrtExact(this.denominator)
+    return numerator === null || denominator === null ? null : new Rational(numerator, denominator)
+  }
+
+  public toNumber(): number {
+    const limit = BigInt(Number.MAX_SAFE_INTEGER)
+    if (bigAbs(this.numerator) <= limit && this.denominator <= limit) {
+      return Number(this.numerator) / Number(this.denominator)
+    }
+    return Number.parseFloat(this.toExponential(17))
+  }
+
+  // "1/2", "-7/3", or a whole number of any size
+  public toString(): string {
+    return this.isInteger() ? this.numerator.toString() : `${this.numerator}/${this.denominator}`
+  }
+
+  // Like Number.toExponential but over the exact value, rounding half away from zero
+  public toExponential(significantDigits: number): string {
+    const { digits, exponent } = this.significand(significantDigits)
+    const sign = this.numerator < ZERO ? "-" : ""
+    const mantissa = digits.length > 1 ? `${digits[0]}.${digits.slice(1)}`.replace(/\.?0+$/, "") : digits
+    return `${sign}${mantissa}e${exponent >= 0 ? "+" : ""}${exponent}`
+  }
+
+  // Decimal text rounded to significant digits, e.g. 1/3 -> "0.3333333333"
+  public toDecimalString(significantDigits: number): string {
+    if (this.isInteger()) return this.numerator.toString()
+
+    const { digits, exponent } = this.significand(significantDigits)
+    if (exponent < -7 || exponent >= 21) return this.toExponential(significantDigits)
+
+    const sign = this.numerator < ZERO ? "-" : ""
+    let text: string
+    if (exponent < 0) {
+      text = `0.${"0".repeat(-exponent - 1)}${digits}`
+    } else if (digits.length > exponent + 1) {
+      text = `${digits.slice(0, exponent + 1)}.${digits.slice(exponent + 1)}`
+    } else {
+      text = digits.padEnd(exponent + 1, "0")
+    }
+    return sign + (text.includes(".") ? text.replace(/\.?0+$/, "") : text)
+  }
+
+  private significand(significantDigits: number): { digits: string; exponent: number } {
+    const numerator = bigAbs(this.numerator)
+    const denominator = this.denominator
+    if (numerator === ZERO) return { digits: "0", exponent: 0 }
+
+    let exponent = numerator.toString().length - denominator.toString().length
+    const below =
+      exponent >= 0 ? numerator < denominator * bigPow(TEN, exponent) : numerator * bigPow(TEN, -exponent) < denominator
+    if (below) exponent--
+
+    const shift = significantDigits - 1 - exponent
+    const scaledNumerator = shift >= 0 ? numerator * bigPow(TEN, shift) : numerator
+    const scaledDenominator = shift >= 0 ? denominator : denominator * bigPow(TEN, -shift)
+
+    let quotient = scaledNumerator / scaledDenominator
+    const remainder = scaledNumerator % scaledDenominator
+    if (remainder * TWO >= scaledDenominator) quotient += ONE
+
+    let digits = quotient.toString()
+    if (digits.length > significantDigits) {
+      digits = digits.slice(0, significantDigits)
+      exponent++
+    }
+    return { digits, exponent }
+  }
+}
+
+export interface ExactResult {
+  value: Rational
+  // False once a step had to go through floating point (sin, pi, 2^0.5, ...)
+  exact: boolean
+}
+
+type ExactFunction = (args: Rational[]) => Rational | null
+
+// Whole-number functions run on BigInt; fractions or out-of-range input fall back to the float version,
+// which reports the problem
+function integerFunction(name: string): ExactFunction {
+  return (args) => {
+    if (!args.every((arg) => arg.isInteger())) return null
+    try {
+      return new Rational(computeInteger(name, args.map((arg) => arg.numerator)))
+    } catch (error) {
+      if (error instanceof NumberTheoryError) return null
+      throw error
+    }
+  }
+}
+
+// Functions with an exact rational answer; null means "not exact for these arguments"
+const EXACT_FUNCTIONS: Record<string, ExactFunction> = {
+  abs: ([x]) => x?.abs() ?? null,
+  floor: ([x]) => x?.floor() ?? null,
+  ceil: ([x]) => x?.ceil() ?? null,
+  round: ([x]) => x?.round() ?? null,
+  sqrt: ([x]) => x?.sqrt() ?? null,
+  min: (args) => (args.length > 0 ? args.reduce((a, b) => (b.compare(a) < 0 ? b : a)) : null),
+  max: (args) => (args.length > 0 ? args.reduce((a, b) => (b.compare(a) > 0 ? b : a)) : null),
+  ...Object.fromEntries(Object.keys(INTEGER_FUNCTIONS).map((name) => [name, integerFunction(name)])),
+}
+
+const MAX_USER_FUNCTION_DEPTH = 64
+
+// Evaluates the same trees as MathEvaluator but keeps +, -, *, / and whole powers exact
+export class ExactEvaluator {
+  private functions: Map<string, MathFunction>
+  private variables: Map<string, number>
+  private exactVariables: Map<string, Rational>
+  private parser = new MathExpressionParser()
+  private bodies: Map<string, MathNode> = new Map()
+  private approximate = false
+  private depth = 0
+
+  constructor(
+    functions: Map<string, MathFunction>,
+    variables: Map<string, number> = new Map(),
+    exactVariables: Map<string, Rational> = new Map(),
+  ) {
+    this.functions = functions
+    this.variables = variables
+    this.exactVariables = exactVariables
+  }
+
+  public evaluate(node: MathNode): ExactResult {
+    this.approximate = false
+    this.depth = 0
+    const value = this.evaluateNode(node, new Map())
+    return { value, exact: !this.approximate }
+  }
+
+  private evaluateNode(node: MathNode, scope: Map<string, Rational>): Rational {
+    switch (node.type) {
+      case "number":
+        return Rational.parse(node.raw)
+
+      case "identifier":
+        return this.resolveIdentifier(node.name, node.position, scope)
+
+      case "unary": {
+        const value = this.evaluateNode(node.argument, scope)
+        return node.operator === "-" ? value.negate() : value
+      }
+
+      case "binary": {
+        const left = this.evaluateNode(node.left, scope)
+        const right = this.evaluateNode(node.right, scope)
+        return this.applyOperator(node.operator, left, right, node.position)
+      }
+
+      case "call": {
+        const args = node.args.map((arg) => this.evaluateNode(arg, scope))
+        return this.callFunction(node.name, args, node.position)
+      }
+    }
+  }
+
+  private resolveIdentifier(name: string, position: number, scope: Map<string, Rational>): Rational {
+    const local = scope.get(name) ?? this.exactVariables.get(name)
+    if (local) return local
+
+    if (this.variables.has(name)) {
+      return Rational.fromNumber(this.variables.get(name)!)
+    }
+
+    const constant = MATH_CONSTANTS[name.toLowerCase()]
+    if (constant !== undefined) {
+      this.approximate = true
+      return Rational.fromNumber(constant)
+    }
+
+    throw new MathEvaluationError(`Unknown variable '${name}'`, position)
+  }
+
+  private applyOperator(operator: BinaryOperator, left: Rational, right: Rational, position: number): Rational {
+    try {
+      switch (operator) {
+        case "+":
+          return left.add(right)
+        case "-":
+          return left.subtract(right)
+        case "*":
+          return left.multiply(right)
+        case "/":
+          return left.divide(right)
+        case "^":
+          return left.pow(right) ?? this.approximateResult(Math.pow(left.toNumber(), right.toNumber()), position)
+      }
+    } catch (error) {
+      if (error instanceof RangeError) throw new MathEvaluationError(error.message, position)
+      throw error
+    }
+  }
+
+  private callFunction(name: string, args: Rational[], position: number): Rational {
+    const mathFunc = this.functions.get(name)
+    if (!mathFunc) {
+      throw new MathEvaluationError(`Unknown function '${name}'`, position)
+    }
+
+    if (mathFunc.definition) {
+      return this.callUserFunction(mathFunc, args, position)
+    }
+
+    const exact = EXACT_FUNCTIONS[name]?.(args)
+    if (exact) return exact
+
+    const result = mathFunc.func(...args.map((arg) => arg.toNumber()))
+    if (typeof result === "string") {
+      throw new MathEvaluationError(result, position)
+    }
+    return this.approximateResult(result, position)
+  }
+
+  // User functions are re-evaluated over rationals so f(x) = x/3 stays exact
+  private callUserFunction(mathFunc: MathFunction, args: Rational[], position: number): Rational {
+    const { params, expression } = mathFunc.definition!
+    if (args.length !== params.length) {
+      throw new MathEvaluationError(`${mathFunc.name} expects ${params.length} argument(s)`, position)
+    }
+    if (this.depth >= MAX_USER_FUNCTION_DEPTH) {
+      throw new MathEvaluationError(`${mathFunc.name} calls itself too deeply`, position)
+    }
+
+    let body = this.bodies.get(mathFunc.name)
+    if (!body) {
+      body = this.parser.parse(expression)
+      this.bodies.set(mathFunc.name, body)
+    }
+
+    this.depth++
+    try {
+      return this.evaluateNode(body, new Map(params.map((param, i) => [param, args[i]])))
+    } finally {
+      this.depth--
+    }
+  }
+
+  private approximateResult(value: number, position: number): Rational {
+    if (Number.isNaN(value)) {
+      throw new MathEvaluationError("Result is not a number", position)
+    }
+    if (!Number.isFinite(value)) {
+      throw new MathEvaluationError("Result is too large to represent", position)
+    }
+    this.approximate = true
+    return Rational.fromNumber(value)
+  }
+}
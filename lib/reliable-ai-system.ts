@@ -1,14 +1,149 @@
+import { differenceInCalendarDays, differenceInMinutes, format, startOfDay } from "date-fns"
+import {
+  MATH_CONSTANTS,
+  MathEvaluationError,
+  MathEvaluator,
+  MathExpressionParser,
+  MathParseError,
+  containsCall,
+  createUserFunction,
+  extractMathExpression,
+  formatExpression,
+  formatMathNumber,
+  formatParseError,
+  summarizeSteps,
+  validateUserFunction,
+  type MathExplanation,
+  type MathFunction,
+  type MathNode,
+  type MathOutputMode,
+} from "./math-expression"
+import {
+  LogicError,
+  formatLogic,
+  logicEquivalent,
+  minimalCnf,
+  minimalDnf,
+  parseLogicQuery,
+  truthTable,
+  type LogicQuery,
+  type TruthTable,
+} from "./boolean-logic"
+import { EquationSolver, formatRational } from "./equation-solver"
+import {
+  FinanceError,
+  addVat,
+  adjustByPercent,
+  amortizationSchedule,
+  compoundAmount,
+  financeOrError,
+  internalRateOfReturn,
+  loanPayment,
+  markupPrice,
+  netPresentValue,
+  parseFinanceQuery,
+  percentChange,
+  removeVat,
+  simpleInterest,
+  splitTip,
+  type AmortizationRow,
+  type FinanceQuery,
+} from "./finance"
+import {
+  DateError,
+  dateDifference,
+  formatOffset,
+  formatZonedTime,
+  parseDateQuery,
+  timeZoneOffset,
+  zonedTimeToInstant,
+  type DateQuery,
+  type DateUnit,
+} from "./date-calculator"
+import { FunctionPlotter, PlotError, type PlotData, type PlotQuery } from "./function-plotter"
+import {
+  NumberTheoryError,
+  bitwise,
+  formatInBase,
+  isCertainlyPrime,
+  isIntegerFunction,
+  isPrime,
+  parseNumberTheoryQuery,
+  primeFactors,
+  type NumberTheoryQuery,
+} from "./number-theory"
+import { readNumberWords, rewriteNumberWords, spellNumber } from "./number-words"
+import {
+  MemoryStore,
+  citeEntries,
+  describeForgetResult,
+  describeMemory,
+  describeMemoryUpdates,
+  parseForgetCommand,
+  resolveForgetReply,
+  type ForgetResult,
+  type MemoryAnswer,
+  type MemoryCitation,
+  type MemoryEdit,
+  type MemoryEntry,
+  type MemoryUpdate,
+} from "./memory-store"
+import { describeDigest, describeMention, parseMemoryTimeQuery } from "./memory-timeline"
+import { MatrixCalculator, MatrixError, describeSize, isMatrix, type MatrixQuery } from "./matrix"
+import { ProfileError, ProfileManager, scopedKey, type ProfileExport, type UserProfile } from "./profile-manager"
+import { ExactEvaluator, Rational } from "./rational-number"
+import { SequenceError, findSequenceRule, formatTerm, parseSequenceQuery, type SequenceQuery } from "./sequence-solver"
+import {
+  StatisticsError,
+  linearRegression,
+  correlation,
+  mean,
+  median,
+  mode,
+  parseStatisticsQuery,
+  percentile,
+  standardDeviation,
+  sum,
+  variance,
+  type StatisticsQuery,
+} from "./statistics"
+import { UnitConversionError, UnitConverter, type ConversionQuery } from "./unit-converter"
+
 interface ChatMessage {
   id: string
   role: "user" | "assistant"
   content: string
   timestamp: number
   confidence?: number
+  table?: ResultTable
+  metadata?: ResponseMetadata
+}
+
+// Tabular detail shown under a reply, e.g. a statistics summary
+interface ResultTable {
+  headers: string[]
+  rows: string[][]
+}
+
+// Extra detail the chat window can show alongside the text, e.g. math steps
+interface ResponseMetadata {
+  explanation?: MathExplanation
+  plot?: PlotData
+  // User messages a memory-based answer came from
+  sources?: MemoryCitation[]
 }
 
 interface AIResponse {
   content: string
   confidence: number
+  table?: ResultTable
+  metadata?: ResponseMetadata
+}
+
+interface MathResult {
+  value: number
+  exact?: Rational
+  display: string
 }
 
 interface AIStats {
@@ -22,20 +157,6 @@ interface AIStats {
   responseTime: number
 }
 
-interface MemoryEntry {
-  key: string
-  value: string
-  timestamp: number
-  importance: number
-}
-
-interface MathFunction {
-  name: string
-  description: string
-  examples: string[]
-  func: (...args: number[]) => number | string
-}
-
 interface Suggestion {
   text: string
   type: "question" | "topic" | "action"
@@ -44,8 +165,24 @@ interface Suggestion {
 export class ReliableAISystem {
   private conversationHistory: ChatMessage[] = []
   private vocabulary: Map<string, string> = new Map()
-  private memory: Map<string, MemoryEntry> = new Map()
+  private memory = new MemoryStore()
+  // Matches from an ambiguous forget request, waiting for the user to confirm
+  private pendingForget: MemoryEntry[] = []
+  private profiles = new ProfileManager()
+  // A message that arrived before we knew whose profile it belongs to
+  private heldMessage: { text: string; id: string } | null = null
   private mathFunctions: Map<string, MathFunction> = new Map()
+  private mathParser = new MathExpressionParser()
+  private mathVariables: Map<string, number> = new Map()
+  // Exact values behind mathVariables, kept for this session only
+  private exactVariables: Map<string, Rational> = new Map()
+  private mathOutputMode: MathOutputMode = "decimal"
+  private mathPrecision = 12
+  private showMathSteps = false
+  private spellMathAnswers = false
+  private equationSolver = new EquationSolver(this.mathFunctions)
+  private unitConverter = new UnitConverter()
+  private matrixCalculator = new MatrixCalculator()
   private isInitialized = false
   private systemStatus: "loading" | "ready" | "enhanced" = "loading"
   private responseTimes: number[] = []
@@ -55,6 +192,8 @@ export class ReliableAISystem {
     // Initialize with basic vocabulary immediately
     this.initializeBasicVocabulary()
     this.initializeBasicMathFunctions()
+    this.initializeUnitConversion()
+    this.initializeFinanceFunctions()
   }
 
   public async initialize(): Promise<void> {
@@ -75,6 +214,9 @@ export class ReliableAISystem {
       // Load math functions
       this.loadMathFunctions()
 
+      // Load math variables from earlier calculations
+      this.loadMathVariables()
+
       // System is ready for basic operations
       this.systemStatus = "ready"
       this.isInitialized = true
@@ -179,188 +321,1689 @@ export class ReliableAISystem {
     basicMath.forEach((func) => this.mathFunctions.set(func.name, func))
   }
 
+  private initializeUnitConversion(): void {
+    // Registered next to the math functions so it is counted and exported with them;
+    // the conversion itself is asked in words ("convert 5 miles to km")
+    const categories = Object.keys(this.unitConverter.getSupportedUnits())
+    this.addMathFunction({
+      name: "convert",
+      description: `Unit conversion (${categories.join(", ")})`,
+      examples: ["convert 5 miles to km", "72 F in C", "100 km/h to m/s"],
+      func: () => "Ask for conversions in words, e.g. 'convert 5 miles to km'",
+    })
+  }
+
+  private initializeFinanceFunctions(): void {
+    // Rates are percentages, so pmt(200000, 6, 360) is a 6% loan over 360 months
+    const financeFunctions: MathFunction[] = [
+      {
+        name: "simpleinterest",
+        description: "Simple interest: principal, rate %, years",
+        examples: ["simpleinterest(1000, 5, 3)", "simple interest on $1000 at 5% for 3 years"],
+        func: (principal: number, rate: number, years: number) => simpleInterest(principal, rate, years),
+      },
+      {
+        name: "fv",
+        description: "Compound growth: principal, rate %, years, compounding periods per year (default 1)",
+        examples: ["fv(1000, 5, 10, 12)", "$1000 at 5% compounded monthly for 10 years"],
+        func: (principal: number, rate: number, years: number, periods = 1) =>
+          financeOrError(() => compoundAmount(principal, rate, years, periods)),
+      },
+      {
+        name: "pmt",
+        description: "Monthly loan payment: principal, annual rate %, months",
+        examples: ["pmt(200000, 6, 360)", "monthly payment on a $200k loan at 6% over 30 years"],
+        func: (principal: number, rate: number, months: number) =>
+          financeOrError(() => loanPayment(principal, rate, months)),
+      },
+      {
+        name: "npv",
+        description: "Net present value: rate %, then cash flows starting today",
+        examples: ["npv(8, -1000, 300, 400, 500)", "npv at 8% of -1000, 300, 400, 500"],
+        func: (rate: number, ...cashFlows: number[]) => financeOrError(() => netPresentValue(rate, cashFlows)),
+      },
+      {
+        name: "irr",
+        description: "Internal rate of return (%) of cash flows starting today",
+        examples: ["irr(-1000, 300, 400, 500)", "irr of -1000, 300, 400, 500"],
+        func: (...cashFlows: number[]) => financeOrError(() => internalRateOfReturn(cashFlows)),
+      },
+      {
+        name: "pctchange",
+        description: "Percentage change from one value to another",
+        examples: ["pctchange(80, 100)", "percentage change from 80 to 100"],
+        func: (from: number, to: number) => financeOrError(() => percentChange(from, to)),
+      },
+      {
+        name: "pctadjust",
+        description: "Value after a percentage increase (or decrease, with a negative %)",
+        examples: ["pctadjust(50, 10)", "increase 50 by 10%", "120 decreased by 25%", "15% off 80"],
+        func: (amount: number, percent: number) => adjustByPercent(amount, percent),
+      },
+      {
+        name: "tip",
+        description: "Amount each person pays: bill, tip %, people (default 1)",
+        examples: ["tip(64.5, 18, 3)", "18% tip on $64.50 split 3 ways"],
+        func: (bill: number, percent: number, people = 1) =>
+          financeOrError(() => splitTip(bill, percent, people).perPerson),
+      },
+      {
+        name: "vat",
+        description: "Price including VAT: net price, VAT rate %",
+        examples: ["vat(100, 20)", "add 20% VAT to 100", "remove 20% VAT from 120"],
+        func: (net: number, rate: number) => addVat(net, rate),
+      },
+      {
+        name: "markup",
+        description: "Selling price after a markup: cost, markup %",
+        examples: ["markup(80, 25)", "80 with a 25% markup"],
+        func: (cost: number, percent: number) => markupPrice(cost, percent),
+      },
+    ]
+
+    financeFunctions.forEach((mathFunc) => this.addMathFunction(mathFunc))
+  }
+
   private async enhanceSystemInBackground(): Promise<void> {
     try {
       // Add more vocabulary gradually
       await this.loadExtendedVocabulary()
 
-      // System is now enhanced
-      this.systemStatus = "enhanced"
-      console.log("🎯 System enhanced with extended vocabulary!")
+      // System is now enhanced
+      this.systemStatus = "enhanced"
+      console.log("🎯 System enhanced with extended vocabulary!")
+    } catch (error) {
+      console.warn("⚠️ Background enhancement failed, but system remains functional:", error)
+    }
+  }
+
+  private async loadExtendedVocabulary(): Promise<void> {
+    const extendedWords = [
+      // Technology
+      "computer",
+      "internet",
+      "website",
+      "software",
+      "program",
+      "code",
+      "data",
+      "artificial",
+      "intelligence",
+      "machine",
+      "learning",
+      "algorithm",
+
+      // Emotions
+      "feel",
+      "feeling",
+      "emotion",
+      "mood",
+      "calm",
+      "nervous",
+      "confident",
+      "surprised",
+      "confused",
+      "curious",
+      "interested",
+      "bored",
+
+      // Actions
+      "create",
+      "build",
+      "make",
+      "design",
+      "develop",
+      "improve",
+      "fix",
+      "learn",
+      "teach",
+      "study",
+      "practice",
+      "try",
+      "attempt",
+      "succeed",
+
+      // Math terms
+      "equation",
+      "formula",
+      "function",
+      "variable",
+      "calculate",
+      "result",
+      "square",
+      "root",
+      "power",
+      "logarithm",
+      "sine",
+      "cosine",
+      "tangent",
+    ]
+
+    // Add words in small batches with delays to avoid blocking
+    for (let i = 0; i < extendedWords.length; i += 10) {
+      const batch = extendedWords.slice(i, i + 10)
+      batch.forEach((word) => this.vocabulary.set(word.toLowerCase(), "extended"))
+
+      // Small delay to keep UI responsive
+      if (i % 20 === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 1))
+      }
+    }
+  }
+
+  public addVocabularyWord(word: string, category: string): void {
+    this.vocabulary.set(word.toLowerCase(), category)
+  }
+
+  public addMathFunction(mathFunc: MathFunction): void {
+    this.mathFunctions.set(mathFunc.name, mathFunc)
+  }
+
+  public getMathFunctionCount(): number {
+    return this.mathFunctions.size
+  }
+
+  public setShowMathSteps(enabled: boolean): void {
+    this.showMathSteps = enabled
+  }
+
+  public isShowingMathSteps(): boolean {
+    return this.showMathSteps
+  }
+
+  // The chat window passes the id it shows the user message under, so memory citations can point at it
+  public async processMessage(userMessage: string, messageId: string = Date.now().toString()): Promise<AIResponse> {
+    // On a shared device, find out who is talking before reading or writing anyone's data
+    const profileResult = await this.processProfileMessage(userMessage, messageId)
+    if (profileResult) {
+      return profileResult
+    }
+    this.profiles.touch()
+
+    // Forget requests go before learning so "forget that I like pizza" isn't stored again
+    const forgetResult = this.processForgetCommand(userMessage)
+    if (forgetResult) {
+      this.saveConversation(userMessage, forgetResult, messageId)
+      return forgetResult
+    }
+
+    // Learn from user input
+    const memoryUpdates = this.learnFromMessage(userMessage, messageId)
+
+    // Dates go before math so "what day is 2027-03-14" isn't read as a subtraction
+    const dateResult = this.processDateQuery(userMessage)
+    if (dateResult) {
+      this.saveConversation(userMessage, dateResult, messageId)
+      return dateResult
+    }
+
+    // Check if it's a math question first
+    const mathResult = this.processMathQuery(userMessage)
+    if (mathResult) {
+      this.saveConversation(userMessage, mathResult, messageId)
+      return mathResult
+    }
+
+    // Generate response based on context and memory
+    const response = this.generateResponse(userMessage, memoryUpdates)
+
+    // Save conversation
+    this.saveConversation(userMessage, response, messageId)
+
+    return response
+  }
+
+  private async processProfileMessage(message: string, messageId: string): Promise<AIResponse | null> {
+    const ambiguous = this.profiles.isAmbiguous()
+    const asked = this.heldMessage !== null
+    const requested = this.profiles.requestedName(message)
+
+    let created: UserProfile | undefined
+    if (requested !== undefined) {
+      try {
+        created = this.createProfile(requested)
+      } catch (error) {
+        if (!(error instanceof ProfileError)) throw error
+        const response = { content: `I couldn't create that profile: ${error.message}.`, confidence: 0.6 }
+        if (!ambiguous) this.saveConversation(message, response, messageId)
+        return response
+      }
+    }
+
+    const named = created ?? this.profiles.identify(message, ambiguous || asked)
+    if (named) {
+      const switched = named.id !== this.profiles.getActiveProfile().id
+      // Switching drops the held message, so take it first
+      const held = this.heldMessage
+      this.switchProfile(named.id)
+      const greeting = created
+        ? `Hi ${named.name}! I've made you a profile and switched to it.`
+        : `Hi ${named.name}! ${switched ? "I've switched to your profile." : "Good to have you back."}`
+
+      // Answer whatever they asked before we knew who they were
+      if (held) {
+        const response = await this.processMessage(held.text, held.id)
+        return { ...response, content: `${greeting} ${response.content}` }
+      }
+
+      const response = { content: greeting, confidence: 0.95 }
+      this.saveConversation(message, response, messageId)
+      return response
+    }
+
+    if (ambiguous && asked) {
+      // Asking again would loop forever: offer a way out instead
+      const name = this.profiles.introducedName(message, true)
+      return {
+        content: name
+          ? `I don't have a profile called ${name}. If that's you, say "create a profile for ${name}", ` +
+            "or pick yours in the profile switcher."
+          : `I still don't know who you are. Tell me your name, say "create a profile for" and your name, ` +
+            "or pick a profile in the profile switcher.",
+        confidence: 0.8,
+      }
+    }
+
+    if (ambiguous) {
+      this.heldMessage = { text: message, id: messageId }
+      // Without naming the profiles: whoever is at the screen may not be one of them
+      return {
+        content: "Before I answer, who am I talking to?",
+        confidence: 0.9,
+      }
+    }
+    return null
+  }
+
+  public getProfiles(): UserProfile[] {
+    return this.profiles.getProfiles()
+  }
+
+  public getActiveProfile(): UserProfile {
+    return this.profiles.getActiveProfile()
+  }
+
+  public createProfile(name: string): UserProfile {
+    return this.profiles.createProfile(name)
+  }
+
+  public renameProfile(id: string, name: string): UserProfile {
+    return this.profiles.renameProfile(id, name)
+  }
+
+  public exportProfile(id?: string): ProfileExport {
+    return this.profiles.exportProfile(id)
+  }
+
+  // Conversation, memory, learned words, user functions and variables all belong to the profile
+  public switchProfile(id: string): UserProfile {
+    const profile = this.profiles.switchProfile(id)
+    // A message held for "who am I talking to?" isn't answered under whoever was picked instead
+    this.heldMessage = null
+    this.loadProfileData()
+    console.log(`👤 Switched to profile ${profile.name}`)
+    return profile
+  }
+
+  public deleteProfile(id: string): UserProfile {
+    const wasActive = id === this.profiles.getActiveProfile().id
+    const active = this.profiles.deleteProfile(id)
+    if (wasActive) {
+      this.loadProfileData()
+    }
+    return active
+  }
+
+  private loadProfileData(): void {
+    this.conversationHistory = []
+    this.pendingForget = []
+    this.vocabulary.forEach((category, word) => {
+      if (category === "learned") this.vocabulary.delete(word)
+    })
+    this.mathFunctions.forEach((func, name) => {
+      if (func.definition) this.mathFunctions.delete(name)
+    })
+    this.mathVariables = new Map()
+    this.exactVariables = new Map()
+    this.responseTimes = []
+    this.feedbackData = new Map()
+
+    this.loadConversationHistory()
+    this.loadMemory()
+    this.loadVocabulary()
+    this.loadMathFunctions()
+    this.loadMathVariables()
+  }
+
+  private processForgetCommand(message: string): AIResponse | null {
+    if (this.pendingForget.length > 0) {
+      const candidates = this.pendingForget
+      this.pendingForget = []
+      const chosen = resolveForgetReply(message, candidates)
+      if (chosen) {
+        if (chosen.length === 0) {
+          return { content: "Okay, I'll keep all of that.", confidence: 0.9 }
+        }
+        const removed = this.memory.remove(chosen)
+        this.saveMemory()
+        return { content: describeForgetResult({ removed, ambiguous: [] }), confidence: 0.9 }
+      }
+    }
+
+    const command = parseForgetCommand(message)
+    if (!command) return null
+
+    if (command.kind === "everything") {
+      const count = this.clearMemory()
+      return {
+        content:
+          count > 0
+            ? `Done, I've forgotten everything I knew about you (${count} ${count === 1 ? "memory" : "memories"}).`
+            : "My memory is already empty, so there's nothing to forget.",
+        confidence: 0.95,
+      }
+    }
+
+    // "forget that" / "forget about it" only ever means what the previous message told us
+    const previous = this.conversationHistory.filter((msg) => msg.role === "user").pop()
+    const result = this.forgetMemory(command.query, command.kind === "about", previous?.id)
+    this.pendingForget = result.ambiguous
+    return { content: describeForgetResult(result, command.query), confidence: result.removed.length > 0 ? 0.9 : 0.7 }
+  }
+
+  public forgetMemory(query: string, everyMatch = false, previousMessageId?: string): ForgetResult {
+    const result = this.memory.forget(query, everyMatch, previousMessageId)
+    if (result.removed.length > 0) {
+      this.saveMemory()
+    }
+    return result
+  }
+
+  public getMemoryEntries(): MemoryEntry[] {
+    return this.memory.getEntries().map((entry) => ({ ...entry }))
+  }
+
+  public updateMemoryEntry(key: string, changes: MemoryEdit): MemoryEntry | null {
+    const entry = this.memory.edit(key, changes)
+    if (entry) {
+      this.saveMemory()
+    }
+    return entry && { ...entry }
+  }
+
+  public deleteMemoryEntries(keys: string[]): number {
+    const removed = this.memory.remove(this.memory.getEntries().filter((entry) => keys.includes(entry.key)))
+    if (removed.length > 0) {
+      this.saveMemory()
+    }
+    return removed.length
+  }
+
+  public pinMemory(key: string, pinned = true): boolean {
+    const found = this.memory.pin(key, pinned)
+    if (found) {
+      this.saveMemory()
+    }
+    return found
+  }
+
+  public setMemoryCapacity(capacity: number): void {
+    const evicted = this.memory.setCapacity(capacity)
+    if (evicted.length > 0) {
+      console.log(`🧠 Evicted ${evicted.length} low-value memories`)
+    }
+    this.saveMemory()
+  }
+
+  public clearMemory(): number {
+    const count = this.memory.clear()
+    this.pendingForget = []
+    this.saveMemory()
+    return count
+  }
+
+  private processDateQuery(message: string): AIResponse | null {
+    const now = new Date()
+    try {
+      const query = parseDateQuery(message, now)
+      return query && this.describeDate(query, now)
+    } catch (error) {
+      if (error instanceof DateError) {
+        return {
+          content: `I couldn't work that out: ${error.message}.`,
+          confidence: 0.4,
+        }
+      }
+      throw error
+    }
+  }
+
+  private continueSequence(query: SequenceQuery): AIResponse {
+    try {
+      const rule = findSequenceRule(query.terms, query.count)
+      const next = rule.next.map(formatTerm)
+      const listed = next.length === 1 ? next[0] : `${next.slice(0, -1).join(", ")} and ${next[next.length - 1]}`
+      const content =
+        `${next.length === 1 ? "The next term is" : "The next terms are"} ${listed}. ` +
+        `Rule: ${rule.description} (${rule.formula}). Confidence: ${Math.round(rule.confidence * 100)}%.`
+
+      const rows = [...query.terms, ...rule.next].map((term, i) => [
+        String(i + 1),
+        formatTerm(term),
+        i < query.terms.length ? "given" : "predicted",
+      ])
+      this.setMathVariable("ans", rule.next[0].toNumber(), rule.next[0])
+      return { content, confidence: rule.confidence, table: { headers: ["n", "a(n)", ""], rows } }
+    } catch (error) {
+      if (error instanceof SequenceError) {
+        return {
+          content: `I couldn't work that out: ${error.message}.`,
+          confidence: 0.4,
+        }
+      }
+      throw error
+    }
+  }
+
+  private processLogicQuery(message: string): AIResponse | null {
+    try {
+      const query = parseLogicQuery(message)
+      return query && this.describeLogic(query)
+    } catch (error) {
+      if (error instanceof LogicError) {
+        return {
+          content: `I couldn't work that out: ${error.message}.`,
+          confidence: 0.4,
+        }
+      }
+      throw error
+    }
+  }
+
+  private describeLogic(query: LogicQuery): AIResponse {
+    const mark = (value: boolean) => (value ? "T" : "F")
+    const assignment = (table: TruthTable, row: number) =>
+      table.variables.map((name, i) => `${name} = ${mark(table.inputs[row][i])}`).join(", ")
+
+    switch (query.type) {
+      case "truth-table": {
+        const table = truthTable(query.expression)
+        const expression = formatLogic(query.expression)
+        const trueRows = table.results.filter(Boolean).length
+        return {
+          content:
+            `Truth table for ${expression}: true in ${trueRows} of ${table.results.length} rows. ` +
+            `Simplest form: ${formatLogic(minimalDnf(query.expression))}.`,
+          confidence: 0.95,
+          table: {
+            headers: [...table.variables, expression],
+            rows: table.inputs.map((inputs, row) => [...inputs.map(mark), mark(table.results[row])]),
+          },
+        }
+      }
+      case "simplify": {
+        const expression = formatLogic(query.expression)
+        const forms = [
+          query.form !== "cnf" ? `minimal DNF ${formatLogic(minimalDnf(query.expression))}` : "",
+          query.form !== "dnf" ? `minimal CNF ${formatLogic(minimalCnf(query.expression))}` : "",
+        ].filter((form) => form !== "")
+        return { content: `${expression} has ${forms.join(" and ")}.`, confidence: 0.95 }
+      }
+      case "equivalence": {
+        const { equivalent, table, other } = logicEquivalent(query.left, query.right)
+        const left = formatLogic(query.left)
+        const right = formatLogic(query.right)
+        // Bracketed in the sentence so "A and B" and "B and A" don't run together
+        const [leftText, rightText] = [formatLogic(query.left, "iff"), formatLogic(query.right, "iff")]
+        const firstDifference = table.results.findIndex((result, row) => result !== other[row])
+        const content = equivalent
+          ? `Yes, ${leftText} and ${rightText} are equivalent: they agree in every row.`
+          : `No, ${leftText} and ${rightText} are not equivalent. They differ when ${assignment(table, firstDifference)}: ` +
+            `the first is ${mark(table.results[firstDifference])}, the second ${mark(other[firstDifference])}.`
+        return {
+          content,
+          confidence: 0.95,
+          table: {
+            headers: [...table.variables, left, right],
+            rows: table.inputs.map((inputs, row) => [...inputs.map(mark), mark(table.results[row]), mark(other[row])]),
+          },
+        }
+      }
+      case "classify": {
+        const table = truthTable(query.expression)
+        const expression = formatLogic(query.expression)
+        const trueRow = table.results.indexOf(true)
+        const falseRow = table.results.indexOf(false)
+        let content: string
+        if (query.property === "tautology") {
+          content =
+            falseRow === -1
+              ? `Yes, ${expression} is a tautology: it's true in every row.`
+              : `No, ${expression} is not a tautology. It's false when ${assignment(table, falseRow)}.`
+        } else if (query.property === "contradiction") {
+          content =
+            trueRow === -1
+              ? `Yes, ${expression} is a contradiction: it's false in every row.`
+              : `No, ${expression} is not a contradiction. It's true when ${assignment(table, trueRow)}.`
+        } else {
+          content =
+            trueRow === -1
+              ? `No, ${expression} is unsatisfiable: it's false in every row.`
+              : `Yes, ${expression} is satisfiable, for example with ${assignment(table, trueRow)}.`
+        }
+        return { content, confidence: 0.95 }
+      }
+    }
+  }
+
+  private describeDate(query: DateQuery, now: Date): AIResponse {
+    const fullDate = (date: Date) => format(date, "EEEE, MMMM d, yyyy")
+    const count = (value: number, unit: string) =>
+      `${value.toLocaleString("en-US")} ${value === 1 ? unit : `${unit}s`}`
+    const today = startOfDay(now)
+
+    switch (query.type) {
+      case "date": {
+        const days = differenceInCalendarDays(query.date, today)
+        const expression = query.expression.charAt(0).toUpperCase() + query.expression.slice(1)
+        const relative =
+          // Relative expressions ("in 3 weeks", "yesterday") already say how far away they are
+          /\b(?:today|now|ago|tomorrow|yesterday)\b/i.test(query.expression) || days === 0
+            ? ""
+            : days > 0
+              ? `, ${count(days, "day")} from today`
+              : `, ${count(-days, "day")} ago`
+        return {
+          content: `${expression} ${days < 0 ? "was" : "is"} ${fullDate(query.date)}${relative}.`,
+          confidence: 0.95,
+        }
+      }
+      case "difference": {
+        // Always measure forwards and phrase the direction in the sentence
+        const [start, end] = query.from <= query.to ? [query.from, query.to] : [query.to, query.from]
+        const difference = dateDifference(start, end)
+        const [months, monthDays] = difference.monthsAndDays
+        const weeks = Math.floor(difference.days / 7)
+        const span: Record<DateUnit, string> = {
+          days: count(difference.days, "day"),
+          weeks:
+            weeks === 0
+              ? count(difference.days, "day")
+              : `${count(weeks, "week")}${difference.days % 7 ? ` and ${count(difference.days % 7, "day")}` : ""}`,
+          months:
+            months === 0
+              ? count(monthDays, "day")
+              : `${count(months, "month")}${monthDays ? ` and ${count(monthDays, "day")}` : ""}`,
+          years: `${count(difference.years, "year")}${
+            months % 12 ? ` and ${count(months % 12, "month")}` : ""
+          }`,
+          "business days": count(difference.businessDays, "business day"),
+          hours: count(difference.hours, "hour"),
+          minutes: count(differenceInMinutes(end, start), "minute"),
+        }
+        const amount = span[query.unit]
+
+        let content: string
+        if (query.fromText === "now") {
+          content =
+            difference.days === 0 && query.unit !== "hours" && query.unit !== "minutes"
+              ? `${fullDate(query.to)} is today.`
+              : query.to < today
+                ? `${fullDate(query.to)} was ${amount} ago.`
+                : `There ${amount.startsWith("1 ") ? "is" : "are"} ${amount} until ${fullDate(query.to)}.`
+        } else if (query.toText === "now") {
+          content = `It has been ${amount} since ${fullDate(query.from)}.`
+        } else {
+          content = `There ${amount.startsWith("1 ") ? "is" : "are"} ${amount} between ${fullDate(start)} and ${fullDate(end)}.`
+        }
+
+        const rows = [
+          ["Days", span.days],
+          ["Weeks", span.weeks],
+          ["Months", span.months],
+          ...(difference.years > 0 ? [["Years", span.years]] : []),
+          ["Business days", span["business days"]],
+          ["Hours", span.hours],
+        ]
+        const table = difference.days === 0 ? undefined : { headers: ["Unit", "Difference"], rows }
+        return { content, confidence: 0.95, table }
+      }
+      case "current-time": {
+        if (!query.timeZone) {
+          return { content: `It's ${formatZonedTime(now, null)}.`, confidence: 0.95 }
+        }
+        const offset = formatOffset(timeZoneOffset(query.timeZone, now))
+        return {
+          content: `In ${query.timeZone} it's ${formatZonedTime(now, query.timeZone)} (${offset}).`,
+          confidence: 0.95,
+        }
+      }
+      case "convert-time": {
+        const instant = zonedTimeToInstant(query.date, query.time, query.from)
+        const fromOffset = formatOffset(timeZoneOffset(query.from, instant))
+        const toOffset = formatOffset(timeZoneOffset(query.to, instant))
+        return {
+          content:
+            `${formatZonedTime(instant, query.from)} in ${query.from} (${fromOffset}) is ` +
+            `${formatZonedTime(instant, query.to)} in ${query.to} (${toOffset}).`,
+          confidence: 0.95,
+        }
+      }
+      case "zone-difference": {
+        const fromOffset = timeZoneOffset(query.from, now)
+        const toOffset = timeZoneOffset(query.to, now)
+        const gap = toOffset - fromOffset
+        const hours = this.formatDecimal(Math.abs(gap) / 60)
+        const content =
+          gap === 0
+            ? `${query.to} and ${query.from} are on the same time right now (${formatOffset(toOffset)}).`
+            : `${query.to} is ${hours} hour${hours === "1" ? "" : "s"} ${gap > 0 ? "ahead of" : "behind"} ${query.from} ` +
+              `right now (${formatOffset(toOffset)} vs ${formatOffset(fromOffset)}).`
+        return { content, confidence: 0.95 }
+      }
+    }
+  }
+
+  private processMathQuery(input: string): AIResponse | null {
+    // "... in words" spells this one answer out
+    const inWords = /\s+in\s+words\s*[?.!]?\s*$/i.test(input)
+    const stripped = inWords ? input.replace(/\s+in\s+words\s*[?.!]?\s*$/i, "") : input
+    // Spelled-out numbers and operator words: "twenty three times four" -> "23 * 4"
+    const message = rewriteNumberWords(stripped) ?? stripped
+    const lowerMessage = message.toLowerCase()
+
+    // Output mode: "use exact mode", "switch to scientific notation"
+    const modeCommand =
+      message.match(
+        /^\s*(?:use|switch to|set (?:the )?(?:math |output )?mode to)\s+(exact|decimal|scientific)(?:\s+(?:mode|output|notation|arithmetic))?\s*[.!]?\s*$/i,
+      ) ?? message.match(/^\s*(exact|decimal|scientific)\s+(?:mode|output|notation)(?:\s+on)?\s*[.!]?\s*$/i)
+    if (modeCommand) {
+      return this.setMathOutputMode(modeCommand[1].toLowerCase() as MathOutputMode)
+    }
+
+    // Precision: "set precision to 6", "use 20 digits"
+    const precisionCommand =
+      message.match(/^\s*(?:set\s+)?(?:the\s+)?precision\s*(?:to|=|:)?\s*(\d+)(?:\s+(?:significant\s+)?digits)?\s*[.!]?\s*$/i) ??
+      message.match(/^\s*use\s+(\d+)\s+(?:significant\s+)?digits\s*[.!]?\s*$/i)
+    if (precisionCommand) {
+      return this.setMathPrecision(Number.parseInt(precisionCommand[1], 10))
+    }
+
+    // Steps toggle: "show steps", "hide steps", "steps off"
+    const stepsToggle =
+      message.match(/^\s*(show|hide)\s+(?:math\s+|the\s+)?steps\s*[.!]?\s*$/i) ??
+      message.match(/^\s*(?:turn\s+)?steps\s+(on|off)\s*[.!]?\s*$/i)
+    if (stepsToggle) {
+      this.showMathSteps = /show|on/i.test(stepsToggle[1])
+      return {
+        content: this.showMathSteps
+          ? "Step-by-step mode is on: calculations will include their steps."
+          : "Step-by-step mode is off.",
+        confidence: 0.95,
+      }
+    }
+
+    // Spelled-out answers: "spell out answers", "answers in digits"
+    const spellToggle =
+      message.match(/^\s*(?:spell out|write out)\s+(?:the\s+|my\s+)?answers(?:\s+(on|off))?\s*[.!]?\s*$/i) ??
+      message.match(/^\s*(?:give\s+)?answers\s+in\s+(words|digits|numbers)\s*[.!]?\s*$/i) ??
+      message.match(/^\s*(stop)\s+spelling\s+out\s+answers\s*[.!]?\s*$/i)
+    if (spellToggle) {
+      this.spellMathAnswers = !/off|digits|numbers|stop/i.test(spellToggle[1] ?? "")
+      return {
+        content: this.spellMathAnswers
+          ? "I'll spell out calculation answers in words as well."
+          : "Calculation answers will be in digits only.",
+        confidence: 0.95,
+      }
+    }
+
+    // One-off explanation: "explain 3 + 4 * 2", "show steps for (2 + 3)^2"
+    const explain = message.match(/^\s*(?:explain|show (?:me )?(?:the )?steps (?:for|of)|steps for)\s+(.+?)\s*\??\s*$/i)
+    if (explain) {
+      const target = extractMathExpression(
+        explain[1],
+        (name) => this.mathFunctions.has(name),
+        (name) => this.mathVariables.has(name),
+      )
+      if (target) {
+        return this.evaluateMathExpression(target, true, inWords || this.spellMathAnswers)
+      }
+    }
+
+    if (/^\s*(?:show|list)\s+(?:my\s+)?variables\s*\??\s*$/i.test(message)) {
+      return this.describeMathVariables()
+    }
+
+    if (/what (?:math )?functions do you know|(?:show|list) (?:my |all )?(?:math )?functions/i.test(message)) {
+      return this.describeMathFunctions()
+    }
+
+    // Function definition: "define f(x) = x^2 + 2x + 1"
+    const definition = message.match(/^\s*define\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\)\s*=\s*(.+?)\s*$/i)
+    if (definition) {
+      const params = definition[2].split(",").map((param) => param.trim())
+      return this.defineMathFunction(definition[1].toLowerCase(), params[0] === "" ? [] : params, definition[3])
+    }
+
+    // Plots: "plot sin(x) from -pi to pi", "plot x^2, 2x+1"
+    const plotQuery = new FunctionPlotter(this.mathFunctions, this.mathVariables).parseQuery(message)
+    if (plotQuery) {
+      return this.plotFunctions(plotQuery)
+    }
+
+    // Matrix and vector literals: "det [[1,2],[3,4]]", "solve [[2,1],[1,3]] x = [3,5]"
+    const matrixQuery = this.matrixCalculator.parseQuery(message)
+    if (matrixQuery) {
+      return this.calculateMatrix(matrixQuery)
+    }
+
+    // Equations and small linear systems: "solve 2x + 3 = 11", "solve x + y = 3, x - y = 1"
+    const equation = message.match(/^\s*solve\s+(?:for\s+[a-zA-Z_]\w*\s*[:,]\s*)?(.+?)\s*\??\s*$/i)
+    if (equation && /[=\d]/.test(equation[1])) {
+      return this.solveEquation(equation[1])
+    }
+
+    // Sequences: "what comes next: 2, 6, 12, 20", "next 5 terms of 1, 1, 2, 3, 5"
+    const sequence = parseSequenceQuery(message)
+    if (sequence) {
+      return this.continueSequence(sequence)
+    }
+
+    // Boolean logic: "truth table for (A and B) or not C", "simplify A or (A and B)".
+    // Read as typed, since the number-word rewrite would turn "not" and "and" into arithmetic
+    const logic = this.processLogicQuery(stripped)
+    if (logic) {
+      return logic
+    }
+
+    // Integers: "factor 360", "is 97 prime", "0xff in binary", "10 choose 3"
+    const numberTheory = parseNumberTheoryQuery(message)
+    if (numberTheory) {
+      return this.describeNumberTheory(numberTheory)
+    }
+
+    // Money: "monthly payment on a $250k loan at 4.5% over 30 years", "18% tip on $64.50 split 3 ways".
+    // The text as typed goes first so "100 plus 20% VAT" isn't read as arithmetic
+    const finance = parseFinanceQuery(stripped) ?? parseFinanceQuery(message)
+    if (finance) {
+      return this.describeFinance(finance, stripped.match(/[$£€]/)?.[0] ?? "")
+    }
+
+    // Statistics over lists: "mean of 3, 5, 9, 12", "correlation of 1,2,3 and 2,4,7"
+    const statistics = parseStatisticsQuery(message)
+    if (statistics) {
+      return this.describeStatistics(statistics)
+    }
+
+    // Unit conversion: "convert 5 miles to km", "72 F in C"
+    const conversion = this.unitConverter.parseQuery(message)
+    if (conversion) {
+      return this.convertUnits(conversion)
+    }
+
+    // Variable assignment: "let x = 12.5"
+    const assignment = message.match(/^\s*let\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*(.+?)\s*$/)
+    if (assignment) {
+      return this.assignMathVariable(assignment[1], assignment[2])
+    }
+
+    // A number on its own in words: "three quarters", "one million two hundred thousand and five"
+    const spelled = readNumberWords(stripped)
+    if (spelled) {
+      return this.evaluateMathExpression(spelled, false, inWords || this.spellMathAnswers)
+    }
+
+    // Full expressions with precedence, parentheses and nested function calls
+    const expression = extractMathExpression(
+      message,
+      (name) => this.mathFunctions.has(name),
+      (name) => this.mathVariables.has(name),
+    )
+    if (expression) {
+      return this.evaluateMathExpression(expression, this.showMathSteps, inWords || this.spellMathAnswers)
+    }
+
+    // Word-based math
+    const mathPatterns = [
+      { pattern: /add\s+(\d+(?:\.\d+)?)\s+(?:and|to)\s+(\d+(?:\.\d+)?)/, operation: "add" },
+      { pattern: /subtract\s+(\d+(?:\.\d+)?)\s+from\s+(\d+(?:\.\d+)?)/, operation: "subtract", reversed: true },
+      { pattern: /multiply\s+(\d+(?:\.\d+)?)\s+(?:by|and)\s+(\d+(?:\.\d+)?)/, operation: "multiply" },
+      { pattern: /divide\s+(\d+(?:\.\d+)?)\s+by\s+(\d+(?:\.\d+)?)/, operation: "divide" },
+      { pattern: /square\s+root\s+of\s+(\d+(?:\.\d+)?)/, operation: "sqrt" },
+    ]
+
+    for (const { pattern, operation, reversed } of mathPatterns) {
+      const match = lowerMessage.match(pattern)
+      if (match) {
+        const mathFunc = this.mathFunctions.get(operation)
+        if (mathFunc) {
+          try {
+            const numbers = match.slice(1).map((n) => Number.parseFloat(n))
+            const result = mathFunc.func(...(reversed ? numbers.reverse() : numbers))
+
+            return {
+              content: `The result is: ${result}`,
+              confidence: 0.95,
+            }
+          } catch (error) {
+            return {
+              content: "I encountered an error with that calculation. Please check your input.",
+              confidence: 0.3,
+            }
+          }
+        }
+      }
+    }
+
+    // Check for general math requests
+    if (
+      lowerMessage.includes("calculate") ||
+      lowerMessage.includes("math") ||
+      lowerMessage.includes("solve") ||
+      lowerMessage.includes("compute")
+    ) {
+      return {
+        content:
+          "I can help with math! Try expressions like '2 + 3', 'sqrt(16)', 'sin(30)', 'mean of 3, 5, 9', or 'solve 2x + 3 = 11'.",
+        confidence: 0.8,
+      }
+    }
+
+    return null
+  }
+
+  private evaluateMathExpression(
+    expression: string,
+    explain = this.showMathSteps,
+    spell = this.spellMathAnswers,
+  ): AIResponse {
+    try {
+      // Steps are worked in decimals, even when the answer itself is exact; run them before "ans" changes
+      const explanation = explain
+        ? new MathEvaluator({ functions: this.mathFunctions, variables: this.mathVariables }).explain(
+            this.mathParser.parse(expression),
+          )
+        : null
+      const exactInteger = spell ? this.exactInteger(expression) : undefined
+      const result = this.calculate(expression)
+      const answer = spell ? this.spellMathResult(result, exactInteger) : result.display
+      if (!explanation) {
+        return {
+          content: `The result is: ${answer}`,
+          confidence: 0.95,
+        }
+      }
+
+      const steps = explanation.steps.length > 0 ? `. Steps: ${summarizeSteps(explanation)}` : ""
+
+      return {
+        content: `The result is: ${answer}${steps}`,
+        confidence: 0.95,
+        metadata: { explanation },
+      }
+    } catch (error) {
+      if (error instanceof MathParseError || error instanceof MathEvaluationError) {
+        return {
+          content: `I couldn't calculate that. ${formatParseError(expression, error)}`,
+          confidence: 0.3,
+        }
+      }
+
+      return {
+        content: "I encountered an error with that calculation. Please check your input.",
+        confidence: 0.3,
+      }
+    }
+  }
+
+  // "92 (ninety-two)"; exact fractions read as "three quarters", approximations as "about ..."
+  private spellMathResult(result: MathResult, exactInteger?: Rational): string {
+    const approximate = result.display.startsWith("≈")
+    const exact = result.exact ?? exactInteger
+    const spoken = exact
+      ? spellNumber(exact.toString())
+      : spellNumber(approximate ? result.display.slice(1) : result.display)
+    if (!spoken) return result.display
+    return `${result.display} (${approximate ? "about " : ""}${spoken})`
+  }
+
+  // Decimal mode rounds big whole numbers (2^70 shows as 1.18059162072e+21), so words come from the exact value
+  private exactInteger(expression: string): Rational | undefined {
+    try {
+      const evaluator = new ExactEvaluator(this.mathFunctions, this.mathVariables, this.exactVariables)
+      const { value, exact } = evaluator.evaluate(this.mathParser.parse(expression))
+      return exact && value.isInteger() ? value : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  private calculate(expression: string): MathResult {
+    const tree = this.mathParser.parse(expression)
+    const result = this.mathOutputMode === "exact" ? this.evaluateExact(tree) : this.evaluateDecimal(tree)
+
+    // "ans" always holds the previous result
+    this.setMathVariable("ans", result.value, result.exact)
+    return result
+  }
+
+  private evaluateDecimal(tree: MathNode): MathResult {
+    // Integer functions (factorial, fib, ...) keep every digit instead of rounding to the precision
+    if (this.mathOutputMode === "decimal" && containsCall(tree, isIntegerFunction)) {
+      const { value, exact } = new ExactEvaluator(this.mathFunctions, this.mathVariables, this.exactVariables).evaluate(tree)
+      if (exact && value.isInteger()) {
+        return { value: value.toNumber(), exact: value, display: value.toString() }
+      }
+    }
+
+    const value = new MathEvaluator({ functions: this.mathFunctions, variables: this.mathVariables }).evaluate(tree)
+    return { value, display: formatMathNumber(value, this.mathOutputMode, this.mathPrecision) }
+  }
+
+  // Fractions and big integers stay exact; anything that needed floats (sin, pi, 2^0.5) is marked approximate
+  private evaluateExact(tree: MathNode): MathResult {
+    const evaluator = new ExactEvaluator(this.mathFunctions, this.mathVariables, this.exactVariables)
+    const { value, exact } = evaluator.evaluate(tree)
+
+    if (!exact) {
+      return { value: value.toNumber(), display: `≈ ${value.toDecimalString(this.mathPrecision)}` }
+    }
+    const display = value.isInteger() ? value.toString() : `${value} ≈ ${value.toDecimalString(this.mathPrecision)}`
+    return { value: value.toNumber(), exact: value, display }
+  }
+
+  private setMathVariable(name: string, value: number, exact?: Rational): void {
+    this.mathVariables.set(name, value)
+    if (exact) {
+      this.exactVariables.set(name, exact)
+    } else {
+      this.exactVariables.delete(name)
+    }
+  }
+
+  private formatMathVariable(name: string, value: number): string {
+    const exact = this.exactVariables.get(name)
+    if (exact && this.mathOutputMode === "exact") return exact.toString()
+    return this.formatDecimal(value)
+  }
+
+  private setMathOutputMode(mode: MathOutputMode): AIResponse {
+    this.mathOutputMode = mode
+
+    const descriptions: Record<MathOutputMode, string> = {
+      exact: "fractions stay exact (1/3 + 1/6 = 1/2) and whole numbers can be any size",
+      decimal: `results are rounded to ${this.mathPrecision} significant digits`,
+      scientific: `results use scientific notation with ${this.mathPrecision} significant digits`,
+    }
+
+    return {
+      content: `Switched to ${mode} mode: ${descriptions[mode]}.`,
+      confidence: 0.95,
+    }
+  }
+
+  private setMathPrecision(precision: number): AIResponse {
+    if (precision < 1 || precision > 100) {
+      return {
+        content: "Precision must be between 1 and 100 significant digits.",
+        confidence: 0.6,
+      }
+    }
+
+    this.mathPrecision = precision
+    return {
+      content: `Precision set to ${precision} significant digits for this session (${this.mathOutputMode} mode).`,
+      confidence: 0.95,
+    }
+  }
+
+  private solveEquation(equation: string): AIResponse {
+    try {
+      const result = this.equationSolver.solve(equation)
+      const method = `(method: ${result.method})`
+
+      let content: string
+      switch (result.status) {
+        case "solved":
+          content = `${result.solutions.join(" or ")} ${method}`
+          break
+        case "no-solution":
+          content = `No solution. ${result.note ?? ""} ${method}`
+          break
+        case "infinite":
+          content = `Infinitely many solutions. ${result.note ?? ""} ${method}`
+          break
+        default:
+          content = `I couldn't find a solution. ${result.note ?? ""} ${method}`
+      }
+      if (result.status === "solved" && result.note) {
+        content += ` ${result.note}`
+      }
+
+      return {
+        content: content.replace(/\s+/g, " ").trim(),
+        confidence: result.status === "not-found" ? 0.5 : 0.9,
+      }
+    } catch (error) {
+      if (error instanceof MathParseError) {
+        return {
+          content: `I couldn't read that equation. ${error.message}.`,
+          confidence: 0.3,
+        }
+      }
+
+      return {
+        content: `I couldn't solve that: ${error instanceof Error ? error.message : "unexpected error"}.`,
+        confidence: 0.3,
+      }
+    }
+  }
+
+  private calculateMatrix(query: MatrixQuery): AIResponse {
+    const labels: Record<MatrixQuery["operation"], string> = {
+      add: "Sum",
+      subtract: "Difference",
+      multiply: "Product",
+      scale: "Scaled",
+      transpose: "Transpose",
+      determinant: "Determinant",
+      inverse: "Inverse",
+      rank: "Rank",
+      solve: "Solution x",
+      dot: "Dot product",
+      cross: "Cross product",
+    }
+
+    try {
+      const { operation, value } = this.matrixCalculator.evaluate(query)
+      const label = labels[operation]
+
+      if (typeof value === "number") {
+        this.setMathVariable("ans", value)
+        return {
+          content: `${label}: ${this.formatMatrixEntry(value)}`,
+          confidence: 0.95,
+        }
+      }
+
+      const rows = isMatrix(value) ? value : [value]
+      const cells = rows.map((row) => row.map((entry) => this.formatMatrixEntry(entry)))
+      const bracketed = cells.map((row) => `[${row.join(", ")}]`)
+      const text = isMatrix(value) ? `[${bracketed.join(", ")}]` : bracketed[0]
+
+      return {
+        content: `${label} (${describeSize(value)}): ${text}`,
+        confidence: 0.95,
+        table: { headers: [], rows: cells },
+      }
+    } catch (error) {
+      if (error instanceof MatrixError) {
+        return {
+          content: `${error.message}.`,
+          confidence: 0.4,
+        }
+      }
+      throw error
+    }
+  }
+
+  private plotFunctions(query: PlotQuery): AIResponse {
+    try {
+      const plot = new FunctionPlotter(this.mathFunctions, this.mathVariables).plot(query)
+      const labels = plot.series.map((series) => `y = ${series.label}`).join(", ")
+      const range = `x from ${this.formatDecimal(plot.xMin)} to ${this.formatDecimal(plot.xMax)}`
+      const gaps = plot.points.some((point) => plot.series.some(({ key }) => point[key] === null))
+
+      return {
+        content:
+          `Here's the plot of ${labels} for ${range}.` +
+          (plot.radians ? " Trig functions take radians in this plot." : "") +
+          (gaps ? " Breaks in a line are where the function is undefined or shoots off to infinity." : ""),
+        confidence: 0.9,
+        metadata: { plot },
+      }
+    } catch (error) {
+      if (error instanceof PlotError || error instanceof MathEvaluationError) {
+        return {
+          content: `I couldn't plot that: ${error.message}.`,
+          confidence: 0.4,
+        }
+      }
+      if (error instanceof MathParseError) {
+        return {
+          content: `I couldn't read that function: ${error.message}.`,
+          confidence: 0.4,
+        }
+      }
+      throw error
+    }
+  }
+
+  // Elimination leaves round-off like 1e-17, which reads as 0
+  private formatMatrixEntry(value: number): string {
+    const cleaned = Math.abs(value) < 1e-10 ? 0 : value
+    return this.mathOutputMode === "exact" ? formatRational(cleaned) : this.formatDecimal(cleaned)
+  }
+
+  private convertUnits({ value, from, to }: ConversionQuery): AIResponse {
+    try {
+      const result = this.unitConverter.convert(value, from, to)
+      this.setMathVariable("ans", result.value)
+
+      return {
+        content: result.formatted,
+        confidence: 0.95,
+      }
+    } catch (error) {
+      if (error instanceof UnitConversionError) {
+        return {
+          content: `${error.message}.`,
+          confidence: 0.4,
+        }
+      }
+      throw error
+    }
+  }
+
+  private describeStatistics(query: StatisticsQuery): AIResponse {
+    const { operation, values, others = [], population } = query
+    const format = (value: number) => this.formatDecimal(value)
+    const list = values.map(format).join(", ")
+    const kind = population ? "population" : "sample"
+
+    try {
+      let content: string
+      let table = this.summarizeList(values, population)
+      let answer: number | undefined
+
+      switch (operation) {
+        case "mean":
+          answer = mean(values)
+          content = `The mean of ${list} is ${format(answer)}.`
+          break
+        case "median":
+          answer = median(values)
+          content = `The median of ${list} is ${format(answer)}.`
+          break
+        case "mode": {
+          const modes = mode(values)
+          content =
+            modes.length === values.length && values.length > 1
+              ? `Every value in ${list} appears equally often, so there is no single mode.`
+              : `The mode of ${list} is ${modes.map(format).join(", ")}.`
+          break
+        }
+        case "variance":
+          answer = variance(values, population)
+          content = `The ${kind} variance of ${list} is ${format(answer)}.`
+          break
+        case "stdev":
+          answer = standardDeviation(values, population)
+          content = `The ${kind} standard deviation of ${list} is ${format(answer)}.`
+          break
+        case "range":
+          answer = Math.max(...values) - Math.min(...values)
+          content = `The range of ${list} is ${format(answer)}.`
+          break
+        case "sum":
+          answer = sum(values)
+          content = `The sum of ${list} is ${format(answer)}.`
+          break
+        case "percentile":
+          answer = percentile(values, query.percentile!)
+          content = `The ${query.percentile}th percentile of ${list} is ${format(answer)}.`
+          break
+        case "summary":
+          content = `Summary of ${values.length} values:`
+          break
+        case "correlation": {
+          const r = correlation(values, others)
+          answer = r
+          const strength = Math.abs(r) >= 0.7 ? "strong" : Math.abs(r) >= 0.3 ? "moderate" : "weak"
+          const direction = r >= 0 ? "positive" : "negative"
+          content = `The correlation is r = ${format(r)} (${strength} ${direction}).`
+          table = this.comparePairedLists(values, others)
+          break
+        }
+        case "regression": {
+          const fit = linearRegression(values, others)
+          const sign = fit.intercept < 0 ? "-" : "+"
+          content = `Line of best fit: y = ${format(fit.slope)}x ${sign} ${format(Math.abs(fit.intercept))}.`
+          table = {
+            headers: ["Statistic", "Value"],
+            rows: [
+              ["Slope", format(fit.slope)],
+              ["Intercept", format(fit.intercept)],
+              ["r", format(fit.r)],
+              ["r²", format(fit.rSquared)],
+              ["Points", String(values.length)],
+            ],
+          }
+          break
+        }
+      }
+
+      if (answer !== undefined) {
+        this.setMathVariable("ans", answer)
+      }
+      return { content, confidence: 0.95, table }
     } catch (error) {
-      console.warn("⚠️ Background enhancement failed, but system remains functional:", error)
+      if (error instanceof StatisticsError) {
+        return {
+          content: `I couldn't work that out: ${error.message}.`,
+          confidence: 0.4,
+        }
+      }
+      throw error
     }
   }
 
-  private async loadExtendedVocabulary(): Promise<void> {
-    const extendedWords = [
-      // Technology
-      "computer",
-      "internet",
-      "website",
-      "software",
-      "program",
-      "code",
-      "data",
-      "artificial",
-      "intelligence",
-      "machine",
-      "learning",
-      "algorithm",
+  private describeNumberTheory(query: NumberTheoryQuery): AIResponse {
+    const power = (prime: bigint, exponent: number) => (exponent === 1 ? `${prime}` : `${prime}^${exponent}`)
 
-      // Emotions
-      "feel",
-      "feeling",
-      "emotion",
-      "mood",
-      "calm",
-      "nervous",
-      "confident",
-      "surprised",
-      "confused",
-      "curious",
-      "interested",
-      "bored",
+    try {
+      switch (query.type) {
+        case "expression":
+          return this.evaluateMathExpression(query.expression)
+
+        case "factorize": {
+          const factors = primeFactors(query.value)
+          if (factors.length === 1 && factors[0].exponent === 1) {
+            return { content: `${query.value} is prime, so it has no smaller factors.`, confidence: 0.95 }
+          }
+          return {
+            content: `${query.value} = ${factors.map(({ prime, exponent }) => power(prime, exponent)).join(" × ")}`,
+            confidence: 0.95,
+            table: {
+              headers: ["Prime", "Power"],
+              rows: factors.map(({ prime, exponent }) => [String(prime), String(exponent)]),
+            },
+          }
+        }
 
-      // Actions
-      "create",
-      "build",
-      "make",
-      "design",
-      "develop",
-      "improve",
-      "fix",
-      "learn",
-      "teach",
-      "study",
-      "practice",
-      "try",
-      "attempt",
-      "succeed",
+        case "is-prime": {
+          const { value } = query
+          if (isPrime(value)) {
+            const certainty = isCertainlyPrime(value) ? "" : " (by a probabilistic test that is practically never wrong)"
+            return { content: `Yes, ${value} is prime${certainty}.`, confidence: 0.95 }
+          }
+          if (value < BigInt(2)) {
+            return { content: `No, ${value} is not prime: primes start at 2.`, confidence: 0.95 }
+          }
+          const [smallest] = primeFactors(value)
+          return {
+            content: `No, ${value} is not prime: it is divisible by ${smallest.prime}.`,
+            confidence: 0.95,
+          }
+        }
 
-      // Math terms
-      "equation",
-      "formula",
-      "function",
-      "variable",
-      "calculate",
-      "result",
-      "square",
-      "root",
-      "power",
-      "logarithm",
-      "sine",
-      "cosine",
-      "tangent",
-    ]
+        case "base": {
+          const evaluator = new ExactEvaluator(this.mathFunctions, this.mathVariables, this.exactVariables)
+          const { value, exact } = evaluator.evaluate(this.mathParser.parse(query.expression))
+          if (!exact || !value.isInteger()) {
+            return {
+              content: `Base conversion works on whole numbers, and ${query.expression} is ${this.formatDecimal(value.toNumber())}.`,
+              confidence: 0.5,
+            }
+          }
+          const integer = value.numerator
+          // 0b, 0o and 0x prefixes name their base; any other base is spelled out
+          const suffix = [2, 8, 10, 16].includes(query.base) ? "" : ` (base ${query.base})`
+          this.setMathVariable("ans", value.toNumber(), value)
+          return {
+            content: `${query.expression} = ${formatInBase(integer, query.base)}${suffix}`,
+            confidence: 0.95,
+            table: {
+              headers: ["Base", "Value"],
+              rows: [2, 8, 10, 16].map((base) => [String(base), formatInBase(integer, base)]),
+            },
+          }
+        }
 
-    // Add words in small batches with delays to avoid blocking
-    for (let i = 0; i < extendedWords.length; i += 10) {
-      const batch = extendedWords.slice(i, i + 10)
-      batch.forEach((word) => this.vocabulary.set(word.toLowerCase(), "extended"))
+        case "bitwise": {
+          const { operation, left, right, base } = query
+          const result = bitwise(operation, left, right)
+          const symbols = { and: "AND", or: "OR", xor: "XOR", shl: "<<", shr: ">>" }
+          this.setMathVariable("ans", Number(result), new Rational(result))
+
+          // Binary rows zero-padded to the same width so the bits line up
+          const width = Math.max(...[left, right, result].map((value) => (value < 0 ? -value : value).toString(2).length))
+          const bits = (value: bigint) => (value < 0 ? formatInBase(value, 2) : `0b${value.toString(2).padStart(width, "0")}`)
+          const row = (label: string, value: bigint) => [label, bits(value), String(value)]
+          return {
+            content: `${formatInBase(left, base)} ${symbols[operation]} ${formatInBase(right, base)} = ${formatInBase(result, base)}`,
+            confidence: 0.95,
+            table: {
+              headers: ["", "Binary", "Decimal"],
+              rows:
+                operation === "shl" || operation === "shr"
+                  ? [row("Value", left), row("Result", result)]
+                  : [row("Left", left), row("Right", right), row("Result", result)],
+            },
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof NumberTheoryError || error instanceof MathEvaluationError) {
+        return {
+          content: `I couldn't work that out: ${error.message}.`,
+          confidence: 0.4,
+        }
+      }
+      if (error instanceof MathParseError) {
+        return {
+          content: `I couldn't read that number. ${error.message}.`,
+          confidence: 0.3,
+        }
+      }
+      throw error
+    }
+  }
 
-      // Small delay to keep UI responsive
-      if (i % 20 === 0) {
-        await new Promise((resolve) => setTimeout(resolve, 1))
+  private describeFinance(query: FinanceQuery, currency: string): AIResponse {
+    const money = (value: number) =>
+      `${value < 0 ? "-" : ""}${currency}${Math.abs(value).toLocaleString("en-US", {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`
+    const percent = (value: number) => `${this.formatDecimal(Number(value.toFixed(4)))}%`
+    const years = (months: number) =>
+      months % 12 === 0 ? `${months / 12} year${months === 12 ? "" : "s"}` : `${months} months`
+
+    try {
+      let content: string
+      let table: ResultTable | undefined
+      let answer: number
+
+      switch (query.type) {
+        case "simple-interest": {
+          answer = simpleInterest(query.principal, query.rate, query.years)
+          content =
+            `Simple interest on ${money(query.principal)} at ${percent(query.rate)} for ${years(query.years * 12)} ` +
+            `is ${money(answer)}, for a total of ${money(query.principal + answer)}.`
+          break
+        }
+        case "compound-interest": {
+          const { principal, rate, periodsPerYear } = query
+          answer = compoundAmount(principal, rate, query.years, periodsPerYear)
+          const compounding =
+            periodsPerYear === Infinity
+              ? "continuously"
+              : { 1: "annually", 2: "semi-annually", 4: "quarterly", 12: "monthly", 52: "weekly", 365: "daily" }[
+                  periodsPerYear
+                ] ?? `${periodsPerYear} times a year`
+          content =
+            `${money(principal)} at ${percent(rate)} compounded ${compounding} grows to ${money(answer)} ` +
+            `after ${years(query.years * 12)}, earning ${money(answer - principal)} in interest.`
+          if (Number.isInteger(query.years) && query.years <= 50) {
+            table = {
+              headers: ["Year", "Balance", "Interest earned"],
+              rows: Array.from({ length: query.years }, (_, i) => {
+                const balance = compoundAmount(principal, rate, i + 1, periodsPerYear)
+                return [String(i + 1), money(balance), money(balance - principal)]
+              }),
+            }
+          }
+          break
+        }
+        case "loan": {
+          const schedule = amortizationSchedule(query.principal, query.rate, query.months)
+          answer = loanPayment(query.principal, query.rate, query.months)
+          const totalInterest = schedule.reduce((total, row) => total + row.interest, 0)
+          content =
+            `The monthly payment on ${money(query.principal)} at ${percent(query.rate)} over ${years(query.months)} ` +
+            `is ${money(answer)}. You'd pay ${money(totalInterest)} in interest, ` +
+            `${money(query.principal + totalInterest)} in total.`
+          table = this.amortizationTable(schedule, money)
+          break
+        }
+        case "npv": {
+          answer = netPresentValue(query.rate, query.cashFlows)
+          content = `The net present value at ${percent(query.rate)} is ${money(answer)}.`
+          table = {
+            headers: ["Period", "Cash flow", "Present value"],
+            rows: query.cashFlows.map((flow, period) => [
+              String(period),
+              money(flow),
+              money(flow / Math.pow(1 + query.rate / 100, period)),
+            ]),
+          }
+          break
+        }
+        case "irr": {
+          answer = internalRateOfReturn(query.cashFlows)
+          content = `The internal rate of return is ${percent(answer)}.`
+          break
+        }
+        case "percent-change": {
+          answer = percentChange(query.from, query.to)
+          const direction = answer > 0 ? "an increase" : "a decrease"
+          content =
+            answer === 0
+              ? `Going from ${this.formatDecimal(query.from)} to ${this.formatDecimal(query.to)} is no change.`
+              : `Going from ${this.formatDecimal(query.from)} to ${this.formatDecimal(query.to)} is ` +
+                `${direction} of ${percent(Math.abs(answer))}.`
+          break
+        }
+        case "percent-adjust": {
+          const signed = query.direction === "increase" ? query.percent : -query.percent
+          answer = adjustByPercent(query.amount, signed)
+          content =
+            query.direction === "discount"
+              ? `${percent(query.percent)} off ${money(query.amount)} is ${money(answer)}, ` +
+                `a saving of ${money(query.amount - answer)}.`
+              : `${currency}${this.formatDecimal(query.amount)} ${query.direction}d by ${percent(query.percent)} is ` +
+                `${currency}${this.formatDecimal(Number(answer.toFixed(10)))}.`
+          break
+        }
+        case "tip": {
+          const split = splitTip(query.bill, query.percent, query.people)
+          answer = query.people > 1 ? split.perPerson : split.total
+          content =
+            `Tipping ${percent(query.percent)} on ${money(query.bill)} adds ${money(split.tip)}, ` +
+            `making ${money(split.total)} in total` +
+            (query.people > 1 ? `, or ${money(split.perPerson)} each for ${query.people} people.` : ".")
+          break
+        }
+        case "vat": {
+          const net = query.included ? removeVat(query.amount, query.rate) : query.amount
+          const gross = query.included ? query.amount : addVat(query.amount, query.rate)
+          answer = query.included ? net : gross
+          content = query.included
+            ? `${money(gross)} includes ${money(gross - net)} of ${percent(query.rate)} VAT; the price before VAT is ${money(net)}.`
+            : `${money(net)} plus ${percent(query.rate)} VAT (${money(gross - net)}) is ${money(gross)}.`
+          break
+        }
+        case "markup": {
+          answer = markupPrice(query.cost, query.percent)
+          const profit = answer - query.cost
+          content =
+            `Marking up ${money(query.cost)} by ${percent(query.percent)} gives a price of ${money(answer)}: ` +
+            `${money(profit)} profit, a ${percent((profit / answer) * 100)} margin.`
+          break
+        }
+      }
+
+      this.setMathVariable("ans", answer)
+      return { content, confidence: 0.95, table }
+    } catch (error) {
+      if (error instanceof FinanceError) {
+        return {
+          content: `I couldn't work that out: ${error.message}.`,
+          confidence: 0.4,
+        }
       }
+      throw error
     }
   }
 
-  public addVocabularyWord(word: string, category: string): void {
-    this.vocabulary.set(word.toLowerCase(), category)
+  // Month by month for short loans; longer ones are summed per year to keep the table readable
+  private amortizationTable(schedule: AmortizationRow[], money: (value: number) => string): ResultTable {
+    if (schedule.length <= 24) {
+      return {
+        headers: ["Month", "Payment", "Interest", "Principal", "Balance"],
+        rows: schedule.map((row) => [
+          String(row.period),
+          money(row.payment),
+          money(row.interest),
+          money(row.principal),
+          money(row.balance),
+        ]),
+      }
+    }
+
+    const rows: string[][] = []
+    for (let start = 0; start < schedule.length; start += 12) {
+      const year = schedule.slice(start, start + 12)
+      const total = (pick: (row: AmortizationRow) => number) => year.reduce((sum, row) => sum + pick(row), 0)
+      rows.push([
+        String(start / 12 + 1),
+        money(total((row) => row.payment)),
+        money(total((row) => row.interest)),
+        money(total((row) => row.principal)),
+        money(year[year.length - 1].balance),
+      ])
+    }
+    return { headers: ["Year", "Payments", "Interest", "Principal", "Balance"], rows }
   }
 
-  public addMathFunction(mathFunc: MathFunction): void {
-    this.mathFunctions.set(mathFunc.name, mathFunc)
+  private summarizeList(values: number[], population: boolean): ResultTable {
+    const format = (value: number) => this.formatDecimal(value)
+    const modes = mode(values)
+    const spread = values.length > 1 || population ? format(standardDeviation(values, population)) : "—"
+
+    return {
+      headers: ["Statistic", "Value"],
+      rows: [
+        ["Count", String(values.length)],
+        ["Mean", format(mean(values))],
+        ["Median", format(median(values))],
+        ["Mode", modes.length === values.length && values.length > 1 ? "none" : modes.map(format).join(", ")],
+        [population ? "Std dev (population)" : "Std dev (sample)", spread],
+        ["Min", format(Math.min(...values))],
+        ["Max", format(Math.max(...values))],
+      ],
+    }
   }
 
-  public getMathFunctionCount(): number {
-    return this.mathFunctions.size
+  private comparePairedLists(xs: number[], ys: number[]): ResultTable {
+    const format = (value: number) => this.formatDecimal(value)
+    return {
+      headers: ["Statistic", "x", "y"],
+      rows: [
+        ["Count", String(xs.length), String(ys.length)],
+        ["Mean", format(mean(xs)), format(mean(ys))],
+        ["Std dev", format(standardDeviation(xs)), format(standardDeviation(ys))],
+        ["Min", format(Math.min(...xs)), format(Math.min(...ys))],
+        ["Max", format(Math.max(...xs)), format(Math.max(...ys))],
+      ],
+    }
   }
 
-  public async processMessage(userMessage: string): Promise<AIResponse> {
-    // Learn from user input
-    this.learnFromMessage(userMessage)
+  // For values that are only known as floats, which exact mode shows as decimals
+  private formatDecimal(value: number): string {
+    return formatMathNumber(value, this.mathOutputMode === "scientific" ? "scientific" : "decimal", this.mathPrecision)
+  }
 
-    // Check if it's a math question first
-    const mathResult = this.processMathQuery(userMessage)
-    if (mathResult) {
-      this.saveConversation(userMessage, mathResult.content)
-      return mathResult
+  private assignMathVariable(name: string, expression: string): AIResponse {
+    if (name === "ans" || MATH_CONSTANTS[name.toLowerCase()] !== undefined || this.mathFunctions.has(name)) {
+      return {
+        content: `"${name}" is reserved, please pick another variable name.`,
+        confidence: 0.6,
+      }
     }
 
-    // Generate response based on context and memory
-    const response = this.generateResponse(userMessage)
-
-    // Save conversation
-    this.saveConversation(userMessage, response.content)
+    try {
+      const result = this.calculate(expression)
+      this.setMathVariable(name, result.value, result.exact)
 
-    return response
+      return {
+        content: `Stored ${name} = ${result.display}`,
+        confidence: 0.95,
+      }
+    } catch (error) {
+      if (error instanceof MathParseError || error instanceof MathEvaluationError) {
+        return {
+          content: `I couldn't assign ${name}. ${formatParseError(expression, error)}`,
+          confidence: 0.3,
+        }
+      }
+      throw error
+    }
   }
 
-  private processMathQuery(message: string): AIResponse | null {
-    const lowerMessage = message.toLowerCase()
-
-    // Check for mathematical expressions
-    const mathPatterns = [
-      // Basic arithmetic
-      { pattern: /(\d+(?:\.\d+)?)\s*\+\s*(\d+(?:\.\d+)?)/, operation: "add" },
-      { pattern: /(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)/, operation: "subtract" },
-      { pattern: /(\d+(?:\.\d+)?)\s*\*\s*(\d+(?:\.\d+)?)/, operation: "multiply" },
-      { pattern: /(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/, operation: "divide" },
-      { pattern: /(\d+(?:\.\d+)?)\s*\^\s*(\d+(?:\.\d+)?)/, operation: "power" },
-
-      // Word-based math
-      { pattern: /add\s+(\d+(?:\.\d+)?)\s+(?:and|to)\s+(\d+(?:\.\d+)?)/, operation: "add" },
-      { pattern: /subtract\s+(\d+(?:\.\d+)?)\s+from\s+(\d+(?:\.\d+)?)/, operation: "subtract" },
-      { pattern: /multiply\s+(\d+(?:\.\d+)?)\s+(?:by|and)\s+(\d+(?:\.\d+)?)/, operation: "multiply" },
-      { pattern: /divide\s+(\d+(?:\.\d+)?)\s+by\s+(\d+(?:\.\d+)?)/, operation: "divide" },
+  private defineMathFunction(name: string, params: string[], expression: string): AIResponse {
+    const existing = this.mathFunctions.get(name)
+    if (existing && !existing.definition) {
+      return {
+        content: `${name} is a built-in function and can't be redefined.`,
+        confidence: 0.7,
+      }
+    }
 
-      // Functions
-      { pattern: /square\s+root\s+of\s+(\d+(?:\.\d+)?)/, operation: "sqrt" },
-      { pattern: /sqrt$$(\d+(?:\.\d+)?)$$/, operation: "sqrt" },
-      { pattern: /sin$$(\d+(?:\.\d+)?)$$/, operation: "sin" },
-      { pattern: /cos$$(\d+(?:\.\d+)?)$$/, operation: "cos" },
-      { pattern: /tan$$(\d+(?:\.\d+)?)$$/, operation: "tan" },
-    ]
+    try {
+      const body = this.mathParser.parse(expression)
+      const problem = validateUserFunction(name, params, body, this.mathFunctions)
+      if (problem) {
+        return {
+          content: `I couldn't define ${name}: ${problem}.`,
+          confidence: 0.4,
+        }
+      }
 
-    for (const { pattern, operation } of mathPatterns) {
-      const match = message.match(pattern)
-      if (match) {
-        const mathFunc = this.mathFunctions.get(operation)
-        if (mathFunc) {
-          try {
-            const numbers = match.slice(1).map((n) => Number.parseFloat(n))
-            const result = mathFunc.func(...numbers)
+      const mathFunc = createUserFunction(name, { params, expression: formatExpression(body) }, this.mathFunctions)
+      this.addMathFunction(mathFunc)
 
-            return {
-              content: `The result is: ${result}`,
-              confidence: 0.95,
-            }
-          } catch (error) {
-            return {
-              content: "I encountered an error with that calculation. Please check your input.",
-              confidence: 0.3,
-            }
-          }
+      const signature = `${name}(${params.join(", ")})`
+      return {
+        content: `Defined ${signature} = ${mathFunc.definition!.expression}. Try ${mathFunc.examples[0]}.`,
+        confidence: 0.95,
+      }
+    } catch (error) {
+      if (error instanceof MathParseError) {
+        return {
+          content: `I couldn't define ${name}. ${formatParseError(expression, error)}`,
+          confidence: 0.3,
         }
       }
+      throw error
+    }
+  }
+
+  private describeMathFunctions(): AIResponse {
+    const functions = Array.from(this.mathFunctions.values())
+    const builtIn = functions.filter((func) => !func.definition).map((func) => func.name)
+    const userDefined = functions
+      .filter((func) => func.definition)
+      .map((func) => `${func.name}(${func.definition!.params.join(", ")}) = ${func.definition!.expression}`)
+
+    let content = `I know ${functions.length} math functions: ${builtIn.join(", ")}.`
+    if (userDefined.length > 0) {
+      content += ` Your functions: ${userDefined.join("; ")}.`
+    } else {
+      content += " You can add your own, e.g. 'define f(x) = x^2 + 2x + 1'."
     }
 
-    // Check for general math requests
-    if (
-      lowerMessage.includes("calculate") ||
-      lowerMessage.includes("math") ||
-      lowerMessage.includes("solve") ||
-      lowerMessage.includes("compute")
-    ) {
+    return { content, confidence: 0.95 }
+  }
+
+  private describeMathVariables(): AIResponse {
+    if (this.mathVariables.size === 0) {
       return {
-        content: "I can help with math! Try expressions like '2 + 3', 'sqrt(16)', 'sin(30)', or 'multiply 5 by 7'.",
-        confidence: 0.8,
+        content: "No variables defined yet. Try 'let x = 12.5'.",
+        confidence: 0.9,
       }
     }
 
-    return null
+    const list = Array.from(this.mathVariables.entries())
+      .map(([name, value]) => `${name} = ${this.formatMathVariable(name, value)}`)
+      .join(", ")
+
+    return {
+      content: `Your variables: ${list}`,
+      confidence: 0.95,
+    }
   }
 
   public generateSuggestions(messages: ChatMessage[]): Suggestion[] {
@@ -444,7 +2087,7 @@ export class ReliableAISystem {
     }
   }
 
-  private learnFromMessage(message: string): void {
+  private learnFromMessage(message: string, messageId?: string): MemoryUpdate[] {
     // Extract and learn new words
     const words = message.toLowerCase().match(/\b\w+\b/g) || []
     words.forEach((word) => {
@@ -454,41 +2097,52 @@ export class ReliableAISystem {
     })
 
     // Extract potential memory items
-    this.extractMemoryFromMessage(message)
+    return this.extractMemoryFromMessage(message, messageId)
   }
 
-  private extractMemoryFromMessage(message: string): void {
-    const memoryPatterns = [
-      { pattern: /remember (?:that )?(.+)/i, importance: 0.8 },
-      { pattern: /my name is (.+)/i, importance: 0.9 },
-      { pattern: /i (?:am|work as) (?:a |an )?(.+)/i, importance: 0.7 },
-      { pattern: /i like (.+)/i, importance: 0.6 },
-      { pattern: /i don't like (.+)/i, importance: 0.6 },
-      { pattern: /i live in (.+)/i, importance: 0.7 },
-    ]
-
-    memoryPatterns.forEach(({ pattern, importance }) => {
-      const match = message.match(pattern)
-      if (match && match[1]) {
-        const key = this.generateMemoryKey(match[1])
-        const entry: MemoryEntry = {
-          key,
-          value: match[1].trim(),
-          timestamp: Date.now(),
-          importance,
-        }
-        this.memory.set(key, entry)
-      }
-    })
+  // Name, occupation, location, likes, dislikes and "remember that ..." facts, each in its own slot
+  private extractMemoryFromMessage(message: string, messageId?: string): MemoryUpdate[] {
+    return this.memory.extract(message, Date.now(), messageId)
   }
 
-  private generateMemoryKey(content: string): string {
-    return content.toLowerCase().replace(/\s+/g, "_").substring(0, 20)
+  private citeMemory(sources: MemoryCitation[]): ResponseMetadata | undefined {
+    return sources.length > 0 ? { sources } : undefined
   }
 
-  private generateResponse(userMessage: string): AIResponse {
+  private generateResponse(userMessage: string, memoryUpdates: MemoryUpdate[] = []): AIResponse {
     const lowerMessage = userMessage.toLowerCase()
 
+    // Questions about a slot ("what's my name?") read it directly
+    const slotAnswer = this.memory.answer(userMessage)
+    if (slotAnswer) {
+      return {
+        content: slotAnswer.content,
+        confidence: 0.9,
+        metadata: this.citeMemory(citeEntries(slotAnswer.entries)),
+      }
+    }
+
+    // Acknowledge what this message taught us, including corrections
+    const acknowledgement = describeMemoryUpdates(memoryUpdates)
+    if (acknowledgement) {
+      return { content: acknowledgement, confidence: 0.85 }
+    }
+
+    // "What did I tell you yesterday?" and "when did I say I moved?" look things up by time
+    const timeQuery = parseMemoryTimeQuery(userMessage)
+    if (timeQuery) {
+      const answer =
+        timeQuery.type === "digest"
+          ? describeDigest(timeQuery.window, this.memory, this.conversationHistory)
+          : describeMention(timeQuery.topic, this.memory, this.conversationHistory)
+      return {
+        content: answer.content,
+        confidence: 0.85,
+        table: answer.table,
+        metadata: this.citeMemory(answer.sources ?? []),
+      }
+    }
+
     // Check for memory queries first
     if (
       lowerMessage.includes("remember") ||
@@ -497,7 +2151,11 @@ export class ReliableAISystem {
     ) {
       const memoryResponse = this.searchMemory(userMessage)
       if (memoryResponse) {
-        return { content: memoryResponse, confidence: 0.8 }
+        return {
+          content: memoryResponse.content,
+          confidence: 0.8,
+          metadata: this.citeMemory(citeEntries(memoryResponse.entries)),
+        }
       }
     }
 
@@ -581,24 +2239,34 @@ export class ReliableAISystem {
     }
   }
 
-  private searchMemory(query: string): string | null {
+  private searchMemory(query: string): MemoryAnswer | null {
     const queryLower = query.toLowerCase()
 
-    // Search through memory entries
-    for (const [key, entry] of this.memory.entries()) {
-      if (queryLower.includes(key.replace(/_/g, " ")) || queryLower.includes(entry.value.toLowerCase())) {
-        return `I remember that ${entry.value}. I stored this on ${new Date(entry.timestamp).toLocaleDateString()}.`
+    // Most relevant entry first, weighted by how well it has been retained
+    const [best] = this.memory.search(query)
+    if (best) {
+      this.memory.recall([best.entry])
+      const stored = new Date(best.entry.timestamp).toLocaleDateString()
+      return {
+        content: `I remember that ${describeMemory(best.entry)}. I stored this on ${stored}.`,
+        entries: [best.entry],
       }
     }
 
     // Check if asking about general memory
     if (queryLower.includes("remember") && this.memory.size > 0) {
-      const recentMemories = Array.from(this.memory.values())
-        .sort((a, b) => b.timestamp - a.timestamp)
+      const now = Date.now()
+      const topMemories = this.memory
+        .getEntries()
+        .sort((a, b) => this.memory.retention(b, now) - this.memory.retention(a, now))
         .slice(0, 3)
+      this.memory.recall(topMemories, now)
 
-      const memoryList = recentMemories.map((m) => m.value).join(", ")
-      return `I remember several things about you: ${memoryList}. Is there something specific you'd like me to recall?`
+      const memoryList = topMemories.map(describeMemory).join(", ")
+      return {
+        content: `I remember several things about you: ${memoryList}. Is there something specific you'd like me to recall?`,
+        entries: topMemories,
+      }
     }
 
     return null
@@ -623,9 +2291,9 @@ export class ReliableAISystem {
     return null
   }
 
-  private saveConversation(userMessage: string, aiResponse: string): void {
+  private saveConversation(userMessage: string, response: AIResponse, messageId?: string): void {
     const userMsg: ChatMessage = {
-      id: Date.now().toString(),
+      id: messageId ?? Date.now().toString(),
       role: "user",
       content: userMessage,
       timestamp: Date.now(),
@@ -634,8 +2302,10 @@ export class ReliableAISystem {
     const aiMsg: ChatMessage = {
       id: (Date.now() + 1).toString(),
       role: "assistant",
-      content: aiResponse,
+      content: response.content,
       timestamp: Date.now(),
+      table: response.table,
+      metadata: response.metadata,
     }
 
     this.conversationHistory.push(userMsg, aiMsg)
@@ -650,6 +2320,7 @@ export class ReliableAISystem {
     this.saveMemory()
     this.saveVocabulary()
     this.saveMathFunctions()
+    this.saveMathVariables()
   }
 
   public getConversationHistory(): ChatMessage[] {
@@ -684,12 +2355,15 @@ export class ReliableAISystem {
     return {
       conversationHistory: this.conversationHistory,
       vocabulary: Array.from(this.vocabulary.entries()),
-      memory: Array.from(this.memory.entries()),
+      memory: this.memory.serialize(),
       mathFunctions: Array.from(this.mathFunctions.entries()).map(([name, func]) => ({
         name,
         description: func.description,
         examples: func.examples,
+        definition: func.definition,
       })),
+      mathVariables: Array.from(this.mathVariables.entries()),
+      units: this.unitConverter.getSupportedUnits(),
       stats: this.getStats(),
       exportDate: new Date().toISOString(),
     }
@@ -698,7 +2372,7 @@ export class ReliableAISystem {
   private saveConversationHistory(): void {
     try {
       const data = JSON.stringify(this.conversationHistory)
-      localStorage.setItem("reliable-ai-conversation", data)
+      localStorage.setItem(scopedKey("reliable-ai-conversation"), data)
     } catch (error) {
       console.warn("Failed to save conversation:", error)
     }
@@ -706,7 +2380,7 @@ export class ReliableAISystem {
 
   private loadConversationHistory(): void {
     try {
-      const stored = localStorage.getItem("reliable-ai-conversation")
+      const stored = localStorage.getItem(scopedKey("reliable-ai-conversation"))
       if (stored) {
         const parsed = JSON.parse(stored)
         if (Array.isArray(parsed)) {
@@ -721,32 +2395,40 @@ export class ReliableAISystem {
 
   private saveMemory(): void {
     try {
-      const memoryArray = Array.from(this.memory.entries())
-      localStorage.setItem("reliable-ai-memory", JSON.stringify(memoryArray))
+      localStorage.setItem(scopedKey("reliable-ai-memory"), JSON.stringify(this.memory.serialize()))
+      localStorage.setItem(
+        scopedKey("reliable-ai-memory-settings"),
+        JSON.stringify({ capacity: this.memory.getCapacity() }),
+      )
     } catch (error) {
       console.warn("Failed to save memory:", error)
     }
   }
 
   private loadMemory(): void {
+    this.memory = new MemoryStore()
     try {
-      const stored = localStorage.getItem("reliable-ai-memory")
+      // The capacity goes first, or loading would evict down to the default
+      const settings = localStorage.getItem(scopedKey("reliable-ai-memory-settings"))
+      const capacity = settings ? JSON.parse(settings)?.capacity : undefined
+      if (typeof capacity === "number") {
+        this.memory.setCapacity(capacity)
+      }
+
+      const stored = localStorage.getItem(scopedKey("reliable-ai-memory"))
       if (stored) {
-        const parsed = JSON.parse(stored)
-        if (Array.isArray(parsed)) {
-          this.memory = new Map(parsed)
-        }
+        this.memory.load(JSON.parse(stored))
       }
     } catch (error) {
       console.warn("Failed to load memory:", error)
-      this.memory = new Map()
+      this.memory.clear()
     }
   }
 
   private saveVocabulary(): void {
     try {
       const vocabArray = Array.from(this.vocabulary.entries())
-      localStorage.setItem("reliable-ai-vocabulary", JSON.stringify(vocabArray))
+      localStorage.setItem(scopedKey("reliable-ai-vocabulary"), JSON.stringify(vocabArray))
     } catch (error) {
       console.warn("Failed to save vocabulary:", error)
     }
@@ -754,7 +2436,7 @@ export class ReliableAISystem {
 
   private loadVocabulary(): void {
     try {
-      const stored = localStorage.getItem("reliable-ai-vocabulary")
+      const stored = localStorage.getItem(scopedKey("reliable-ai-vocabulary"))
       if (stored) {
         const parsed = JSON.parse(stored)
         if (Array.isArray(parsed)) {
@@ -778,10 +2460,11 @@ export class ReliableAISystem {
           name: func.name,
           description: func.description,
           examples: func.examples,
-          // Note: We don't save the actual function, just metadata
+          // Built-in functions are re-initialized; user functions are rebuilt from their definition
+          definition: func.definition,
         },
       ])
-      localStorage.setItem("reliable-ai-math", JSON.stringify(mathArray))
+      localStorage.setItem(scopedKey("reliable-ai-math"), JSON.stringify(mathArray))
     } catch (error) {
       console.warn("Failed to save math functions:", error)
     }
@@ -789,16 +2472,49 @@ export class ReliableAISystem {
 
   private loadMathFunctions(): void {
     try {
-      const stored = localStorage.getItem("reliable-ai-math")
+      const stored = localStorage.getItem(scopedKey("reliable-ai-math"))
       if (stored) {
         const parsed = JSON.parse(stored)
         if (Array.isArray(parsed)) {
-          // We only load metadata, actual functions are re-initialized
-          console.log(`Loaded ${parsed.length} math function definitions`)
+          let restored = 0
+          parsed.forEach(([name, meta]) => {
+            if (!meta?.definition || this.mathFunctions.has(name)) return
+            try {
+              this.mathFunctions.set(name, createUserFunction(name, meta.definition, this.mathFunctions))
+              restored++
+            } catch (error) {
+              console.warn(`Skipping invalid math function ${name}:`, error)
+            }
+          })
+          console.log(`Loaded ${parsed.length} math function definitions (${restored} user-defined)`)
         }
       }
     } catch (error) {
       console.warn("Failed to load math functions:", error)
     }
   }
+
+  private saveMathVariables(): void {
+    try {
+      const variableArray = Array.from(this.mathVariables.entries())
+      localStorage.setItem(scopedKey("reliable-ai-variables"), JSON.stringify(variableArray))
+    } catch (error) {
+      console.warn("Failed to save math variables:", error)
+    }
+  }
+
+  private loadMathVariables(): void {
+    try {
+      const stored = localStorage.getItem(scopedKey("reliable-ai-variables"))
+      if (stored) {
+        const parsed = JSON.parse(stored)
+        if (Array.isArray(parsed)) {
+          this.mathVariables = new Map(parsed.filter(([, value]) => typeof value === "number"))
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to load math variables:", error)
+      this.mathVariables = new Map()
+    }
+  }
 }
@@ -0,0 +1,333 @@
+import { Rational } from "./rational-number"
+
+export type SequenceKind = "arithmetic" | "geometric" | "polynomial" | "fibonacci" | "recursive"
+
+export interface SequenceQuery {
+  terms: Rational[]
+  count: number
+}
+
+export interface SequenceRule {
+  kind: SequenceKind
+  // Plain-language rule, e.g. "add 4 each time"
+  description: string
+  // Closed form or recurrence, e.g. "a(n) = n^2 + n"
+  formula: string
+  confidence: number
+  next: Rational[]
+}
+
+export class SequenceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SequenceError"
+  }
+}
+
+// A candidate rule: how many numbers it takes to pin down, and how it continues the terms
+interface Candidate {
+  kind: SequenceKind
+  parameters: number
+  description: string
+  formula: string
+  extend: (terms: Rational[]) => Rational
+}
+
+const ZERO = new Rational(BigInt(0))
+const ONE = new Rational(BigInt(1))
+const MAX_TERMS_SHOWN = 20
+const MAX_DEGREE = 6
+const ORDINALS = ["", "first", "second", "third", "fourth", "fifth", "sixth"]
+const COUNT_WORDS: Record<string, number> = { two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 }
+
+// Integers as-is, terminating decimals as decimals, anything else as a fraction
+export function formatTerm(value: Rational): string {
+  if (value.isInteger()) return value.toString()
+  let denominator = value.denominator
+  const [two, five] = [BigInt(2), BigInt(5)]
+  while (denominator % two === BigInt(0)) denominator /= two
+  while (denominator % five === BigInt(0)) denominator /= five
+  return denominator === BigInt(1) ? value.toDecimalString(20) : value.toString()
+}
+
+function allEqual(values: Rational[]): boolean {
+  return values.every((value) => value.compare(values[0]) === 0)
+}
+
+function differences(values: Rational[]): Rational[] {
+  return values.slice(1).map((value, i) => value.subtract(values[i]))
+}
+
+function fromInteger(value: number): Rational {
+  return new Rational(BigInt(value))
+}
+
+// "3", "-2", "1/2" as a coefficient in front of a symbol; empty for 1
+function coefficient(value: Rational, symbol: string): string {
+  const abs = value.abs()
+  if (symbol === "") return formatTerm(abs)
+  if (abs.compare(ONE) === 0) return symbol.replace(/^·/, "")
+  const text = formatTerm(abs)
+  return text.includes("/") ? `(${text})${symbol}` : `${text}${symbol}`
+}
+
+// Joins signed terms: [[2, "n^2"], [-1, "n"], [3, ""]] -> "2n^2 - n + 3"
+function formatLinear(parts: [Rational, string][]): string {
+  const nonzero = parts.filter(([value]) => !value.isZero())
+  if (nonzero.length === 0) return "0"
+  return nonzero
+    .map(([value, symbol], i) => {
+      const text = coefficient(value, symbol)
+      if (i === 0) return value.sign() < 0 ? `-${text}` : text
+      return value.sign() < 0 ? ` - ${text}` : ` + ${text}`
+    })
+    .join("")
+}
+
+// Power-basis coefficients (constant first) of the polynomial through a(1..k+1), from its Newton form
+function polynomialCoefficients(terms: Rational[], degree: number): Rational[] {
+  const leading: Rational[] = []
+  let row = terms.slice(0, degree + 1)
+  for (let j = 0; j <= degree; j++) {
+    leading.push(row[0])
+    row = differences(row)
+  }
+
+  // a(n) = sum of leading[j] * (n-1)(n-2)...(n-j) / j!
+  const result: Rational[] = Array.from({ length: degree + 1 }, () => ZERO)
+  let basis: Rational[] = [ONE]
+  let factorial = ONE
+  for (let j = 0; j <= degree; j++) {
+    if (j > 0) {
+      // Multiply the basis polynomial by (n - j)
+      const shifted: Rational[] = [ZERO, ...basis]
+      basis = shifted.map((value, i) => (i < basis.length ? value.subtract(basis[i].multiply(fromInteger(j))) : value))
+      factorial = factorial.multiply(fromInteger(j))
+    }
+    const scale = leading[j].divide(factorial)
+    basis.forEach((value, i) => (result[i] = result[i].add(value.multiply(scale))))
+  }
+  return result
+}
+
+function polynomialFormula(coefficients: Rational[]): string {
+  const parts: [Rational, string][] = []
+  for (let power = coefficients.length - 1; power >= 0; power--) {
+    parts.push([coefficients[power], power === 0 ? "" : power === 1 ? "n" : `n^${power}`])
+  }
+  return `a(n) = ${formatLinear(parts)}`
+}
+
+function arithmetic(terms: Rational[]): Candidate | null {
+  const steps = differences(terms)
+  if (!allEqual(steps)) return null
+  const step = steps[0]
+  return {
+    kind: "arithmetic",
+    parameters: 2,
+    description: step.isZero()
+      ? "every term is the same"
+      : `${step.sign() > 0 ? "add" : "subtract"} ${formatTerm(step.abs())} each time`,
+    formula: polynomialFormula([terms[0].subtract(step), step]),
+    extend: (values) => values[values.length - 1].add(step),
+  }
+}
+
+function geometric(terms: Rational[]): Candidate | null {
+  if (terms.some((term) => term.isZero())) return null
+  const ratios = terms.slice(1).map((term, i) => term.divide(terms[i]))
+  if (!allEqual(ratios) || ratios[0].compare(ONE) === 0) return null
+  const ratio = ratios[0]
+  const base = ratio.sign() < 0 || !ratio.isInteger() ? `(${formatTerm(ratio)})` : formatTerm(ratio)
+  // 3, 9, 27 is simply 3^n
+  const formula =
+    terms[0].compare(ratio) === 0
+      ? `${base}^n`
+      : `${terms[0].compare(ONE) === 0 ? "" : `${formatTerm(terms[0])} × `}${base}^(n-1)`
+  return {
+    kind: "geometric",
+    parameters: 2,
+    description: `multiply by ${formatTerm(ratio)} each time`,
+    formula: `a(n) = ${formula}`,
+    extend: (values) => values[values.length - 1].multiply(ratio),
+  }
+}
+
+// Finite differences: a degree-k polynomial has constant k-th differences
+function polynomial(terms: Rational[]): Candidate | null {
+  let row = terms
+  for (let degree = 1; degree <= MAX_DEGREE && row.length > 2; degree++) {
+    row = differences(row)
+    if (degree >= 2 && row.length >= 2 && allEqual(row)) {
+      const constant = formatTerm(row[0])
+      return {
+        kind: "polynomial",
+        parameters: degree + 1,
+        description: `the ${ORDINALS[degree]} differences are all ${constant}, so it's a degree-${degree} polynomial`,
+        formula: polynomialFormula(polynomialCoefficients(terms, degree)),
+        extend: (values) => {
+          // Rebuild the difference table's last column and add back up
+          const lasts: Rational[] = []
+          let current = values
+          for (let j = 0; j <= degree; j++) {
+            lasts.push(current[current.length - 1])
+            current = differences(current)
+          }
+          return lasts.reduce((total, value) => total.add(value), ZERO)
+        },
+      }
+    }
+  }
+  return null
+}
+
+function fibonacci(terms: Rational[]): Candidate | null {
+  if (terms.length < 4 || !terms.slice(2).every((term, i) => term.compare(terms[i].add(terms[i + 1])) === 0)) return null
+  return {
+    kind: "fibonacci",
+    parameters: 2,
+    description: "each term is the sum of the two before it",
+    formula: "a(n) = a(n-1) + a(n-2)",
+    extend: (values) => values[values.length - 1].add(values[values.length - 2]),
+  }
+}
+
+// a(n) = r·a(n-1) + c, e.g. 1, 3, 7, 15 (double and add one)
+function affineRecurrence(terms: Rational[]): Candidate | null {
+  if (terms.length < 4) return null
+  const [a, b, c] = terms
+  if (b.compare(a) === 0) return null
+  const ratio = c.subtract(b).divide(b.subtract(a))
+  const shift = b.subtract(ratio.multiply(a))
+  if (ratio.isZero() || ratio.compare(ONE) === 0) return null
+  const fits = terms.slice(1).every((term, i) => term.compare(ratio.multiply(terms[i]).add(shift)) === 0)
+  if (!fits) return null
+
+  const step = shift.isZero() ? "" : `, then ${shift.sign() > 0 ? "add" : "subtract"} ${formatTerm(shift.abs())}`
+  return {
+    kind: "recursive",
+    parameters: 3,
+    description: `multiply the previous term by ${formatTerm(ratio)}${step}`,
+    formula: `a(n) = ${formatLinear([
+      [ratio, "·a(n-1)"],
+      [shift, ""],
+    ])}`,
+    extend: (values) => ratio.multiply(values[values.length - 1]).add(shift),
+  }
+}
+
+// a(n) = p·a(n-1) + q·a(n-2), e.g. 1, 1, 3, 5, 11 (Jacobsthal) or Pell numbers
+function linearRecurrence(terms: Rational[]): Candidate | null {
+  if (terms.length < 5) return null
+  const [a, b, c, d] = terms
+  // Solve [b a; c b] [p q] = [c d]
+  const determinant = b.multiply(b).subtract(a.multiply(c))
+  if (determinant.isZero()) return null
+  const p = c.multiply(b).subtract(a.multiply(d)).divide(determinant)
+  const q = b.multiply(d).subtract(c.multiply(c)).divide(determinant)
+  if (q.isZero()) return null
+  const fits = terms.slice(2).every((term, i) => term.compare(p.multiply(terms[i + 1]).add(q.multiply(terms[i]))) === 0)
+  if (!fits) return null
+
+  return {
+    kind: "recursive",
+    parameters: 4,
+    description: "each term is built from the two before it",
+    formula: `a(n) = ${formatLinear([
+      [p, "·a(n-1)"],
+      [q, "·a(n-2)"],
+    ])}`,
+    extend: (values) => p.multiply(values[values.length - 1]).add(q.multiply(values[values.length - 2])),
+  }
+}
+
+// Ratios that grow steadily: 1, 2, 6, 24 multiplies by 2, 3, 4, ...
+function growingRatio(terms: Rational[]): Candidate | null {
+  if (terms.length < 4 || terms.some((term) => term.isZero())) return null
+  const ratios = terms.slice(1).map((term, i) => term.divide(terms[i]))
+  const steps = differences(ratios)
+  if (!allEqual(steps) || steps[0].isZero()) return null
+  const step = steps[0]
+  const shown = [0, 1, 2].map((i) => formatTerm(ratios[0].add(step.multiply(fromInteger(i)))))
+  // The nth term is the previous one times r(n) = step·n + offset
+  const multiplier = formatLinear([
+    [step, "n"],
+    [ratios[0].subtract(step.multiply(fromInteger(2))), ""],
+  ])
+  return {
+    kind: "recursive",
+    parameters: 3,
+    description: `multiply by ${shown.join(", ")}, ... in turn`,
+    formula: `a(n) = ${/\s/.test(multiplier) ? `(${multiplier})` : multiplier}·a(n-1)`,
+    extend: (values) => {
+      const n = values.length + 1
+      return values[values.length - 1].multiply(ratios[0].add(step.multiply(fromInteger(n - 2))))
+    },
+  }
+}
+
+// Simpler rules come first, so they win when two rules fit equally well
+const CANDIDATES = [arithmetic, geometric, fibonacci, polynomial, affineRecurrence, growingRatio, linearRecurrence]
+
+export function findSequenceRule(terms: Rational[], count = 3): SequenceRule {
+  if (terms.length < 3) {
+    throw new SequenceError("I need at least three terms to spot a pattern")
+  }
+
+  // A rule only counts when the terms check it beyond the ones it took to pin it down
+  let best: Candidate | null = null
+  for (const build of CANDIDATES) {
+    const candidate = build(terms)
+    if (candidate && terms.length > candidate.parameters && (!best || candidate.parameters < best.parameters)) {
+      best = candidate
+    }
+  }
+  if (!best) {
+    throw new SequenceError(`I couldn't find a rule that fits ${terms.map(formatTerm).join(", ")}`)
+  }
+
+  // Each extra term that agrees halves the chance the fit is a coincidence
+  const checks = terms.length - best.parameters
+  const confidence = Math.min(0.99, 1 - Math.pow(0.5, checks + 1))
+
+  const extended = [...terms]
+  for (let i = 0; i < Math.min(count, MAX_TERMS_SHOWN); i++) {
+    extended.push(best.extend(extended))
+  }
+  return {
+    kind: best.kind,
+    description: best.description,
+    formula: best.formula,
+    confidence,
+    next: extended.slice(terms.length),
+  }
+}
+
+function parseTerm(text: string): Rational {
+  const [numerator, denominator] = text.split("/")
+  const value = Rational.parse(numerator)
+  return denominator === undefined ? value : value.divide(Rational.parse(denominator))
+}
+
+// "what comes next: 2, 6, 12, 20", "next 5 terms of 1, 1, 2, 3, 5", "3, 9, 27, ..."
+export function parseSequenceQuery(message: string): SequenceQuery | null {
+  const text = message.trim().replace(/\s*[?!]+$/, "")
+  const term = "-?(?:\\d+(?:\\.\\d+)?|\\.\\d+)(?:\\s*/\\s*\\d+)?"
+  const list = text.match(new RegExp(`(${term}(?:\\s*,\\s*${term})+)(\\s*,?\\s*(?:\\.\\.\\.|…|\\?|_+))?`))
+  if (!list) return null
+
+  const before = text.slice(0, list.index).trim()
+  const after = text.slice(list.index! + list[0].length).trim()
+  const asks = /\b(?:what(?:'s| is| comes| number comes)?\s+next|comes next|next(?:\s+\w+)?\s+(?:terms?|numbers?|values?)|next(?=\s*:)|continue|complete|extend|(?:find|what(?:'s| is)) the (?:pattern|rule)|sequence|series|pattern)\b/i
+  const trailingMarker = list[2] !== undefined
+
+  // The list has to be the whole subject: a lead-in before it, or a question after it
+  const ledIn = asks.test(before) && /(?:[:\-–]|\b(?:of|in|for|to|sequence|series|pattern|next))\s*$/i.test(before)
+  const followedBy = before === "" && (after === "" ? trailingMarker : asks.test(after))
+  if (!ledIn && !followedBy) return null
+
+  const wanted = `${before} ${after}`.match(/\bnext\s+(\d+|two|three|four|five|six|seven|eight|nine|ten)\b/i)
+  const count = wanted ? (COUNT_WORDS[wanted[1].toLowerCase()] ?? Number.parseInt(wanted[1], 10)) : 3
+  const terms = list[1].split(",").map((part) => parseTerm(part.replace(/\s+/g, "")))
+  return { terms, count: Math.max(1, Math.min(count, MAX_TERMS_SHOWN)) }
+}
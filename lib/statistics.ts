@@ -0,0 +1,226 @@
+export class StatisticsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "StatisticsError"
+  }
+}
+
+export interface RegressionResult {
+  slope: number
+  intercept: number
+  r: number
+  rSquared: number
+}
+
+export type StatisticsOperation =
+  | "mean"
+  | "median"
+  | "mode"
+  | "variance"
+  | "stdev"
+  | "range"
+  | "sum"
+  | "percentile"
+  | "summary"
+  | "correlation"
+  | "regression"
+
+export interface StatisticsQuery {
+  operation: StatisticsOperation
+  values: number[]
+  // Second list for correlation and regression
+  others?: number[]
+  percentile?: number
+  population: boolean
+}
+
+function requireValues(values: number[], minimum = 1): void {
+  if (values.length < minimum) {
+    throw new StatisticsError(`This needs at least ${minimum} number${minimum === 1 ? "" : "s"}`)
+  }
+}
+
+function requirePairs(xs: number[], ys: number[]): void {
+  if (xs.length !== ys.length) {
+    throw new StatisticsError(`The lists have different lengths (${xs.length} and ${ys.length})`)
+  }
+  requireValues(xs, 2)
+}
+
+function sorted(values: number[]): number[] {
+  return [...values].sort((a, b) => a - b)
+}
+
+export function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+export function mean(values: number[]): number {
+  requireValues(values)
+  return sum(values) / values.length
+}
+
+export function median(values: number[]): number {
+  return percentile(values, 50)
+}
+
+// Every value that shares the highest count, smallest first
+export function mode(values: number[]): number[] {
+  requireValues(values)
+  const counts = new Map<number, number>()
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1))
+
+  const highest = Math.max(...counts.values())
+  return sorted(Array.from(counts.entries()).filter(([, count]) => count === highest).map(([value]) => value))
+}
+
+// Sample variance (n - 1) unless population is asked for
+export function variance(values: number[], population = false): number {
+  requireValues(values, population ? 1 : 2)
+  const average = mean(values)
+  const squares = sum(values.map((value) => (value - average) ** 2))
+  return squares / (population ? values.length : values.length - 1)
+}
+
+export function standardDeviation(values: number[], population = false): number {
+  return Math.sqrt(variance(values, population))
+}
+
+// Linear interpolation between closest ranks, the same method as spreadsheet PERCENTILE.INC
+export function percentile(values: number[], p: number): number {
+  requireValues(values)
+  if (p < 0 || p > 100) {
+    throw new StatisticsError("Percentiles go from 0 to 100")
+  }
+
+  const ordered = sorted(values)
+  const rank = (p / 100) * (ordered.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return ordered[lower] + (ordered[upper] - ordered[lower]) * (rank - lower)
+}
+
+// Pearson correlation coefficient
+export function correlation(xs: number[], ys: number[]): number {
+  requirePairs(xs, ys)
+  const meanX = mean(xs)
+  const meanY = mean(ys)
+
+  let covariance = 0
+  let spreadX = 0
+  let spreadY = 0
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY)
+    spreadX += (x - meanX) ** 2
+    spreadY += (ys[i] - meanY) ** 2
+  })
+
+  if (spreadX === 0 || spreadY === 0) {
+    throw new StatisticsError("Correlation is undefined when a list has no variation")
+  }
+  return covariance / Math.sqrt(spreadX * spreadY)
+}
+
+// Least-squares line y = slope * x + intercept
+export function linearRegression(xs: number[], ys: number[]): RegressionResult {
+  requirePairs(xs, ys)
+  const meanX = mean(xs)
+  const meanY = mean(ys)
+
+  let covariance = 0
+  let spreadX = 0
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY)
+    spreadX += (x - meanX) ** 2
+  })
+
+  if (spreadX === 0) {
+    throw new StatisticsError("Regression needs at least two different x values")
+  }
+
+  const slope = covariance / spreadX
+  const intercept = meanY - slope * meanX
+  const r = ys.every((y) => y === ys[0]) ? 0 : correlation(xs, ys)
+  return { slope, intercept, r, rSquared: r * r }
+}
+
+// Registered math functions report problems as strings, like the rest of the registry
+export function statisticOrError(compute: () => number): number | string {
+  try {
+    return compute()
+  } catch (error) {
+    if (error instanceof StatisticsError) return error.message
+    throw error
+  }
+}
+
+// "3, 5, 9 and 12", "[1 2 3]", "1; 2; 3" -> numbers
+export function parseNumberList(text: string): number[] | null {
+  const cleaned = text.replace(/[[\]{}()]/g, " ").replace(/\band\b/gi, ",").trim()
+  if (cleaned === "") return null
+
+  const parts = cleaned.split(/\s*[,;]\s*|\s+/).filter((part) => part !== "")
+  const values = parts.map((part) => Number(part))
+  return values.every((value) => Number.isFinite(value)) ? values : null
+}
+
+// Two lists for correlation or regression: "1,2,3 and 2,4,6", "x: 1 2 3; y: 2 4 6", "[1,2,3] vs [2,4,6]"
+function parseListPair(text: string): [number[], number[]] | null {
+  const stripped = text.replace(/\b[xy]\s*[:=]\s*/gi, "")
+  const bracketed = stripped.match(/\[[^\]]*\]/g)
+  const sides = bracketed?.length === 2 ? bracketed : stripped.split(/\s*(?:[;|]|\band\b|\bvs\.?|\bwith\b)\s*/i)
+  if (sides.length !== 2) return null
+
+  const xs = parseNumberList(sides[0])
+  const ys = parseNumberList(sides[1])
+  return xs && ys ? [xs, ys] : null
+}
+
+const OPERATION_NAMES: [RegExp, StatisticsOperation][] = [
+  [/^(?:mean|average|avg)$/, "mean"],
+  [/^median$/, "median"],
+  [/^mode$/, "mode"],
+  [/^variance$/, "variance"],
+  [/^(?:standard deviation|std dev|stdev|std)$/, "stdev"],
+  [/^range$/, "range"],
+  [/^sum$/, "sum"],
+  [/^(?:summary|statistics|stats|describe)$/, "summary"],
+]
+
+// Reads chat phrasing such as "mean of 3, 5, 9, 12" or "90th percentile of 1, 2, 3"
+export function parseStatisticsQuery(message: string): StatisticsQuery | null {
+  const text = message.trim().replace(/\s*[?.!]+$/, "")
+
+  const pair = text.match(
+    /^(?:(?:what(?:'s| is) the |find the |calculate the )?)(correlation|linear regression|regression|line of best fit)\s+(?:of|for|between)\s+(.+)$/i,
+  )
+  if (pair) {
+    const lists = parseListPair(pair[2])
+    if (!lists) return null
+    const operation = /correlation/i.test(pair[1]) ? "correlation" : "regression"
+    return { operation, values: lists[0], others: lists[1], population: false }
+  }
+
+  const ranked = text.match(
+    /^(?:(?:what(?:'s| is) the |find the |calculate the )?)(?:(\d+(?:\.\d+)?)(?:st|nd|rd|th)?\s+percentile|p(\d+(?:\.\d+)?)|percentile\s+(\d+(?:\.\d+)?))\s+(?:of|for)\s+(.+)$/i,
+  )
+  if (ranked) {
+    const values = parseNumberList(ranked[4])
+    if (!values) return null
+    const p = Number.parseFloat(ranked[1] ?? ranked[2] ?? ranked[3])
+    return { operation: "percentile", values, percentile: p, population: false }
+  }
+
+  const single = text.match(
+    /^(?:(?:what(?:'s| is) the |find the |calculate the |give me (?:the |a )?)?)(population |sample )?(mean|average|avg|median|mode|variance|standard deviation|std dev|stdev|std|range|sum|summary|statistics|stats|describe)\s*(?:of|for|:)?\s+(.+)$/i,
+  )
+  if (!single) return null
+
+  // "sum of two squares" and friends are not lists of numbers
+  const values = parseNumberList(single[3])
+  if (!values) return null
+
+  const name = single[2].toLowerCase()
+  const operation = OPERATION_NAMES.find(([pattern]) => pattern.test(name))![1]
+  return { operation, values, population: /population/i.test(single[1] ?? "") }
+}
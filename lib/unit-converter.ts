@@ -0,0 +1,334 @@
+type Dimension = "length" | "mass" | "time" | "data" | "temperature"
+
+type DimensionVector = Record<Dimension, number>
+
+interface UnitDefinition {
+  names: string[]
+  factor: number
+  dimensions: Partial<DimensionVector>
+  // Affine units (°C, °F) convert as base = value * factor + offset
+  offset?: number
+  // How results show the unit when names[0] doesn't read well: "°C" rather than "C"
+  symbol?: string
+  // For units shown as a word: "3 cups"
+  plural?: string
+}
+
+export interface ParsedUnit {
+  // The unit as results show it, from the table rather than as typed: "°F", "km/h"
+  label: string
+  plural?: string
+  factor: number
+  dimensions: DimensionVector
+  offset: number
+}
+
+export interface ConversionResult {
+  value: number
+  from: ParsedUnit
+  to: ParsedUnit
+  formatted: string
+}
+
+export interface ConversionQuery {
+  value: number
+  from: string
+  to: string
+  // True when the user clearly asked for a conversion ("convert ..."), so unknown units should be reported
+  explicit: boolean
+}
+
+export class UnitConversionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "UnitConversionError"
+  }
+}
+
+const DIMENSIONS: Dimension[] = ["length", "mass", "time", "data", "temperature"]
+
+// Factors are relative to the SI base unit of each dimension (metre, kilogram, second, byte, kelvin)
+const LENGTH: Partial<DimensionVector> = { length: 1 }
+const AREA: Partial<DimensionVector> = { length: 2 }
+const VOLUME: Partial<DimensionVector> = { length: 3 }
+const MASS: Partial<DimensionVector> = { mass: 1 }
+const TIME: Partial<DimensionVector> = { time: 1 }
+const SPEED: Partial<DimensionVector> = { length: 1, time: -1 }
+const DATA: Partial<DimensionVector> = { data: 1 }
+const TEMPERATURE: Partial<DimensionVector> = { temperature: 1 }
+
+const UNIT_TABLE: Record<string, UnitDefinition[]> = {
+  length: [
+    { names: ["m", "meter", "meters", "metre", "metres"], factor: 1, dimensions: LENGTH },
+    { names: ["km", "kilometer", "kilometers", "kilometre", "kilometres"], factor: 1000, dimensions: LENGTH },
+    { names: ["cm", "centimeter", "centimeters", "centimetre", "centimetres"], factor: 0.01, dimensions: LENGTH },
+    { names: ["mm", "millimeter", "millimeters", "millimetre", "millimetres"], factor: 0.001, dimensions: LENGTH },
+    { names: ["µm", "um", "micrometer", "micrometers", "micron", "microns"], factor: 1e-6, dimensions: LENGTH },
+    { names: ["nm", "nanometer", "nanometers"], factor: 1e-9, dimensions: LENGTH },
+    { names: ["mi", "mile", "miles"], factor: 1609.344, dimensions: LENGTH },
+    { names: ["yd", "yard", "yards"], factor: 0.9144, dimensions: LENGTH },
+    { names: ["ft", "foot", "feet"], factor: 0.3048, dimensions: LENGTH },
+    { names: ["in", "inch", "inches"], factor: 0.0254, dimensions: LENGTH },
+    { names: ["nmi", "nautical mile", "nautical miles"], factor: 1852, dimensions: LENGTH },
+  ],
+  mass: [
+    { names: ["kg", "kilogram", "kilograms", "kilo", "kilos"], factor: 1, dimensions: MASS },
+    { names: ["g", "gram", "grams"], factor: 0.001, dimensions: MASS },
+    { names: ["mg", "milligram", "milligrams"], factor: 1e-6, dimensions: MASS },
+    { names: ["t", "tonne", "tonnes", "metric ton", "metric tons"], factor: 1000, dimensions: MASS },
+    { names: ["lb", "lbs", "pound", "pounds"], factor: 0.45359237, dimensions: MASS },
+    { names: ["oz", "ounce", "ounces"], factor: 0.028349523125, dimensions: MASS },
+    { names: ["st", "stone", "stones"], factor: 6.35029318, dimensions: MASS },
+    { names: ["ton", "tons", "short ton", "short tons"], factor: 907.18474, dimensions: MASS },
+  ],
+  volume: [
+    { names: ["l", "L", "liter", "liters", "litre", "litres"], symbol: "L", factor: 0.001, dimensions: VOLUME },
+    {
+      names: ["ml", "mL", "milliliter", "milliliters", "millilitre", "millilitres"],
+      symbol: "mL",
+      factor: 1e-6,
+      dimensions: VOLUME,
+    },
+    { names: ["gal", "gallon", "gallons"], factor: 0.003785411784, dimensions: VOLUME },
+    { names: ["qt", "quart", "quarts"], factor: 0.000946352946, dimensions: VOLUME },
+    { names: ["pt", "pint", "pints"], factor: 0.000473176473, dimensions: VOLUME },
+    { names: ["cup", "cups"], plural: "cups", factor: 0.0002365882365, dimensions: VOLUME },
+    { names: ["fl oz", "floz", "fluid ounce", "fluid ounces"], factor: 0.0000295735295625, dimensions: VOLUME },
+    { names: ["tbsp", "tablespoon", "tablespoons"], factor: 0.00001478676478125, dimensions: VOLUME },
+    { names: ["tsp", "teaspoon", "teaspoons"], factor: 0.00000492892159375, dimensions: VOLUME },
+  ],
+  temperature: [
+    { names: ["K", "kelvin", "kelvins"], factor: 1, dimensions: TEMPERATURE },
+    { names: ["C", "°C", "celsius", "centigrade"], symbol: "°C", factor: 1, offset: 273.15, dimensions: TEMPERATURE },
+    {
+      names: ["F", "°F", "fahrenheit"],
+      symbol: "°F",
+      factor: 5 / 9,
+      offset: 273.15 - (32 * 5) / 9,
+      dimensions: TEMPERATURE,
+    },
+  ],
+  time: [
+    { names: ["s", "sec", "secs", "second", "seconds"], factor: 1, dimensions: TIME },
+    { names: ["ms", "millisecond", "milliseconds"], factor: 0.001, dimensions: TIME },
+    { names: ["min", "mins", "minute", "minutes"], factor: 60, dimensions: TIME },
+    { names: ["h", "hr", "hrs", "hour", "hours"], factor: 3600, dimensions: TIME },
+    { names: ["d", "day", "days"], factor: 86400, dimensions: TIME },
+    { names: ["wk", "week", "weeks"], factor: 604800, dimensions: TIME },
+    { names: ["month", "months"], plural: "months", factor: 2629800, dimensions: TIME },
+    { names: ["yr", "year", "years"], factor: 31557600, dimensions: TIME },
+  ],
+  data: [
+    { names: ["B", "byte", "bytes"], factor: 1, dimensions: DATA },
+    { names: ["b", "bit", "bits"], factor: 0.125, dimensions: DATA },
+    { names: ["KB", "kB", "kilobyte", "kilobytes"], symbol: "kB", factor: 1e3, dimensions: DATA },
+    { names: ["MB", "megabyte", "megabytes"], factor: 1e6, dimensions: DATA },
+    { names: ["GB", "gigabyte", "gigabytes"], factor: 1e9, dimensions: DATA },
+    { names: ["TB", "terabyte", "terabytes"], factor: 1e12, dimensions: DATA },
+    { names: ["KiB", "kibibyte", "kibibytes"], factor: 1024, dimensions: DATA },
+    { names: ["MiB", "mebibyte", "mebibytes"], factor: 1024 ** 2, dimensions: DATA },
+    { names: ["GiB", "gibibyte", "gibibytes"], factor: 1024 ** 3, dimensions: DATA },
+    { names: ["TiB", "tebibyte", "tebibytes"], factor: 1024 ** 4, dimensions: DATA },
+    { names: ["Kb", "kb", "kilobit", "kilobits"], symbol: "kb", factor: 125, dimensions: DATA },
+    { names: ["Mb", "megabit", "megabits"], factor: 125e3, dimensions: DATA },
+    { names: ["Gb", "gigabit", "gigabits"], factor: 125e6, dimensions: DATA },
+  ],
+  speed: [
+    { names: ["mph", "miles per hour"], factor: 0.44704, dimensions: SPEED },
+    { names: ["kph", "kmh", "kilometers per hour", "kilometres per hour"], factor: 1 / 3.6, dimensions: SPEED },
+    { names: ["kn", "kt", "knot", "knots"], factor: 1852 / 3600, dimensions: SPEED },
+  ],
+  area: [
+    { names: ["acre", "acres"], plural: "acres", factor: 4046.8564224, dimensions: AREA },
+    { names: ["ha", "hectare", "hectares"], factor: 10000, dimensions: AREA },
+  ],
+}
+
+// Names for the dimension combinations people ask about, used in error messages
+const DIMENSION_NAMES: Array<{ name: string; dimensions: Partial<DimensionVector> }> = [
+  { name: "length", dimensions: LENGTH },
+  { name: "area", dimensions: AREA },
+  { name: "volume", dimensions: VOLUME },
+  { name: "mass", dimensions: MASS },
+  { name: "time", dimensions: TIME },
+  { name: "speed", dimensions: SPEED },
+  { name: "acceleration", dimensions: { length: 1, time: -2 } },
+  { name: "data size", dimensions: DATA },
+  { name: "data rate", dimensions: { data: 1, time: -1 } },
+  { name: "temperature", dimensions: TEMPERATURE },
+]
+
+export class UnitConverter {
+  private exactUnits: Map<string, UnitDefinition> = new Map()
+  private lowerUnits: Map<string, UnitDefinition> = new Map()
+
+  constructor() {
+    Object.values(UNIT_TABLE).forEach((units) =>
+      units.forEach((unit) =>
+        unit.names.forEach((name) => {
+          this.exactUnits.set(name, unit)
+          // Case-insensitive fallback, without letting "mb" shadow "MB"
+          if (!this.lowerUnits.has(name.toLowerCase())) this.lowerUnits.set(name.toLowerCase(), unit)
+        }),
+      ),
+    )
+  }
+
+  public convert(value: number, fromText: string, toText: string): ConversionResult {
+    const from = this.parseUnit(fromText)
+    const to = this.parseUnit(toText)
+
+    if (!this.sameDimensions(from.dimensions, to.dimensions)) {
+      const fromKind = this.describeDimensions(from.dimensions)
+      const toKind = this.describeDimensions(to.dimensions)
+      throw new UnitConversionError(`Can't convert ${from.label} (${fromKind}) to ${to.label} (${toKind})`)
+    }
+
+    const base = value * from.factor + from.offset
+    const converted = (base - to.offset) / to.factor
+    const quantity = (amount: number, unit: ParsedUnit) =>
+      `${formatQuantity(amount)} ${amount !== 1 && unit.plural ? unit.plural : unit.label}`
+
+    return {
+      value: converted,
+      from,
+      to,
+      formatted: `${quantity(value, from)} = ${quantity(converted, to)}`,
+    }
+  }
+
+  // Recognizes "convert 5 miles to km", "72 F in C" and "how many feet are in 3 meters"
+  public parseQuery(message: string): ConversionQuery | null {
+    const text = message.trim().replace(/[?.!]+$/, "")
+    const explicit = /^\s*convert\b/i.test(text)
+    const number = "(-?\\d+(?:\\.\\d+)?(?:\\s*\\/\\s*\\d+(?:\\.\\d+)?)?)"
+
+    const howManyPattern = new RegExp(`how many\\s+(.+?)\\s+(?:are\\s+)?(?:in|is|are)\\s+${number}\\s*(.+)$`, "i")
+    const howMany = text.match(howManyPattern)
+    if (howMany) {
+      return this.buildQuery(howMany[2], howMany[3], howMany[1], explicit)
+    }
+
+    const direct = text.match(new RegExp(`${number}\\s*(.+?)\\s+(?:to|in|into|as)\\s+(.+)$`, "i"))
+    if (direct) {
+      return this.buildQuery(direct[1], direct[2], direct[3], explicit)
+    }
+
+    return null
+  }
+
+  private buildQuery(valueText: string, from: string, to: string, explicit: boolean): ConversionQuery | null {
+    const [numerator, denominator] = valueText.split("/").map((part) => Number.parseFloat(part))
+    const value = denominator !== undefined ? numerator / denominator : numerator
+    if (!Number.isFinite(value)) return null
+
+    // Without "convert", only treat it as a conversion when both sides are real units
+    if (!explicit && (!this.isUnit(from) || !this.isUnit(to))) return null
+    return { value, from: from.trim(), to: to.trim(), explicit }
+  }
+
+  public isUnit(text: string): boolean {
+    try {
+      this.parseUnit(text)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  // Parses simple and compound units: "km", "km/h", "m/s^2", "sq ft", "kg*m/s²"
+  public parseUnit(text: string): ParsedUnit {
+    const typed = text.trim()
+    const normalized = typed
+      .replace(/²/g, "^2")
+      .replace(/³/g, "^3")
+      .replace(/\b(?:sq|square)\s+([a-zµ]+)/gi, "$1^2")
+      .replace(/\bcubic\s+([a-zµ]+)/gi, "$1^3")
+      .replace(/\s+per\s+/gi, "/")
+      .replace(/\s*([/*·^])\s*/g, "$1")
+
+    const single = this.lookup(normalized)
+    if (single) {
+      return {
+        label: single.symbol ?? single.names[0],
+        plural: single.plural,
+        factor: single.factor,
+        dimensions: toVector(single.dimensions),
+        offset: single.offset ?? 0,
+      }
+    }
+
+    const [numerator, ...denominators] = normalized.split("/")
+    let factor = 1
+    const dimensions = toVector({})
+    // Canonical pieces for the label: "kg·m/s^2"
+    const labels: string[][] = [[], []]
+
+    const applyFactors = (part: string, sign: number) => {
+      for (const piece of part.split(/[*·]/)) {
+        const match = piece.match(/^(.+?)(?:\^(-?\d+))?$/)
+        const unit = match ? this.lookup(match[1]) : undefined
+        if (!match || !unit) {
+          throw new UnitConversionError(`I don't know the unit '${piece || typed}'`)
+        }
+        if (unit.offset !== undefined) {
+          throw new UnitConversionError(`${match[1]} can't be part of a compound unit`)
+        }
+
+        const exponent = match[2] ? Number.parseInt(match[2], 10) : 1
+        const power = exponent * sign
+        labels[sign > 0 ? 0 : 1].push(`${unit.symbol ?? unit.names[0]}${exponent === 1 ? "" : `^${exponent}`}`)
+        factor *= Math.pow(unit.factor, power)
+        DIMENSIONS.forEach((dimension) => (dimensions[dimension] += (unit.dimensions[dimension] ?? 0) * power))
+      }
+    }
+
+    applyFactors(numerator, 1)
+    denominators.forEach((denominator) => applyFactors(denominator, -1))
+
+    const label = [labels[0].join("·"), ...labels[1]].join("/")
+    return { label, factor, dimensions, offset: 0 }
+  }
+
+  public getUnitCount(): number {
+    return Object.values(UNIT_TABLE).reduce((sum, units) => sum + units.length, 0)
+  }
+
+  public getSupportedUnits(): Record<string, string[]> {
+    const supported: Record<string, string[]> = {}
+    Object.entries(UNIT_TABLE).forEach(([category, units]) => {
+      supported[category] = units.map((unit) => unit.symbol ?? unit.names[0])
+    })
+    return supported
+  }
+
+  private lookup(name: string): UnitDefinition | undefined {
+    const cleaned = name.replace(/^°\s*/, "°").trim()
+    return this.exactUnits.get(cleaned) ?? this.lowerUnits.get(cleaned.toLowerCase())
+  }
+
+  private sameDimensions(a: DimensionVector, b: DimensionVector): boolean {
+    return DIMENSIONS.every((dimension) => a[dimension] === b[dimension])
+  }
+
+  private describeDimensions(dimensions: DimensionVector): string {
+    const known = DIMENSION_NAMES.find((entry) => this.sameDimensions(toVector(entry.dimensions), dimensions))
+    if (known) return known.name
+
+    const parts = DIMENSIONS.filter((dimension) => dimensions[dimension] !== 0).map((dimension) =>
+      dimensions[dimension] === 1 ? dimension : `${dimension}^${dimensions[dimension]}`,
+    )
+    return parts.length > 0 ? parts.join("·") : "dimensionless"
+  }
+}
+
+function toVector(partial: Partial<DimensionVector>): DimensionVector {
+  return { length: 0, mass: 0, time: 0, data: 0, temperature: 0, ...partial }
+}
+
+function formatQuantity(value: number): string {
+  if (value === 0) return "0"
+  const magnitude = Math.abs(value)
+  if (magnitude >= 1e15 || magnitude < 1e-6) return value.toExponential(6).replace(/\.?0+e/, "e")
+  return Number.parseFloat(value.toPrecision(10)).toLocaleString("en-US", { maximumFractionDigits: 10 })
+}
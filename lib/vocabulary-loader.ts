@@ -1,3 +1,5 @@
+import { scopedKey } from "./profile-manager"
+
 export interface WordEntry {
   word: string
   definitions: string[]
@@ -695,7 +697,7 @@ export class VocabularyLoader {
       // Try to clear some space and retry once
       try {
         localStorage.removeItem("vocabulary-cache")
-        localStorage.removeItem("enhanced-ai-conversation")
+        localStorage.removeItem(scopedKey("enhanced-ai-conversation"))
         const data = {
           words: Array.from(this.vocabularyData.words.entries()),
           totalWords: this.vocabularyData.totalWords,
@@ -1,3 +1,6 @@
+import { integerOrError } from "./number-theory"
+import { correlation, mean, median, mode, percentile, standardDeviation, statisticOrError, variance } from "./statistics"
+
 interface SeedingProgress {
   current: number
   total: number
@@ -425,6 +428,141 @@ export class VocabularySeeder {
         examples: ["random()", "generate random number"],
         func: () => Math.random(),
       },
+      {
+        name: "mean",
+        description: "Arithmetic mean of a list",
+        examples: ["mean(3, 5, 9, 12)", "mean of 3, 5, 9, 12"],
+        func: (...args: number[]) => statisticOrError(() => mean(args)),
+      },
+      {
+        name: "median",
+        description: "Middle value of a list",
+        examples: ["median(3, 5, 9, 12)", "median of 4, 1, 7"],
+        func: (...args: number[]) => statisticOrError(() => median(args)),
+      },
+      {
+        name: "mode",
+        description: "Most common value of a list (the smallest one if tied)",
+        examples: ["mode(2, 3, 3, 5)", "mode of 1, 2, 2, 4"],
+        func: (...args: number[]) => statisticOrError(() => mode(args)[0]),
+      },
+      {
+        name: "variance",
+        description: "Sample variance of a list",
+        examples: ["variance(2, 4, 4, 5)", "population variance of 2, 4, 4, 5"],
+        func: (...args: number[]) => statisticOrError(() => variance(args)),
+      },
+      {
+        name: "stdev",
+        description: "Sample standard deviation of a list",
+        examples: ["stdev(2, 4, 4, 5)", "standard deviation of 2, 4, 4, 5"],
+        func: (...args: number[]) => statisticOrError(() => standardDeviation(args)),
+      },
+      {
+        name: "percentile",
+        description: "Percentile of a list, first argument is the percentile (0-100)",
+        examples: ["percentile(90, 1, 2, 3, 4, 5)", "90th percentile of 1, 2, 3, 4, 5"],
+        func: (p: number, ...args: number[]) => statisticOrError(() => percentile(args, p)),
+      },
+      {
+        name: "correlation",
+        description: "Pearson correlation, first half of the arguments are x and second half y",
+        examples: ["correlation(1, 2, 3, 2, 4, 7)", "correlation of 1, 2, 3 and 2, 4, 7"],
+        func: (...args: number[]) =>
+          args.length % 2 === 0
+            ? statisticOrError(() => correlation(args.slice(0, args.length / 2), args.slice(args.length / 2)))
+            : "correlation needs two lists of the same length",
+      },
+      {
+        name: "factorial",
+        description: "Factorial of a whole number, exact for large values",
+        examples: ["factorial(20)", "5!"],
+        func: (...args: number[]) => integerOrError("factorial", args),
+      },
+      {
+        name: "ncr",
+        description: "Combinations: ways to choose r items from n",
+        examples: ["ncr(10, 3)", "10 choose 3"],
+        func: (...args: number[]) => integerOrError("ncr", args),
+      },
+      {
+        name: "npr",
+        description: "Permutations: ordered ways to pick r items from n",
+        examples: ["npr(10, 3)", "10 permute 3"],
+        func: (...args: number[]) => integerOrError("npr", args),
+      },
+      {
+        name: "gcd",
+        description: "Greatest common divisor of whole numbers",
+        examples: ["gcd(12, 18)", "gcd of 48, 180 and 600"],
+        func: (...args: number[]) => integerOrError("gcd", args),
+      },
+      {
+        name: "lcm",
+        description: "Least common multiple of whole numbers",
+        examples: ["lcm(4, 6)", "lcm of 4, 6 and 10"],
+        func: (...args: number[]) => integerOrError("lcm", args),
+      },
+      {
+        name: "mod",
+        description: "Remainder after division, never negative",
+        examples: ["mod(17, 5)", "17 mod 5"],
+        func: (...args: number[]) => integerOrError("mod", args),
+      },
+      {
+        name: "modpow",
+        description: "Modular exponentiation: base, exponent, modulus",
+        examples: ["modpow(3, 200, 7)", "3^200 mod 7"],
+        func: (...args: number[]) => integerOrError("modpow", args),
+      },
+      {
+        name: "fib",
+        description: "Fibonacci number, exact for large positions",
+        examples: ["fib(100)", "the 10th fibonacci number"],
+        func: (...args: number[]) => integerOrError("fib", args),
+      },
+      {
+        name: "isprime",
+        description: "1 if the number is prime, otherwise 0",
+        examples: ["isprime(97)", "is 97 prime?"],
+        func: (...args: number[]) => integerOrError("isprime", args),
+      },
+      {
+        name: "band",
+        description: "Bitwise AND",
+        examples: ["band(0xff, 0x0f)", "0xff and 0x0f"],
+        func: (...args: number[]) => integerOrError("band", args),
+      },
+      {
+        name: "bor",
+        description: "Bitwise OR",
+        examples: ["bor(0b1010, 0b0101)", "0b1010 or 0b0101"],
+        func: (...args: number[]) => integerOrError("bor", args),
+      },
+      {
+        name: "bxor",
+        description: "Bitwise XOR",
+        examples: ["bxor(5, 3)", "5 xor 3"],
+        func: (...args: number[]) => integerOrError("bxor", args),
+      },
+      {
+        name: "bnot",
+        description: "Bitwise NOT (two's complement, so bnot(5) = -6)",
+        examples: ["bnot(5)"],
+        func: (...args: number[]) => integerOrError("bnot", args),
+      },
+      {
+        name: "shl",
+        description: "Shift bits left",
+        examples: ["shl(1, 8)", "1 << 8"],
+        func: (...args: number[]) => integerOrError("shl", args),
+      },
+      {
+        name: "shr",
+        description: "Shift bits right",
+        examples: ["shr(256, 4)", "256 >> 4"],
+        func: (...args: number[]) => integerOrError("shr", args),
+      },
     ]
 
     // Add mathematical functions to AI system